@@ -1,9 +1,30 @@
-import { chromium, Browser, Page, BrowserContext } from 'playwright';
-import { Driver, UIAnalysis, UIElement, Form } from '../types/index.js';
-import { NavigationError } from '../utils/errors.js';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Browser, Page, BrowserContext, BrowserContextOptions, Video } from 'playwright';
+import { Driver, UIAnalysis, UIElement, Form, BrowserName, DeviceProfile, RouteMockInput, MockedRoute, ArtifactMode, PageVitals, PerformanceBudget, DialogPolicy, DialogRecord, TabInfo, TabTarget, ThrottlingProfile, EmulationSettings, ClockSettings, ClockSettingsInput, DownloadRecord } from '../types/index.js';
+import { MCPUIError, NavigationError } from '../utils/errors.js';
+import { launchBrowser, parseBrowserName } from '../utils/browsers.js';
+import { DEFAULT_DEVICE_PROFILE, toContextOptions } from '../utils/devices.js';
+import { RouteMocks } from '../utils/routeMocks.js';
+import { HarRecorder } from '../utils/harRecorder.js';
+import { PerformanceCollector, matchesUrlPattern } from '../utils/performance.js';
+import { RunArtifactOptions, RunArtifacts, shouldRetainArtifact } from '../utils/runArtifacts.js';
+import { framePathOf } from '../utils/frames.js';
+import { dialogHandlerFor, defaultDialogPolicy, parseDialogPolicy } from '../utils/dialogs.js';
+import { throttlingFor } from '../utils/throttling.js';
+import { downloadsFor } from '../utils/downloads.js';
+import { advanceClock, applyClock, clockNow, emulationOptions, parseClock, parseEmulation } from '../utils/emulation.js';
 import logger from '../utils/logger.js';
 import { v4 as uuidv4 } from 'uuid';
 
+// Emulation and clock as saveEmulation found them; an advancing clock runs on from there
+export interface SavedEmulation {
+  emulation: EmulationSettings;
+  clock: ClockSettings | null;
+  clockSetAt: number;
+}
+
 export class PlaywrightDriver implements Driver {
   private browser: Browser | null = null;
   private context: BrowserContext | null = null;
@@ -12,36 +33,170 @@ export class PlaywrightDriver implements Driver {
   private networkErrors: any[] = [];
   private lastResponse: any = null;
   private lastNavigationStatus: number = 200;
+  private browserName: BrowserName = parseBrowserName(process.env.UI_PROBE_BROWSER) || 'chromium';
+  private deviceProfile: DeviceProfile = DEFAULT_DEVICE_PROFILE;
+  private routeMocks = new RouteMocks();
+  private harRecorder: HarRecorder | null = null;
+  private harReplay: { path: string; notFound: 'abort' | 'fallback' } | null = null;
+  private artifactCapture: (RunArtifactOptions & { videoDir?: string }) | null = null;
+  private performanceCapture: { collector: PerformanceCollector; budgets: PerformanceBudget[] } | null = null;
+  private dialogPolicy: DialogPolicy = defaultDialogPolicy();
+  private dialogLog: DialogRecord[] = [];
+  private throttling: ThrottlingProfile | null = null;
+  private emulation: EmulationSettings = {};
+  private clock: ClockSettings | null = null;
+  private clockSetAt = 0;
+
+  /**
+   * @param browserProvider Supplies a shared browser so each driver only owns its context;
+   *   when omitted the driver launches and closes its own browser
+   */
+  constructor(private browserProvider?: (browserName: BrowserName) => Promise<Browser>) {}
 
   async initialize(): Promise<void> {
     try {
-      this.browser = await chromium.launch({
-        headless: process.env.NODE_ENV === 'production',
-        args: ['--no-sandbox', '--disable-setuid-sandbox']
+      this.browser = this.browserProvider
+        ? await this.browserProvider(this.browserName)
+        : await launchBrowser(this.browserName);
+
+      await this.createContext();
+
+      logger.info('Playwright driver initialized successfully', {
+        browser: this.browserName,
+        device: this.deviceProfile.name
       });
+    } catch (error) {
+      logger.error('Failed to initialize Playwright driver', { browser: this.browserName, error });
+      throw new NavigationError(`Failed to initialize ${this.browserName} browser`, error);
+    }
+  }
 
-      this.context = await this.browser.newContext({
-        viewport: { width: 1280, height: 800 },
+  private async createContext(extraOptions: BrowserContextOptions = {}): Promise<void> {
+    this.rememberThrottling();
+    this.context = await this.browser!.newContext({
+      // Keep each engine's native user agent so sites serve their browser-specific code paths
+      ...(this.browserName === 'chromium' ? {
         userAgent: 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
-      });
+      } : {}),
+      ...toContextOptions(this.deviceProfile, this.browserName),
+      ...emulationOptions(this.emulation),
+      ...extraOptions
+    });
 
-      this.page = await this.context.newPage();
+    await this.applyRoutes();
 
-      // Set up error collection
-      this.setupErrorCollection();
+    // The policy and dialog history belong to the session, so they carry over to new contexts
+    const dialogs = dialogHandlerFor(this.context);
+    dialogs.setPolicy(this.dialogPolicy);
+    dialogs.onDialog(record => this.dialogLog.push(record));
 
-      logger.info('Playwright driver initialized successfully');
-    } catch (error) {
-      logger.error('Failed to initialize Playwright driver', { error });
-      throw new NavigationError('Failed to initialize browser', error);
+    // Popups and target=_blank links open more pages; each collects errors like the first
+    const context = this.context;
+    context.on('page', page => this.trackPage(context, page));
+
+    // Capture downloads from the first page on, so export buttons can be verified afterwards
+    downloadsFor(context);
+
+    // A replaced context restarts the fake clock where it has got to
+    if (this.clock) {
+      this.rememberClock(clockNow(this.clock, this.clockSetAt));
+      await applyClock(context, this.clock);
+    }
+
+    this.page = await context.newPage();
+
+    if (this.throttling) {
+      try {
+        await throttlingFor(context).apply(this.throttling);
+      } catch (error) {
+        // e.g. latency throttling carried over to a Firefox context
+        logger.warn('Dropping throttling the new context does not support', { throttling: this.throttling.name, error });
+        this.throttling = null;
+      }
+    }
+  }
+
+  // Journey steps change throttling on the context itself, so read it back before replacing the context
+  private rememberThrottling(): void {
+    if (this.context) {
+      this.throttling = throttlingFor(this.context).current();
+    }
+  }
+
+  private trackPage(context: BrowserContext, page: Page): void {
+    this.setupErrorCollection(page);
+
+    // A popup closing itself (e.g. after a social sign-in) hands control back to the newest remaining tab
+    page.on('close', () => {
+      if (this.page !== page || this.context !== context) return;
+      this.page = context.pages().filter(other => other !== page).pop() || null;
+      logger.info('Active tab closed', { url: page.url(), activeUrl: this.page?.url() });
+    });
+  }
+
+  getBrowserName(): BrowserName {
+    return this.browserName;
+  }
+
+  /**
+   * Switch engines, relaunching only when the requested browser differs from the running one
+   */
+  async useBrowser(browserName: BrowserName): Promise<void> {
+    if (browserName === this.browserName && this.page) {
+      return;
+    }
+
+    const currentUrl = this.page?.url();
+    if (this.browser) {
+      await this.close();
     }
+
+    this.browserName = browserName;
+    this.consoleErrors = [];
+    this.networkErrors = [];
+    await this.initialize();
+    await this.restoreUrl(currentUrl);
+  }
+
+  getDeviceProfile(): DeviceProfile {
+    return this.deviceProfile;
+  }
+
+  /**
+   * Apply a device profile; viewport, touch and mobile mode are fixed per context, so a new one is
+   * opened with cookies, storage and the open URL carried over
+   */
+  async useDevice(profile: DeviceProfile): Promise<void> {
+    if (profile.name === this.deviceProfile.name && this.page) {
+      return;
+    }
+
+    this.deviceProfile = profile;
+    if (!this.browser) {
+      return;
+    }
+
+    this.consoleErrors = [];
+    this.networkErrors = [];
+    await this.reopenContext();
+
+    logger.info('Device profile applied', { device: profile.name, viewport: profile.viewport });
   }
 
-  private setupErrorCollection(): void {
-    if (!this.page) return;
+  // A fresh context starts on about:blank; reopen the previous page so tools without a url keep working
+  private async restoreUrl(url?: string): Promise<void> {
+    if (!url || url === 'about:blank') return;
 
+    try {
+      await this.page!.goto(url, { waitUntil: 'domcontentloaded', timeout: 30000 });
+    } catch (error) {
+      logger.warn('Failed to reopen page after browser change', { url, error });
+    }
+  }
+
+  private setupErrorCollection(page: Page): void {
     // Console error collection
-    this.page.on('console', (msg) => {
+    page.on('console', (msg) => {
       if (msg.type() === 'error') {
         this.consoleErrors.push(msg.text());
         logger.warn('Console error captured', { message: msg.text() });
@@ -49,7 +204,7 @@ export class PlaywrightDriver implements Driver {
     });
 
     // Network error collection
-    this.page.on('response', (response) => {
+    page.on('response', (response) => {
       if (!response.ok()) {
         this.networkErrors.push({
           url: response.url(),
@@ -65,7 +220,7 @@ export class PlaywrightDriver implements Driver {
     });
 
     // Page error collection
-    this.page.on('pageerror', (error) => {
+    page.on('pageerror', (error) => {
       this.consoleErrors.push(error.message);
       logger.error('Page error captured', { error: error.message });
     });
@@ -153,6 +308,460 @@ export class PlaywrightDriver implements Driver {
     return this.page!;
   }
 
+  // Routes added last win, so mocks are attached after HAR replay to override captured responses
+  private async applyRoutes(): Promise<void> {
+    if (this.harReplay) {
+      await this.context!.routeFromHAR(this.harReplay.path, { notFound: this.harReplay.notFound });
+    }
+
+    // Mocks outlive contexts so switching device or browser keeps faking the same responses
+    await this.routeMocks.attach(this.context!);
+  }
+
+  async mockRoute(mock: RouteMockInput): Promise<MockedRoute> {
+    return this.routeMocks.add(mock);
+  }
+
+  async clearMocks(mockId?: string): Promise<MockedRoute[]> {
+    return this.routeMocks.clear(mockId);
+  }
+
+  getRouteMocks(since?: Date): MockedRoute[] {
+    return this.routeMocks.list(since);
+  }
+
+  getDialogPolicy(): DialogPolicy {
+    return this.dialogPolicy;
+  }
+
+  setDialogPolicy(policy: DialogPolicy): DialogPolicy {
+    this.dialogPolicy = parseDialogPolicy(policy);
+    if (this.context) {
+      dialogHandlerFor(this.context).setPolicy(this.dialogPolicy);
+    }
+
+    logger.info('Dialog policy set', { action: this.dialogPolicy.action });
+    return this.dialogPolicy;
+  }
+
+  getThrottling(): ThrottlingProfile | null {
+    return this.context ? throttlingFor(this.context).current() : this.throttling;
+  }
+
+  /**
+   * Emulate network and CPU conditions in every tab of the session, returning the previous ones
+   */
+  async setThrottling(profile: ThrottlingProfile | null): Promise<ThrottlingProfile | null> {
+    await this.getPage();
+    const previous = await throttlingFor(this.context!).apply(profile);
+    this.throttling = profile;
+    return previous;
+  }
+
+  getEmulation(): EmulationSettings {
+    return { ...this.emulation };
+  }
+
+  /**
+   * Change the locale, time zone or position the browser reports, keeping settings not given.
+   * Locale and time zone are fixed per context, so changing either reopens it with cookies,
+   * storage and the open URL carried over
+   */
+  async useEmulation(settings: EmulationSettings): Promise<EmulationSettings> {
+    const previous = this.emulation;
+    this.emulation = { ...previous, ...parseEmulation(settings) };
+    if (!this.context) {
+      return this.getEmulation();
+    }
+
+    if (this.emulation.locale !== previous.locale || this.emulation.timezoneId !== previous.timezoneId) {
+      await this.reopenContext();
+    } else if (this.emulation.geolocation) {
+      await this.context.grantPermissions(['geolocation']);
+      await this.context.setGeolocation(this.emulation.geolocation);
+    }
+
+    logger.info('Emulation applied', this.emulation);
+    return this.getEmulation();
+  }
+
+  saveEmulation(): SavedEmulation {
+    return { emulation: this.getEmulation(), clock: this.clock, clockSetAt: this.clockSetAt };
+  }
+
+  /**
+   * Go back to emulation and a clock saved earlier, e.g. once a journey's pinned settings are no
+   * longer wanted. An installed clock cannot be removed, so the context is reopened with cookies,
+   * storage and the open URL carried over
+   */
+  async restoreEmulation(saved: SavedEmulation): Promise<void> {
+    this.emulation = { ...saved.emulation };
+    this.clock = saved.clock;
+    this.clockSetAt = saved.clockSetAt;
+    if (this.context) {
+      await this.reopenContext();
+    }
+
+    logger.info('Emulation restored', { ...this.emulation, clock: this.getClock() });
+  }
+
+  getClock(): ClockSettings | null {
+    return this.clock ? { ...clockNow(this.clock, this.clockSetAt) } : null;
+  }
+
+  // Advancing clocks keep moving with real time, so note when the settings were taken
+  private rememberClock(clock: ClockSettings | null): void {
+    this.clock = clock;
+    this.clockSetAt = Date.now();
+  }
+
+  /**
+   * Install a fake clock in every tab of the session; it stays installed for the session's
+   * lifetime, including contexts opened later
+   */
+  async setClock(settings: ClockSettingsInput): Promise<ClockSettings> {
+    const clock = parseClock(settings);
+    if (this.context) {
+      await applyClock(this.context, clock);
+    }
+    this.rememberClock(clock);
+
+    logger.info('Clock set', clock);
+    return { ...clock };
+  }
+
+  async advanceClock(ms: number): Promise<ClockSettings> {
+    if (!this.clock) {
+      throw new MCPUIError('No fake clock is installed; set a time first', 'E_CLOCK_NOT_SET');
+    }
+    if (!Number.isFinite(ms) || ms < 0) {
+      throw new MCPUIError(`Clock can only move forward, got ${ms}ms`, 'E_VALIDATION');
+    }
+
+    await this.getPage();
+    const clock = await advanceClock(this.context!, clockNow(this.clock, this.clockSetAt), ms);
+    this.rememberClock(clock);
+    return { ...clock };
+  }
+
+  /**
+   * Files downloaded in the current context, oldest first; waits for downloads still in progress
+   */
+  async listDownloads(): Promise<DownloadRecord[]> {
+    await this.getPage();
+    return downloadsFor(this.context!).list();
+  }
+
+  /**
+   * A download by ID, or the newest one; without any yet, waits up to timeoutMs for one to start
+   */
+  async getDownload(downloadId?: string, timeoutMs = 0): Promise<DownloadRecord> {
+    await this.getPage();
+    const downloads = downloadsFor(this.context!);
+
+    if (downloadId) {
+      const download = (await downloads.list()).find(candidate => candidate.downloadId === downloadId);
+      if (!download) {
+        throw new MCPUIError(`Download not found: ${downloadId}`, 'E_DOWNLOAD_NOT_FOUND');
+      }
+      return download;
+    }
+
+    return downloads.waitFor(Math.max(downloads.count() - 1, 0), timeoutMs);
+  }
+
+  /**
+   * Dialogs answered in this session, optionally only those since a point in time
+   */
+  getDialogs(since?: Date): DialogRecord[] {
+    return since
+      ? this.dialogLog.filter(record => new Date(record.timestamp) >= since)
+      : [...this.dialogLog];
+  }
+
+  /**
+   * Start a Playwright trace and/or video for the next run. Video is a context option, so the
+   * context is reopened with its cookies and storage carried over
+   */
+  async startArtifactCapture(options: RunArtifactOptions): Promise<void> {
+    await this.discardArtifactCapture();
+
+    const trace = options.trace || 'off';
+    const video = options.video || 'off';
+    if (trace === 'off' && video === 'off') return;
+
+    await this.getPage();
+
+    let videoDir: string | undefined;
+    if (video !== 'off') {
+      videoDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ui-probe-video-'));
+      await this.reopenContext({ recordVideo: { dir: videoDir, size: this.deviceProfile.viewport } });
+    }
+
+    if (trace !== 'off') {
+      await this.context!.tracing.start({ screenshots: true, snapshots: true });
+    }
+
+    this.artifactCapture = { trace, video, videoDir };
+    logger.info('Run artifact capture started', { trace, video });
+  }
+
+  /**
+   * Stop tracing/video and keep the files the modes ask for; returns the kept paths
+   */
+  async finishArtifactCapture(name: string, failed: boolean): Promise<RunArtifacts> {
+    return this.stopArtifactCapture(name, mode => shouldRetainArtifact(mode, failed));
+  }
+
+  async discardArtifactCapture(): Promise<void> {
+    await this.stopArtifactCapture('discarded', () => false);
+  }
+
+  private async stopArtifactCapture(name: string, retain: (mode?: ArtifactMode) => boolean): Promise<RunArtifacts> {
+    const capture = this.artifactCapture;
+    if (!capture) return {};
+    this.artifactCapture = null;
+
+    const artifacts: RunArtifacts = {};
+
+    if (capture.trace !== 'off' && this.context) {
+      const tracePath = retain(capture.trace)
+        ? path.join(os.tmpdir(), `trace-${name}.zip`)
+        : undefined;
+      try {
+        await this.context.tracing.stop(tracePath ? { path: tracePath } : undefined);
+        if (tracePath) artifacts.trace = tracePath;
+      } catch (error) {
+        logger.warn('Failed to save trace', { name, error });
+      }
+    }
+
+    if (capture.videoDir) {
+      const video: Video | null | undefined = this.page?.video();
+      // The video file is only complete once its page closes
+      await this.reopenContext();
+
+      if (video && retain(capture.video)) {
+        const videoPath = path.join(os.tmpdir(), `video-${name}.webm`);
+        try {
+          await video.saveAs(videoPath);
+          artifacts.video = videoPath;
+        } catch (error) {
+          logger.warn('Failed to save video', { name, error });
+        }
+      }
+      await fs.rm(capture.videoDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+
+    return artifacts;
+  }
+
+  // Swap in a new context on the same browser, keeping cookies, storage and the open URL
+  private async reopenContext(extraOptions: BrowserContextOptions = {}): Promise<void> {
+    const currentUrl = this.page?.url();
+    const storageState = await this.context?.storageState().catch(() => undefined);
+
+    await this.page?.close().catch(() => undefined);
+    await this.context?.close().catch(() => undefined);
+    await this.createContext({ ...extraOptions, ...(storageState ? { storageState } : {}) });
+    await this.restoreUrl(currentUrl);
+  }
+
+  async startHarCapture(): Promise<void> {
+    const page = await this.getPage();
+    await this.cancelHarCapture();
+
+    this.harRecorder = new HarRecorder(page);
+    this.harRecorder.start();
+  }
+
+  isCapturingHar(): boolean {
+    return this.harRecorder !== null;
+  }
+
+  async stopHarCapture(outputPath: string): Promise<{ path: string; entries: number }> {
+    if (!this.harRecorder) {
+      throw new MCPUIError('No HAR capture in progress', 'E_HAR_NOT_CAPTURING');
+    }
+
+    const recorder = this.harRecorder;
+    this.harRecorder = null;
+    return recorder.save(outputPath);
+  }
+
+  async cancelHarCapture(): Promise<void> {
+    if (this.harRecorder) {
+      await this.harRecorder.stop();
+      this.harRecorder = null;
+    }
+  }
+
+  /**
+   * Collect Core Web Vitals for every page shown until stopped; budgets are only carried along
+   * so whoever stops the capture can check the pages against them
+   */
+  async startPerformanceCapture(budgets: PerformanceBudget[] = []): Promise<void> {
+    const page = await this.getPage();
+    await this.cancelPerformanceCapture();
+
+    const collector = new PerformanceCollector(page);
+    await collector.start();
+    this.performanceCapture = { collector, budgets };
+  }
+
+  isCapturingPerformance(): boolean {
+    return this.performanceCapture !== null;
+  }
+
+  async stopPerformanceCapture(): Promise<{ pages: PageVitals[]; budgets: PerformanceBudget[] }> {
+    if (!this.performanceCapture) {
+      throw new MCPUIError('No performance capture in progress', 'E_PERFORMANCE_NOT_CAPTURING');
+    }
+
+    const { collector, budgets } = this.performanceCapture;
+    this.performanceCapture = null;
+    return { pages: await collector.stop(), budgets };
+  }
+
+  async cancelPerformanceCapture(): Promise<void> {
+    if (this.performanceCapture) {
+      const { collector } = this.performanceCapture;
+      this.performanceCapture = null;
+      await collector.stop().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Serve network traffic from a HAR file; with notFound 'abort' requests missing from it fail
+   * instead of reaching the network, so replays are offline and deterministic
+   */
+  async replayFromHar(harPath: string, notFound: 'abort' | 'fallback' = 'abort'): Promise<void> {
+    await this.getPage();
+    this.harReplay = { path: harPath, notFound };
+
+    await this.context!.unrouteAll({ behavior: 'ignoreErrors' });
+    await this.applyRoutes();
+
+    logger.info('Replaying network traffic from HAR', { harPath, notFound });
+  }
+
+  async stopHarReplay(): Promise<void> {
+    if (!this.harReplay) return;
+    this.harReplay = null;
+
+    if (this.context) {
+      await this.context.unrouteAll({ behavior: 'ignoreErrors' });
+      await this.applyRoutes();
+    }
+  }
+
+  /**
+   * Every page open in the session's context, in the order they were opened
+   */
+  async listTabs(): Promise<TabInfo[]> {
+    await this.getPage();
+
+    return Promise.all(this.context!.pages().map(async (page, index) => ({
+      index,
+      url: page.url(),
+      title: await page.title().catch(() => ''),
+      active: page === this.page
+    })));
+  }
+
+  /**
+   * Make another tab the one tools act on. Waits up to timeoutMs for a matching tab, since a
+   * popup may still be opening
+   */
+  async switchTab(target: TabTarget, timeoutMs = 5000): Promise<TabInfo> {
+    await this.getPage();
+    const deadline = Date.now() + timeoutMs;
+
+    let match = await this.findTab(target);
+    while (!match && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+      match = await this.findTab(target);
+    }
+
+    if (!match) {
+      throw new MCPUIError(`Tab not found: ${describeTabTarget(target)}`, 'E_TAB_NOT_FOUND');
+    }
+
+    this.page = match;
+    await match.waitForLoadState('domcontentloaded', { timeout: timeoutMs }).catch(() => undefined);
+    await match.bringToFront().catch(() => undefined);
+
+    logger.info('Switched tab', { url: match.url() });
+    return this.describeTab(match);
+  }
+
+  /**
+   * Close a tab (default: the active one); closing the active tab activates the newest remaining one
+   */
+  async closeTab(index?: number): Promise<TabInfo[]> {
+    await this.getPage();
+    const pages = this.context!.pages();
+    const page = index === undefined ? this.page! : pages[index];
+
+    if (!page) {
+      throw new MCPUIError(`Tab not found: ${index}`, 'E_TAB_NOT_FOUND');
+    }
+    if (pages.length === 1) {
+      throw new MCPUIError('The last tab of a session cannot be closed', 'E_TAB_LAST');
+    }
+
+    await page.close();
+    return this.listTabs();
+  }
+
+  /**
+   * Switch to a tab opened since `known` was taken, e.g. by a click on a target=_blank link
+   */
+  async followNewTab(known: Page[]): Promise<TabInfo | null> {
+    const opened = this.context?.pages().filter(page => !known.includes(page)).pop();
+    if (!opened) return null;
+
+    this.page = opened;
+    await opened.waitForLoadState('domcontentloaded', { timeout: 10000 }).catch(() => undefined);
+
+    logger.info('Following new tab', { url: opened.url() });
+    return this.describeTab(opened);
+  }
+
+  getOpenPages(): Page[] {
+    return this.context?.pages() || [];
+  }
+
+  private async findTab(target: TabTarget): Promise<Page | undefined> {
+    const pages = this.context!.pages();
+    if (target.index !== undefined) {
+      return pages[target.index];
+    }
+
+    for (const page of pages) {
+      if (target.url && !(page.url().includes(target.url) || matchesUrlPattern(page.url(), target.url))) continue;
+      if (target.title && !(await page.title().catch(() => '')).includes(target.title)) continue;
+      return page;
+    }
+    return undefined;
+  }
+
+  private async describeTab(page: Page): Promise<TabInfo> {
+    return {
+      index: this.context!.pages().indexOf(page),
+      url: page.url(),
+      title: await page.title().catch(() => ''),
+      active: page === this.page
+    };
+  }
+
+  /**
+   * URL of the open page without launching a browser when none is running
+   */
+  getCurrentUrl(): string {
+    return this.page?.url() || 'about:blank';
+  }
+
   async snapshot(): Promise<UIAnalysis> {
     if (!this.page) {
       throw new NavigationError('Page not initialized');
@@ -161,7 +770,8 @@ export class PlaywrightDriver implements Driver {
     try {
       logger.info('Taking UI snapshot');
 
-      const result = await this.page.evaluate(() => {
+      // Serialized into each frame, so it must not reference anything outside its own body
+      const analyzeDocument = (): UIAnalysis => {
         const forms: Form[] = [];
         const buttons: UIElement[] = [];
         const inputs: UIElement[] = [];
@@ -215,8 +825,31 @@ export class PlaywrightDriver implements Driver {
                  hasInteractiveRole || isFocusable || hasReactProps;
         };
 
-        // Enhanced helper function to generate selector
+        // Query the document and every open shadow root beneath it
+        const queryAllDeep = (root: ParentNode, selector: string): Element[] => {
+          const results = Array.from(root.querySelectorAll(selector));
+          root.querySelectorAll('*').forEach(element => {
+            if (element.shadowRoot) {
+              results.push(...queryAllDeep(element.shadowRoot, selector));
+            }
+          });
+          return results;
+        };
+
+        // Custom elements that take part in forms like native controls (static formAssociated = true)
+        const isFormAssociated = (element: Element): boolean =>
+          element.tagName.includes('-') && (element.constructor as any).formAssociated === true;
+
+        // Elements inside shadow roots are chained from their host with Playwright's >> so the
+        // selector pierces the shadow boundary
         const generateSelector = (element: Element): string => {
+          const root = element.getRootNode();
+          const local = generateLocalSelector(element);
+          return root instanceof ShadowRoot ? `${generateSelector(root.host)} >> ${local}` : local;
+        };
+
+        // Enhanced helper function to generate selector
+        const generateLocalSelector = (element: Element): string => {
           // Prefer data-test attributes
           if (element.hasAttribute('data-test')) {
             return `[data-test="${element.getAttribute('data-test')}"]`;
@@ -301,12 +934,18 @@ export class PlaywrightDriver implements Driver {
         };
 
         // Analyze forms
-        document.querySelectorAll('form').forEach((form, formIndex) => {
-          const fields = Array.from(form.querySelectorAll('input, select, textarea')).map((input, fieldIndex) => {
+        queryAllDeep(document, 'form').forEach((form, formIndex) => {
+          const customFields = queryAllDeep(form, '*').filter(isFormAssociated);
+          // Native controls rendered by a form-associated element are part of that element's value
+          const nativeFields = queryAllDeep(form, 'input, select, textarea')
+            .filter(control => !customFields.some(custom => custom.shadowRoot?.contains(control)));
+
+          const fields = [...nativeFields, ...customFields].map((input, fieldIndex) => {
             const inputElement = input as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
 
             // Generate unique field name based on various attributes
             const fieldName = inputElement.name ||
+                            inputElement.getAttribute('name') ||
                             inputElement.id ||
                             inputElement.getAttribute('aria-label') ||
                             inputElement.getAttribute('placeholder')?.toLowerCase().replace(/\s+/g, '_') ||
@@ -314,15 +953,16 @@ export class PlaywrightDriver implements Driver {
 
             return {
               name: fieldName,
-              type: inputElement.type || 'text',
+              type: inputElement.type || inputElement.getAttribute('type') || 'text',
               selector: generateSelector(inputElement),
+              ...(isFormAssociated(inputElement) ? { customElement: inputElement.tagName.toLowerCase() } : {}),
               required: inputElement.hasAttribute('required'),
               placeholder: inputElement.getAttribute('placeholder') || undefined,
               label: (() => {
                 // Try to find associated label
                 const id = inputElement.id;
                 if (id) {
-                  const label = document.querySelector(`label[for="${id}"]`);
+                  const label = (inputElement.getRootNode() as Document | ShadowRoot).querySelector(`label[for="${id}"]`);
                   if (label) return label.textContent?.trim();
                 }
 
@@ -341,8 +981,8 @@ export class PlaywrightDriver implements Driver {
             };
           });
 
-          const submitButton = form.querySelector('button[type="submit"], input[type="submit"]') ||
-                              form.querySelector('button:not([type])');
+          const submitButton = queryAllDeep(form, 'button[type="submit"], input[type="submit"]')[0] ||
+                              queryAllDeep(form, 'button:not([type])')[0];
 
           forms.push({
             name: form.getAttribute('name') || form.id || `form_${formIndex}`,
@@ -359,7 +999,7 @@ export class PlaywrightDriver implements Driver {
         const processedElements = new Set<Element>();
 
         // First pass: semantic buttons and inputs
-        document.querySelectorAll('button, input[type="button"], input[type="submit"], [role="button"]').forEach(button => {
+        queryAllDeep(document, 'button, input[type="button"], input[type="submit"], [role="button"]').forEach(button => {
           if (processedElements.has(button)) return;
           processedElements.add(button);
 
@@ -379,7 +1019,7 @@ export class PlaywrightDriver implements Driver {
         });
 
         // Second pass: React components and custom clickable elements
-        const allElements = document.querySelectorAll('*');
+        const allElements = queryAllDeep(document, '*');
         allElements.forEach(element => {
           if (processedElements.has(element)) return;
 
@@ -426,7 +1066,7 @@ export class PlaywrightDriver implements Driver {
         });
 
         // Analyze inputs
-        document.querySelectorAll('input, select, textarea').forEach(input => {
+        queryAllDeep(document, 'input, select, textarea').forEach(input => {
           inputs.push({
             type: input.getAttribute('type') || input.tagName.toLowerCase(),
             selector: generateSelector(input),
@@ -443,7 +1083,7 @@ export class PlaywrightDriver implements Driver {
         });
 
         // Analyze role-based elements
-        document.querySelectorAll('[role]').forEach(element => {
+        queryAllDeep(document, '[role]').forEach(element => {
           const role = element.getAttribute('role');
           if (role) {
             roles.push({
@@ -459,7 +1099,7 @@ export class PlaywrightDriver implements Driver {
         });
 
         // Analyze landmarks
-        document.querySelectorAll('main, nav, header, footer, aside, section[aria-labelledby], [role="main"], [role="navigation"], [role="banner"], [role="contentinfo"], [role="complementary"]').forEach(landmark => {
+        queryAllDeep(document, 'main, nav, header, footer, aside, section[aria-labelledby], [role="main"], [role="navigation"], [role="banner"], [role="contentinfo"], [role="complementary"]').forEach(landmark => {
           landmarks.push({
             type: landmark.tagName.toLowerCase(),
             selector: generateSelector(landmark),
@@ -478,12 +1118,43 @@ export class PlaywrightDriver implements Driver {
           roles,
           landmarks
         };
-      });
+      };
+
+      const result: UIAnalysis = { forms: [], buttons: [], inputs: [], roles: [], landmarks: [] };
+      const mainFrame = this.page.mainFrame();
+      let framesAnalyzed = 0;
+
+      // Embedded forms (payment widgets, signup embeds) live in their own documents, same- or
+      // cross-origin; anything found there is tagged with the path to its frame
+      for (const frame of this.page.frames()) {
+        let framePath: string[] = [];
+        let frameAnalysis: UIAnalysis;
+
+        try {
+          if (frame !== mainFrame) {
+            framePath = await framePathOf(frame);
+          }
+          frameAnalysis = await frame.evaluate(analyzeDocument);
+        } catch (error) {
+          if (frame === mainFrame) throw error;
+          logger.debug('Skipping frame in UI snapshot', { frameUrl: frame.url(), error });
+          continue;
+        }
+
+        const inFrame = <T extends object>(item: T): T => framePath.length > 0 ? { ...item, framePath } : item;
+        result.forms.push(...frameAnalysis.forms.map(inFrame));
+        result.buttons.push(...frameAnalysis.buttons.map(inFrame));
+        result.inputs.push(...frameAnalysis.inputs.map(inFrame));
+        result.roles.push(...frameAnalysis.roles.map(inFrame));
+        result.landmarks.push(...frameAnalysis.landmarks.map(inFrame));
+        framesAnalyzed++;
+      }
 
       logger.info('UI snapshot completed', {
         formsFound: result.forms.length,
         buttonsFound: result.buttons.length,
-        inputsFound: result.inputs.length
+        inputsFound: result.inputs.length,
+        framesAnalyzed
       });
 
       return result;
@@ -529,12 +1200,16 @@ export class PlaywrightDriver implements Driver {
       }
 
       if (this.context) {
+        this.rememberThrottling();
         await this.context.close();
         this.context = null;
       }
 
       if (this.browser) {
-        await this.browser.close();
+        // Shared browsers outlive the driver and are closed by their provider
+        if (!this.browserProvider) {
+          await this.browser.close();
+        }
         this.browser = null;
       }
 
@@ -543,4 +1218,11 @@ export class PlaywrightDriver implements Driver {
       logger.error('Error closing Playwright driver', { error });
     }
   }
-}
\ No newline at end of file
+}
+
+function describeTabTarget(target: TabTarget): string {
+  return Object.entries(target)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(', ') || 'no criteria';
+}
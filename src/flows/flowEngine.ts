@@ -1,10 +1,15 @@
-import { Page } from 'playwright';
+import { Locator, Page } from 'playwright';
 import { v4 as uuidv4 } from 'uuid';
-import { TestRun, TestStep, TestError, Form, FormField } from '../types/index.js';
+import { TestRun, TestStep, TestError, Form, FormField, ThrottlingProfile } from '../types/index.js';
 import { dataSynthesizer } from '../utils/dataSynthesizer.js';
 import { SelectorError } from '../utils/errors.js';
 import { checkboxResolver } from '../utils/checkboxResolver.js';
+import { getPageBrowserName } from '../utils/browsers.js';
+import { formatViewport } from '../utils/devices.js';
 import { smartFieldResolver } from '../utils/smartFieldResolver.js';
+import { frameScope, locateInFrame } from '../utils/frames.js';
+import { throttlingFor, describeThrottling } from '../utils/throttling.js';
+import { auditAccessibility, toAccessibilityErrors, AccessibilityAuditResult } from '../tools/audit_accessibility.js';
 import logger from '../utils/logger.js';
 
 export class FlowEngine {
@@ -12,6 +17,8 @@ export class FlowEngine {
   private steps: TestStep[] = [];
   private startTime: number = 0;
   private screenshots: string[] = [];
+  private accessibilityAudit: AccessibilityAuditResult | null = null;
+  private throttling: ThrottlingProfile | null = null;
 
   async executeFlow(
     page: Page,
@@ -22,6 +29,8 @@ export class FlowEngine {
     this.errors = [];
     this.steps = [];
     this.screenshots = [];
+    this.accessibilityAudit = null;
+    this.throttling = throttlingFor(page.context()).current();
 
     const runId = uuidv4();
 
@@ -37,7 +46,7 @@ export class FlowEngine {
 
       // Fill form fields
       for (const field of form.fields) {
-        await this.fillField(page, field, overrides);
+        await this.fillField(page, field, overrides, form.framePath);
       }
 
       // Submit form
@@ -49,6 +58,9 @@ export class FlowEngine {
       // Collect any validation errors
       await this.collectValidationErrors(page);
 
+      // Audit accessibility of the resulting page
+      await this.runAccessibilityAudit(page);
+
       // Take final screenshot
       await this.takeScreenshot(page, 'final');
 
@@ -56,18 +68,18 @@ export class FlowEngine {
 
       const testRun: TestRun = {
         runId,
+        startedAt: new Date(this.startTime).toISOString(),
         target: {
           url: page.url(),
-          viewport: '1280x800',
-          userAgent: await page.evaluate(() => navigator.userAgent)
+          viewport: formatViewport(page),
+          userAgent: await page.evaluate(() => navigator.userAgent),
+          browser: getPageBrowserName(page),
+          ...(this.throttling ? { throttling: this.throttling } : {})
         },
         flow: this.steps,
         findings: {
           forms: [form],
-          accessibility: {
-            axeViolations: 0,
-            details: []
-          }
+          accessibility: this.accessibilityFindings()
         },
         errors: this.errors,
         result,
@@ -76,6 +88,9 @@ export class FlowEngine {
           steps: this.steps.length,
           networkErrors: this.errors.filter(e => e.type === 'network').length,
           consoleErrors: this.errors.filter(e => e.type === 'console').length
+        },
+        artifacts: {
+          screenshots: [...this.screenshots]
         }
       };
 
@@ -102,18 +117,18 @@ export class FlowEngine {
       // Return failed test run
       return {
         runId,
+        startedAt: new Date(this.startTime).toISOString(),
         target: {
           url: page.url(),
-          viewport: '1280x800',
-          userAgent: await page.evaluate(() => navigator.userAgent).catch(() => 'unknown')
+          viewport: formatViewport(page),
+          userAgent: await page.evaluate(() => navigator.userAgent).catch(() => 'unknown'),
+          browser: getPageBrowserName(page),
+          ...(this.throttling ? { throttling: this.throttling } : {})
         },
         flow: this.steps,
         findings: {
           forms: [form],
-          accessibility: {
-            axeViolations: 0,
-            details: []
-          }
+          accessibility: this.accessibilityFindings()
         },
         errors: this.errors,
         result: 'failed',
@@ -122,12 +137,15 @@ export class FlowEngine {
           steps: this.steps.length,
           networkErrors: this.errors.filter(e => e.type === 'network').length,
           consoleErrors: this.errors.filter(e => e.type === 'console').length
+        },
+        artifacts: {
+          screenshots: [...this.screenshots]
         }
       };
     }
   }
 
-  private async fillField(page: Page, field: FormField, overrides?: Record<string, any>): Promise<void> {
+  private async fillField(page: Page, field: FormField, overrides?: Record<string, any>, framePath?: string[]): Promise<void> {
     const stepId = uuidv4();
     const stepStart = Date.now();
 
@@ -140,17 +158,17 @@ export class FlowEngine {
       // Special handling for checkboxes with values
       if (field.type === 'checkbox' && (typeof value === 'string' || Array.isArray(value))) {
         // Use CheckboxResolver for checkbox fields with specific values
-        await this.inputValue(page, null, field, value);
+        await this.inputValue(page, null, field, value, framePath);
       } else {
         // Find element with retries and self-healing
-        const element = await this.findElementWithRetry(page, field.selector);
+        const element = await this.findElementWithRetry(page, field.selector, framePath);
 
         if (!element) {
           throw new SelectorError(`Element not found: ${field.selector}`);
         }
 
         // Handle different input types
-        await this.inputValue(page, element, field, value);
+        await this.inputValue(page, field.customElement ? await this.customElementControl(element) : element, field, value, framePath);
       }
 
       // Record successful step
@@ -194,11 +212,18 @@ export class FlowEngine {
     }
   }
 
-  private async findElementWithRetry(page: Page, selector: string, maxRetries: number = 3): Promise<any> {
+  // Form-associated custom elements usually render a native control in their shadow root; locators
+  // pierce open shadow roots, so fill that control when there is one
+  private async customElementControl(element: Locator): Promise<Locator> {
+    const control = element.locator('input, textarea, select, [contenteditable="true"]').first();
+    return await control.count() > 0 ? control : element;
+  }
+
+  private async findElementWithRetry(page: Page, selector: string, framePath?: string[], maxRetries: number = 3): Promise<any> {
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
         // Try original selector
-        const element = await page.locator(selector).first();
+        const element = await locateInFrame(page, selector, framePath).first();
         if (await element.isVisible({ timeout: 2000 })) {
           return element;
         }
@@ -208,10 +233,10 @@ export class FlowEngine {
 
       // Try self-healing selectors
       if (attempt < maxRetries) {
-        const healedSelector = await this.selfHealSelector(page, selector);
+        const healedSelector = await this.selfHealSelector(page, selector, framePath);
         if (healedSelector && healedSelector !== selector) {
           try {
-            const element = await page.locator(healedSelector).first();
+            const element = await locateInFrame(page, healedSelector, framePath).first();
             if (await element.isVisible({ timeout: 2000 })) {
               logger.info('Self-healed selector successful', {
                 original: selector,
@@ -233,7 +258,7 @@ export class FlowEngine {
     return null;
   }
 
-  private async selfHealSelector(page: Page, originalSelector: string): Promise<string | null> {
+  private async selfHealSelector(page: Page, originalSelector: string, framePath?: string[]): Promise<string | null> {
     try {
       // Extract potential identifiers from the original selector
       const selectorParts = originalSelector.match(/[#.]?[\w-]+/g) || [];
@@ -252,7 +277,7 @@ export class FlowEngine {
 
       for (const alternative of alternatives) {
         try {
-          const element = await page.locator(alternative).first();
+          const element = await locateInFrame(page, alternative, framePath).first();
           if (await element.isVisible({ timeout: 1000 })) {
             return alternative;
           }
@@ -450,13 +475,16 @@ export class FlowEngine {
     }
   }
 
-  private async inputValue(page: Page, element: any, field: FormField, value: any): Promise<void> {
+  private async inputValue(page: Page, element: any, field: FormField, value: any, framePath?: string[]): Promise<void> {
+    // Checkbox groups, radios and options are looked up by name and label in the field's own frame
+    const scope = frameScope(page, framePath);
+
     switch (field.type) {
       case 'checkbox':
         // Use SmartFieldResolver for better resolution
         if (Array.isArray(value) || typeof value === 'string') {
           const locators = await smartFieldResolver.resolveField(
-            page,
+            scope,
             'checkbox',
             field.name,
             value
@@ -475,10 +503,10 @@ export class FlowEngine {
               logger.warn('Failed to check checkbox with smart resolver', { error });
               // Fallback to checkbox resolver
               if (typeof value === 'string' || Array.isArray(value)) {
-                const fallbackSelectors = await checkboxResolver.resolveCheckbox(page, field.name, value);
+                const fallbackSelectors = await checkboxResolver.resolveCheckbox(scope, field.name, value);
                 for (const selector of fallbackSelectors) {
                   try {
-                    const checkbox = page.locator(selector).first();
+                    const checkbox = scope.locator(selector).first();
                     if (await checkbox.count() > 0 && !(await checkbox.isChecked())) {
                       await checkbox.check();
                     }
@@ -503,7 +531,7 @@ export class FlowEngine {
         // Use SmartFieldResolver for radio buttons too
         if (typeof value === 'string') {
           const locators = await smartFieldResolver.resolveField(
-            page,
+            scope,
             'radio',
             field.name,
             value
@@ -535,7 +563,7 @@ export class FlowEngine {
         if (typeof value === 'string') {
           // First try to resolve the option value using smart resolver
           const resolvedValue = await smartFieldResolver.resolveSelectOption(
-            page,
+            scope,
             field.name,
             value
           );
@@ -621,7 +649,7 @@ export class FlowEngine {
     try {
       logger.info('Submitting form', { formName: form.name, submitSelector: form.submit.selector });
 
-      const submitElement = await this.findElementWithRetry(page, form.submit.selector);
+      const submitElement = await this.findElementWithRetry(page, form.submit.selector, form.framePath);
 
       if (!submitElement) {
         throw new SelectorError(`Submit button not found: ${form.submit.selector}`);
@@ -660,6 +688,15 @@ export class FlowEngine {
   }
 
   private async waitForResponse(page: Page, timeout: number = 10000): Promise<void> {
+    const stepStart = Date.now();
+
+    // On a throttled connection the interesting state is what the user sees while waiting
+    const pending = this.throttling ? await this.captureLoadingState(page) : [];
+    if (this.throttling) {
+      await this.takeScreenshot(page, 'waiting');
+    }
+
+    let timedOut = false;
     try {
       // Wait for either navigation or network idle
       await Promise.race([
@@ -667,9 +704,46 @@ export class FlowEngine {
         page.waitForLoadState('networkidle', { timeout })
       ]);
     } catch (error) {
+      timedOut = true;
       logger.warn('Response wait timeout', { error });
       // Don't throw - this might be expected for AJAX forms
     }
+
+    if (this.throttling) {
+      this.steps.push({
+        stepId: uuidv4(),
+        action: 'wait',
+        inferredIntent: `Wait for response on ${describeThrottling(this.throttling)}`,
+        input: {
+          throttling: this.throttling.name,
+          loadingState: pending,
+          timedOut
+        },
+        outcome: timedOut ? 'timeout' : 'success',
+        latencyMs: Date.now() - stepStart,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  // Spinners, progress bars, busy regions and disabled submit buttons shown after submitting
+  private async captureLoadingState(page: Page): Promise<string[]> {
+    try {
+      return await page.evaluate(() => {
+        const selectors = '[aria-busy="true"], [role="progressbar"], .spinner, .loading, .loader, button[type="submit"]:disabled';
+        return Array.from(document.querySelectorAll<HTMLElement>(selectors))
+          .filter(element => element.offsetParent !== null)
+          .map(element => {
+            const text = (element.innerText || element.getAttribute('aria-label') || '').replace(/\s+/g, ' ').trim();
+            const kind = element.matches('button') ? 'disabled button' : element.getAttribute('role') || element.className || element.tagName.toLowerCase();
+            return text ? `${kind}: ${text.slice(0, 80)}` : kind;
+          })
+          .slice(0, 10);
+      });
+    } catch (error) {
+      logger.warn('Failed to capture loading state', { error });
+      return [];
+    }
   }
 
   private async collectValidationErrors(page: Page): Promise<void> {
@@ -700,7 +774,8 @@ export class FlowEngine {
                   code: 'E_VALIDATION_RULE',
                   evidence: {
                     text: text.trim(),
-                    ariaLive: await element.getAttribute('aria-live') === 'polite'
+                    ariaLive: await element.getAttribute('aria-live') === 'polite',
+                    ...this.throttlingEvidence()
                   },
                   timestamp: new Date().toISOString()
                 });
@@ -748,7 +823,8 @@ export class FlowEngine {
                 message: text.trim(),
                 code: isError ? 'E_VALIDATION_RULE' : 'E_NOTIFICATION',
                 evidence: {
-                  text: text.trim()
+                  text: text.trim(),
+                  ...this.throttlingEvidence()
                 },
                 timestamp: new Date().toISOString()
               });
@@ -761,6 +837,10 @@ export class FlowEngine {
     }
   }
 
+  private throttlingEvidence(): { throttling?: string } {
+    return this.throttling ? { throttling: this.throttling.name } : {};
+  }
+
   private async takeScreenshot(page: Page, label: string): Promise<void> {
     try {
       const screenshotPath = `/tmp/flow-${label}-${Date.now()}.png`;
@@ -775,8 +855,27 @@ export class FlowEngine {
     }
   }
 
+  private async runAccessibilityAudit(page: Page): Promise<void> {
+    try {
+      this.accessibilityAudit = await auditAccessibility(page);
+      this.errors.push(...toAccessibilityErrors(this.accessibilityAudit));
+      logger.info('Accessibility audit completed', {
+        violations: this.accessibilityAudit.summary.total
+      });
+    } catch (error) {
+      logger.warn('Accessibility audit failed', { error });
+    }
+  }
+
+  private accessibilityFindings(): { axeViolations: number; details: any[] } {
+    return {
+      axeViolations: this.accessibilityAudit?.summary.total ?? 0,
+      details: this.accessibilityAudit?.violations ?? []
+    };
+  }
+
   private determineResult(): 'passed' | 'passed_with_warnings' | 'failed' {
-    const hasErrors = this.errors.some(e => e.type === 'validation' || e.type === 'timeout');
+    const hasErrors = this.errors.some(e => e.type === 'validation' || e.type === 'timeout' || e.type === 'accessibility');
     const hasWarnings = this.errors.some(e => e.type === 'console' || e.type === 'network');
 
     if (hasErrors) {
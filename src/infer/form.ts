@@ -55,6 +55,19 @@ export class FormInferenceEngine {
     ]
   };
 
+  // Form-associated custom elements rarely carry a type attribute, so their tag name says what they are
+  private readonly customElementTypePatterns: Array<[string, RegExp]> = [
+    ['checkbox', /checkbox|switch|toggle/i],
+    ['radio', /radio/i],
+    ['select', /select|dropdown|combo.?box|listbox|picker/i],
+    ['textarea', /textarea|text-?area|multiline/i],
+    ['date', /date/i],
+    ['file', /file|upload/i],
+    ['password', /password/i],
+    ['email', /email/i],
+    ['number', /number|stepper|slider/i]
+  ];
+
   private readonly goalPatterns = {
     signup: [
       /sign.?up/i,
@@ -221,6 +234,13 @@ export class FormInferenceEngine {
       return field.type;
     }
 
+    if (field.customElement) {
+      const match = this.customElementTypePatterns.find(([, pattern]) => pattern.test(field.customElement!));
+      if (match) {
+        return match[0];
+      }
+    }
+
     // Pattern matching for type inference
     for (const [type, patterns] of Object.entries(this.fieldTypePatterns)) {
       if (patterns.some(pattern => pattern.test(text))) {
@@ -1,6 +1,8 @@
 import os from 'os';
 import path from 'path';
 import { RecordingConfig, PlaybackConfig, JourneyStorageConfig } from '../types/journey.js';
+import { parseBrowserName } from '../utils/browsers.js';
+import { parseArtifactMode } from '../utils/runArtifacts.js';
 
 export interface JourneySystemConfig {
   storage: JourneyStorageConfig;
@@ -82,6 +84,7 @@ export class JourneyConfigManager {
         baseDir,
         collectionsDir: 'collections',
         templatesDir: 'templates',
+        authStatesDir: 'auth',
         backupsDir: 'backups',
         indexFile: 'index.json',
         maxBackups: parseInt(process.env.UI_PROBE_MAX_BACKUPS || '10', 10),
@@ -103,7 +106,11 @@ export class JourneyConfigManager {
         screenshotOnFailure: process.env.UI_PROBE_FAILURE_SCREENSHOTS !== 'false',
         continueOnNonCriticalErrors: process.env.UI_PROBE_CONTINUE_ON_ERROR !== 'false',
         validateContext: process.env.UI_PROBE_VALIDATE_CONTEXT !== 'false',
-        timeoutMs: parseInt(process.env.UI_PROBE_TIMEOUT || '30000', 10)
+        timeoutMs: parseInt(process.env.UI_PROBE_TIMEOUT || '30000', 10),
+        browser: parseBrowserName(process.env.UI_PROBE_PLAYBACK_BROWSER),
+        device: process.env.UI_PROBE_PLAYBACK_DEVICE,
+        trace: parseArtifactMode(process.env.UI_PROBE_PLAYBACK_TRACE),
+        video: parseArtifactMode(process.env.UI_PROBE_PLAYBACK_VIDEO)
       },
       ai: {
         openaiApiKey: process.env.OPENAI_API_KEY,
@@ -4,6 +4,7 @@ import {
   Journey,
   JourneyStep,
   JourneyExecutionResult,
+  JourneyStepResult,
   PlaybackConfig,
   ContextValidationResult,
   JourneyEvent
@@ -12,7 +13,19 @@ import { JourneyValidator } from './JourneyValidator.js';
 import { JourneyStorage } from './JourneyStorage.js';
 import { smartFieldResolver } from '../utils/smartFieldResolver.js';
 import { checkboxResolver } from '../utils/checkboxResolver.js';
+import { getPageBrowserName } from '../utils/browsers.js';
+import { RouteMocks } from '../utils/routeMocks.js';
+import { applyAuthState } from '../utils/authState.js';
+import { frameScope, locateInFrame } from '../utils/frames.js';
+import { readPageVitals } from '../utils/performance.js';
+import { dialogHandlerFor } from '../utils/dialogs.js';
+import { throttlingFor, resolveThrottling } from '../utils/throttling.js';
+import { downloadsFor, verifyDownload } from '../utils/downloads.js';
+import { takeComparableScreenshot, describeVisualMismatch } from '../utils/visualDiff.js';
+import { VisualStorage } from '../visual/VisualStorage.js';
+import { VisualCheckResult } from '../types/visual.js';
 import { SelectorError } from '../utils/errors.js';
+import { BrowserName, ThrottlingProfile } from '../types/index.js';
 import logger from '../utils/logger.js';
 import { EventEmitter } from 'events';
 
@@ -24,8 +37,21 @@ export class JourneyPlayer extends EventEmitter {
   private validator: JourneyValidator;
   private storage: JourneyStorage;
   private abortController: AbortController | null = null;
-
-  constructor(config: PlaybackConfig, validator: JourneyValidator, storage: JourneyStorage) {
+  private routeMocks: RouteMocks | null = null;
+  private dialogWindow: { since: Date; seen: number } | null = null; // Dialogs of the last non-dialog step
+  private activePage: Page | null = null; // Tab the steps run in; switch_tab steps move it
+  private initialThrottling: ThrottlingProfile | null = null; // Restored after throttle steps changed it
+  private downloadCursor = 0; // Next download of the context a download step takes
+
+  /**
+   * @param visualStorage Baselines for steps with visualCheck; without it visual checks are skipped
+   */
+  constructor(
+    config: PlaybackConfig,
+    validator: JourneyValidator,
+    storage: JourneyStorage,
+    private visualStorage?: VisualStorage
+  ) {
     super();
     this.config = config;
     this.validator = validator;
@@ -55,6 +81,7 @@ export class JourneyPlayer extends EventEmitter {
 
     this.currentExecution = {
       journeyId: journey.id,
+      journeyName: journey.name,
       executionId,
       startTime: startTime.toISOString(),
       success: false,
@@ -63,12 +90,21 @@ export class JourneyPlayer extends EventEmitter {
       errors: [],
       warnings: [],
       screenshots: [],
-      finalUrl: page.url()
+      stepResults: [],
+      startUrl: page.url(),
+      finalUrl: page.url(),
+      browser: getPageBrowserName(page)
     };
 
     this.isPlaying = true;
     this.isPaused = false;
     this.abortController = new AbortController();
+    this.activePage = page;
+    this.initialThrottling = throttlingFor(page.context()).current();
+    this.downloadCursor = downloadsFor(page.context()).count();
+    if (this.initialThrottling) {
+      this.currentExecution.throttling = this.initialThrottling;
+    }
 
     logger.info('Starting journey playback', {
       journeyId: journey.id,
@@ -94,8 +130,8 @@ export class JourneyPlayer extends EventEmitter {
       // Execute journey steps
       await this.executeSteps(page, journey, playbackConfig);
 
-      // Mark as successful
-      this.currentExecution.success = true;
+      // Visual mismatches don't stop the replay, so every changed step gets a diff, but they fail it
+      this.currentExecution.success = !this.currentExecution.visualChecks?.some(check => check.status === 'mismatch');
 
       logger.info('Journey playback completed successfully', {
         journeyId: journey.id,
@@ -123,7 +159,7 @@ export class JourneyPlayer extends EventEmitter {
       // Take failure screenshot if enabled
       if (playbackConfig.screenshotOnFailure) {
         try {
-          const screenshotPath = await this.takeScreenshot(page, 'failure');
+          const screenshotPath = await this.takeScreenshot(this.currentTab(page), 'failure');
           if (screenshotPath) {
             this.currentExecution.screenshots!.push(screenshotPath);
           }
@@ -138,15 +174,56 @@ export class JourneyPlayer extends EventEmitter {
     } finally {
       // Finalize execution result
       const endTime = new Date();
+
+      // Steps never reached are reported as skipped so exports cover the whole journey
+      const executedStepIds = new Set(this.currentExecution.stepResults!.map(stepResult => stepResult.stepId));
+      for (const step of journey.steps) {
+        if (!executedStepIds.has(step.id)) {
+          this.currentExecution.stepResults!.push({
+            stepId: step.id,
+            action: step.action,
+            description: step.description,
+            selector: step.selector,
+            status: 'skipped',
+            startTime: endTime.toISOString(),
+            durationMs: 0,
+            retries: 0
+          });
+        }
+      }
+
+      // Recorded answers the replay didn't use must not leak into later tool calls
+      const dialogs = dialogHandlerFor(page.context());
+      dialogs.clearQueue();
+      this.dialogWindow = null;
+      const answered = dialogs.list(startTime);
+      if (answered.length > 0) {
+        this.currentExecution.dialogs = answered;
+      }
+
+      // Conditions from throttle steps only apply to this replay
+      const throttling = throttlingFor(page.context());
+      if (throttling.current() !== this.initialThrottling) {
+        await throttling.apply(this.initialThrottling).catch(error => logger.warn('Failed to restore throttling', { error }));
+      }
+
+      // Mocks from mock_route steps only apply to this replay
+      if (this.routeMocks) {
+        const remaining = await this.routeMocks.clear();
+        this.currentExecution.mocks = [...(this.currentExecution.mocks || []), ...remaining];
+        this.routeMocks = null;
+      }
+
       const result: JourneyExecutionResult = {
         ...this.currentExecution,
         endTime: endTime.toISOString(),
         durationMs: endTime.getTime() - startTime.getTime(),
-        finalUrl: page.url()
+        finalUrl: this.currentTab(page).url()
       } as JourneyExecutionResult;
+      this.activePage = null;
 
       // Update journey usage statistics
-      await this.updateJourneyStats(journey, result.success);
+      await this.updateJourneyStats(journey, result.success, result.browser);
 
       this.emit('playback_completed', {
         type: 'playback_completed',
@@ -226,6 +303,16 @@ export class JourneyPlayer extends EventEmitter {
     } as any);
   }
 
+  private async restoreAuthState(page: Page, name: string): Promise<void> {
+    const authState = await this.storage.loadAuthState(name);
+    if (!authState) {
+      throw new Error(`Auth state not found: ${name}. Save it first with save_auth_state`);
+    }
+
+    await applyAuthState(page, authState.storageState, this.config.timeoutMs);
+    logger.info('Auth state restored for journey', { name, savedAt: authState.savedAt });
+  }
+
   private async validateAndPrepareContext(page: Page, journey: Journey): Promise<void> {
     logger.info('Validating journey context', {
       journeyId: journey.id,
@@ -233,6 +320,11 @@ export class JourneyPlayer extends EventEmitter {
       expectedPattern: journey.startingContext.urlPattern
     });
 
+    // Restore the saved session first so login-dependent checks can pass
+    if (journey.startingContext.authState) {
+      await this.restoreAuthState(page, journey.startingContext.authState);
+    }
+
     const validation = await this.validator.validateContext(page, journey.startingContext);
 
     if (!validation.isValid) {
@@ -276,6 +368,8 @@ export class JourneyPlayer extends EventEmitter {
   }
 
   private async executeSteps(page: Page, journey: Journey, config: PlaybackConfig): Promise<void> {
+    const dialogs = dialogHandlerFor(page.context());
+
     for (let i = 0; i < journey.steps.length; i++) {
       // Check for abort signal
       if (this.abortController?.signal.aborted) {
@@ -289,6 +383,7 @@ export class JourneyPlayer extends EventEmitter {
 
       const step = journey.steps[i];
       const stepNumber = i + 1;
+      const stepPage = this.currentTab(page);
 
       logger.debug('Executing journey step', {
         stepId: step.id,
@@ -306,10 +401,49 @@ export class JourneyPlayer extends EventEmitter {
         timestamp: new Date().toISOString()
       } as any);
 
+      const stepStart = Date.now();
+      const stepResult: JourneyStepResult = {
+        stepId: step.id,
+        action: step.action,
+        description: step.description,
+        selector: step.selector,
+        status: 'passed',
+        startTime: new Date(stepStart).toISOString(),
+        durationMs: 0,
+        retries: 0
+      };
+      this.currentExecution!.stepResults!.push(stepResult);
+
+      // Recorded dialog steps follow the step that opened the dialogs, so their answers are
+      // queued before it runs
+      let restoreDialogPolicy: (() => void) | undefined;
+      if (step.action !== 'dialog') {
+        this.dialogWindow = { since: new Date(stepStart), seen: 0 };
+        dialogs.queue(this.followingDialogSteps(journey, i).map(dialogStep => dialogStep.dialog || { action: 'accept' }));
+        if (step.dialog) {
+          restoreDialogPolicy = dialogs.override(step.dialog);
+        }
+      }
+
       try {
-        await this.executeStep(page, step, config);
+        stepResult.retries = await this.executeStep(stepPage, step, config);
+
+        const failedDialog = dialogs.list(new Date(stepStart)).find(record => record.response === 'failed');
+        if (failedDialog) {
+          throw new Error(`Unexpected ${failedDialog.type} dialog: "${failedDialog.message}"`);
+        }
+
+        stepResult.durationMs = Date.now() - stepStart;
         this.currentExecution!.completedSteps = stepNumber;
 
+        if (config.collectPerformance) {
+          stepResult.vitals = await readPageVitals(this.currentTab(page)) ?? undefined;
+        }
+
+        if (this.visualStorage && config.visualVariant && (config.visualChecks || step.visualCheck)) {
+          stepResult.visual = await this.checkStepVisual(this.currentTab(page), journey, step, config.visualVariant);
+        }
+
         this.emit('step_completed', {
           type: 'step_completed',
           journeyId: journey.id,
@@ -327,6 +461,10 @@ export class JourneyPlayer extends EventEmitter {
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
 
+        stepResult.status = 'failed';
+        stepResult.durationMs = Date.now() - stepStart;
+        stepResult.error = errorMessage;
+
         this.currentExecution!.errors!.push({
           stepId: step.id,
           error: errorMessage,
@@ -359,6 +497,8 @@ export class JourneyPlayer extends EventEmitter {
 
         // Add warning and continue
         this.currentExecution!.warnings!.push(`Step ${stepNumber} failed but continuing: ${errorMessage}`);
+      } finally {
+        restoreDialogPolicy?.();
       }
 
       // Apply speed control (delay between steps)
@@ -369,14 +509,39 @@ export class JourneyPlayer extends EventEmitter {
     }
   }
 
-  private async executeStep(page: Page, step: JourneyStep, config: PlaybackConfig): Promise<void> {
+  private async checkStepVisual(page: Page, journey: Journey, step: JourneyStep, variant: string): Promise<VisualCheckResult> {
+    const { image, scale } = await takeComparableScreenshot(page, step.visualCheck);
+    const result = await this.visualStorage!.check({
+      name: `${journey.id}/${step.id}`,
+      variant,
+      image,
+      scale,
+      options: step.visualCheck,
+      source: { executionId: this.currentExecution!.executionId, journeyId: journey.id, stepId: step.id, url: page.url() }
+    });
+
+    this.currentExecution!.visualChecks = [...(this.currentExecution!.visualChecks || []), result];
+    if (result.status === 'mismatch') {
+      this.currentExecution!.errors!.push({
+        stepId: step.id,
+        error: describeVisualMismatch(result),
+        context: { code: 'E_VISUAL_MISMATCH', diffId: result.diffId, diffPath: result.diffPath }
+      });
+    } else if (result.status === 'missing_baseline') {
+      this.currentExecution!.warnings!.push(`No visual baseline for step ${step.id}; approve diff ${result.diffId} to create it`);
+    }
+
+    return result;
+  }
+
+  private async executeStep(page: Page, step: JourneyStep, config: PlaybackConfig): Promise<number> {
     let retryCount = 0;
     const maxRetries = config.maxRetries;
 
     while (retryCount <= maxRetries) {
       try {
         await this.performStepAction(page, step);
-        return; // Success, exit retry loop
+        return retryCount; // Success, exit retry loop
       } catch (error) {
         retryCount++;
 
@@ -393,7 +558,7 @@ export class JourneyPlayer extends EventEmitter {
         if (retryCount === maxRetries && step.selector) {
           const fallbackSuccess = await this.tryFallbackStrategies(page, step);
           if (fallbackSuccess) {
-            return;
+            return retryCount;
           }
         }
 
@@ -401,6 +566,8 @@ export class JourneyPlayer extends EventEmitter {
         await new Promise(resolve => setTimeout(resolve, 1000 * retryCount));
       }
     }
+
+    return retryCount;
   }
 
   private async performStepAction(page: Page, step: JourneyStep): Promise<void> {
@@ -416,14 +583,14 @@ export class JourneyPlayer extends EventEmitter {
 
       case 'click':
         if (step.selector) {
-          const element = await this.findElementWithRetry(page, step.selector);
+          const element = await this.findElementWithRetry(page, step.selector, step.framePath);
           await element.click({ timeout: this.config.timeoutMs });
         }
         break;
 
       case 'fill':
         if (step.selector && step.value !== undefined) {
-          const element = await this.findElementWithRetry(page, step.selector);
+          const element = await this.findElementWithRetry(page, step.selector, step.framePath);
           await element.clear();
           await element.fill(String(step.value));
         }
@@ -452,15 +619,124 @@ export class JourneyPlayer extends EventEmitter {
         await this.handleDragDropStep(page, step);
         break;
 
+      case 'mock_route':
+        await (await this.getRouteMocks(page)).add(step.metadata?.mock);
+        break;
+
+      case 'clear_mocks': {
+        const cleared = await (await this.getRouteMocks(page)).clear(step.metadata?.mockId);
+        this.currentExecution!.mocks = [...(this.currentExecution!.mocks || []), ...cleared];
+        break;
+      }
+
+      case 'dialog':
+        await this.expectDialog(page, step);
+        break;
+
+      case 'switch_tab':
+        this.activePage = await this.waitForTab(page, step);
+        break;
+
+      case 'throttle':
+        await throttlingFor(page.context()).apply(resolveThrottling(step.metadata?.throttling));
+        break;
+
+      case 'download':
+        await this.expectDownload(page, step);
+        break;
+
       default:
         throw new Error(`Unsupported action: ${step.action}`);
     }
   }
 
-  private async findElementWithRetry(page: Page, selector: string, maxRetries = 3): Promise<any> {
+  private followingDialogSteps(journey: Journey, index: number): JourneyStep[] {
+    const following: JourneyStep[] = [];
+    for (let i = index + 1; i < journey.steps.length && journey.steps[i].action === 'dialog'; i++) {
+      following.push(journey.steps[i]);
+    }
+    return following;
+  }
+
+  // The dialog was answered while the step before ran; wait briefly for ones opened by timers
+  private async expectDialog(page: Page, step: JourneyStep): Promise<void> {
+    const window = this.dialogWindow;
+    if (!window) {
+      throw new Error('Dialog step has no preceding step to open the dialog');
+    }
+
+    const dialogs = dialogHandlerFor(page.context());
+    const deadline = Date.now() + 5000;
+    while (dialogs.list(window.since).length <= window.seen) {
+      if (Date.now() > deadline) {
+        throw new Error(`Expected ${step.metadata?.type || 'a'} dialog${step.metadata?.message ? ` "${step.metadata.message}"` : ''}, but none opened`);
+      }
+      await page.waitForTimeout(100);
+    }
+    window.seen++;
+  }
+
+  // The download started while the step before ran; steps take the context's downloads in order
+  private async expectDownload(page: Page, step: JourneyStep): Promise<void> {
+    const download = await downloadsFor(page.context()).waitFor(this.downloadCursor, this.config.timeoutMs)
+      .catch(() => {
+        throw new Error(`Expected download${step.value ? ` of ${step.value}` : ''}, but none started`);
+      });
+    this.downloadCursor++;
+    this.currentExecution!.downloads = [...(this.currentExecution!.downloads || []), download];
+
+    const failures = await verifyDownload(download, step.metadata?.download || {});
+    if (failures.length > 0) {
+      throw new Error(`Download ${download.filename} did not match: ${failures.join('; ')}`);
+    }
+  }
+
+  // A tab that closed itself (e.g. a sign-in popup) hands back to the newest remaining tab
+  private currentTab(page: Page): Page {
+    const active = this.activePage || page;
+    if (!active.isClosed()) {
+      return active;
+    }
+
+    const remaining = page.context().pages();
+    this.activePage = remaining[remaining.length - 1] || page;
+    return this.activePage;
+  }
+
+  // Popups open while the step before runs and may not exist yet when the switch_tab step starts
+  private async waitForTab(page: Page, step: JourneyStep): Promise<Page> {
+    const index = Number(step.value);
+    if (!Number.isInteger(index) || index < 0) {
+      throw new Error('switch_tab step requires a tab index in value');
+    }
+
+    const context = page.context();
+    const deadline = Date.now() + this.config.timeoutMs;
+    while (!context.pages()[index]) {
+      if (Date.now() > deadline) {
+        throw new Error(`Tab ${index} did not open (${context.pages().length} open)`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    const tab = context.pages()[index];
+    await tab.waitForLoadState('domcontentloaded', { timeout: this.config.timeoutMs });
+    await tab.bringToFront();
+    return tab;
+  }
+
+  private async getRouteMocks(page: Page): Promise<RouteMocks> {
+    if (!this.routeMocks) {
+      this.routeMocks = new RouteMocks();
+      await this.routeMocks.attach(page.context());
+    }
+    return this.routeMocks;
+  }
+
+  private async findElementWithRetry(page: Page, selector: string, framePath?: string[], maxRetries = 3): Promise<any> {
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
-        const element = page.locator(selector).first();
+        const element = locateInFrame(page, selector, framePath).first();
         await element.waitFor({ state: 'visible', timeout: 5000 });
         return element;
       } catch (error) {
@@ -475,27 +751,31 @@ export class JourneyPlayer extends EventEmitter {
   private async handleSelectStep(page: Page, step: JourneyStep): Promise<void> {
     if (!step.selector || step.value === undefined) return;
 
-    const element = await this.findElementWithRetry(page, step.selector);
+    const element = await this.findElementWithRetry(page, step.selector, step.framePath);
     const tagName = await element.evaluate((el: HTMLElement) => el.tagName.toLowerCase());
 
     if (tagName === 'select') {
       // Native select element
       await element.selectOption(String(step.value));
     } else {
-      // Custom dropdown - use smart field resolver
+      // Custom dropdown - use smart field resolver, in the frame the dropdown lives in
       const fieldName = step.metadata?.name || 'dropdown';
-      const resolvedValue = await smartFieldResolver.resolveSelectOption(page, fieldName, String(step.value));
+      const resolvedValue = await smartFieldResolver.resolveSelectOption(
+        frameScope(page, step.framePath),
+        fieldName,
+        String(step.value)
+      );
 
       if (resolvedValue) {
         await element.selectOption(resolvedValue);
       } else {
         // Fallback to custom dropdown handling
-        await this.handleCustomDropdown(page, element, String(step.value));
+        await this.handleCustomDropdown(page, element, String(step.value), step.framePath);
       }
     }
   }
 
-  private async handleCustomDropdown(page: Page, element: any, value: string): Promise<void> {
+  private async handleCustomDropdown(page: Page, element: any, value: string, framePath?: string[]): Promise<void> {
     // Click to open dropdown
     await element.click();
     await page.waitForTimeout(500);
@@ -509,9 +789,11 @@ export class JourneyPlayer extends EventEmitter {
       `[data-value="${value}"]`
     ];
 
+    // Options render in the dropdown's own frame; typing below goes to whichever frame has focus
+    const scope = frameScope(page, framePath);
     for (const selector of optionSelectors) {
       try {
-        const option = page.locator(selector).first();
+        const option = scope.locator(selector).first();
         if (await option.isVisible({ timeout: 1000 })) {
           await option.click();
           return;
@@ -532,7 +814,7 @@ export class JourneyPlayer extends EventEmitter {
       throw new Error('Assert step requires a selector');
     }
 
-    const element = page.locator(step.selector).first();
+    const element = locateInFrame(page, step.selector, step.framePath).first();
     const exists = await element.count() > 0;
 
     if (step.metadata?.exists === false && exists) {
@@ -561,7 +843,7 @@ export class JourneyPlayer extends EventEmitter {
   private async handleUploadStep(page: Page, step: JourneyStep): Promise<void> {
     if (!step.selector || !step.value) return;
 
-    const element = await this.findElementWithRetry(page, step.selector);
+    const element = await this.findElementWithRetry(page, step.selector, step.framePath);
     const filePaths = Array.isArray(step.value) ? step.value : [step.value];
 
     await element.setInputFiles(filePaths);
@@ -570,8 +852,8 @@ export class JourneyPlayer extends EventEmitter {
   private async handleDragDropStep(page: Page, step: JourneyStep): Promise<void> {
     if (!step.selector || !step.metadata?.target) return;
 
-    const source = await this.findElementWithRetry(page, step.selector);
-    const target = await this.findElementWithRetry(page, step.metadata.target);
+    const source = await this.findElementWithRetry(page, step.selector, step.framePath);
+    const target = await this.findElementWithRetry(page, step.metadata.target, step.framePath);
 
     await source.dragTo(target);
   }
@@ -586,7 +868,7 @@ export class JourneyPlayer extends EventEmitter {
 
     for (const altSelector of alternatives) {
       try {
-        const element = page.locator(altSelector).first();
+        const element = locateInFrame(page, altSelector, step.framePath).first();
         if (await element.count() > 0 && await element.isVisible({ timeout: 1000 })) {
           logger.info('Fallback selector successful', {
             stepId: step.id,
@@ -660,7 +942,7 @@ export class JourneyPlayer extends EventEmitter {
     }
   }
 
-  private async updateJourneyStats(journey: Journey, success: boolean): Promise<void> {
+  private async updateJourneyStats(journey: Journey, success: boolean, browser?: BrowserName): Promise<void> {
     try {
       // Update usage count
       journey.metadata.usageCount += 1;
@@ -680,6 +962,11 @@ export class JourneyPlayer extends EventEmitter {
         journey.metadata.avgDurationMs = Math.round(newAvg);
       }
 
+      // Record engines the journey is known to replay cleanly in
+      if (success && browser && !journey.metadata.browserCompatibility.includes(browser)) {
+        journey.metadata.browserCompatibility = [...journey.metadata.browserCompatibility, browser];
+      }
+
       // Save updated journey
       await this.storage.saveJourney(journey);
 
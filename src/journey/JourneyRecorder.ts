@@ -1,8 +1,14 @@
-import { Page } from 'playwright';
+import { BrowserContext, Download, Frame, Page } from 'playwright';
 import { v4 as uuidv4 } from 'uuid';
-import { Journey, JourneyStep, StartingContext, RecordingConfig, JourneyEvent } from '../types/journey.js';
+import { Journey, JourneyStep, StartingContext, RecordingConfig, JourneyEvent, JourneyMetadata } from '../types/journey.js';
 import { JourneyStorage } from './JourneyStorage.js';
 import { JourneyAnalyzer } from './JourneyAnalyzer.js';
+import { getPageBrowserName } from '../utils/browsers.js';
+import { framePathOf } from '../utils/frames.js';
+import { dialogHandlerFor, describeDialog } from '../utils/dialogs.js';
+import { describeThrottling } from '../utils/throttling.js';
+import { mimeTypeOf } from '../utils/downloads.js';
+import { DialogRecord, ThrottlingProfile } from '../types/index.js';
 import logger from '../utils/logger.js';
 import { EventEmitter } from 'events';
 
@@ -17,6 +23,9 @@ export class JourneyRecorder extends EventEmitter {
   private analyzer: JourneyAnalyzer;
   private lastActionTime = 0;
   private screenshotCounter = 0;
+  private stopDialogCapture: (() => void) | null = null;
+  private popupListener: { context: BrowserContext; listener: (page: Page) => void } | null = null;
+  private instrumentedPages = new WeakSet<Page>(); // Bindings and init scripts can't be added twice
 
   constructor(config: RecordingConfig, storage: JourneyStorage, analyzer: JourneyAnalyzer) {
     super();
@@ -25,7 +34,11 @@ export class JourneyRecorder extends EventEmitter {
     this.analyzer = analyzer;
   }
 
-  async startRecording(page: Page, initialContext?: Partial<StartingContext>): Promise<string> {
+  async startRecording(
+    page: Page,
+    initialContext?: Partial<StartingContext>,
+    initialMetadata?: Partial<JourneyMetadata>
+  ): Promise<string> {
     if (this.isRecording) {
       throw new Error('Recording is already in progress');
     }
@@ -63,13 +76,28 @@ export class JourneyRecorder extends EventEmitter {
         usageCount: 0,
         difficulty: 'medium',
         environment: ['desktop'],
-        browserCompatibility: ['chromium']
+        browserCompatibility: [getPageBrowserName(page) || 'chromium'],
+        ...initialMetadata
       }
     };
 
     // Set up event listeners for page interactions
     await this.setupEventListeners(page);
 
+    // The driver answers dialogs for every tab of the context; recording what it answered lets the
+    // replay answer the same way. One subscription per recording, whichever tabs it follows
+    const context = page.context();
+    this.stopDialogCapture = dialogHandlerFor(context).onDialog(record => {
+      this.handleDialog(record).catch(error => logger.warn('Failed to record dialog', { error }));
+    });
+
+    // Popups and target=_blank links are followed like a user moving to the new tab
+    const listener = (popup: Page) => {
+      this.handlePopup(popup).catch(error => logger.warn('Failed to follow popup', { error }));
+    };
+    context.on('page', listener);
+    this.popupListener = { context, listener };
+
     // Take initial screenshot
     if (this.config.captureScreenshots) {
       await this.captureScreenshot('initial');
@@ -100,9 +128,13 @@ export class JourneyRecorder extends EventEmitter {
       await this.captureScreenshot('final');
     }
 
-    // Remove event listeners
-    if (this.page) {
-      await this.cleanupEventListeners(this.page);
+    // Page bindings stay registered (they can't be exposed twice) and go quiet once recording
+    // stops, so a later recording on the same tab reuses them
+    this.stopDialogCapture?.();
+    this.stopDialogCapture = null;
+    if (this.popupListener) {
+      this.popupListener.context.off('page', this.popupListener.listener);
+      this.popupListener = null;
     }
 
     // Complete the journey object
@@ -197,9 +229,13 @@ export class JourneyRecorder extends EventEmitter {
   }
 
   private async setupEventListeners(page: Page): Promise<void> {
-    // Listen for navigation events
+    if (this.instrumentedPages.has(page)) return;
+    this.instrumentedPages.add(page);
+
+    // Listen for navigation events; tabs in the background (e.g. an opener redirecting after a
+    // popup sign-in) aren't navigated by the user
     page.on('framenavigated', async (frame) => {
-      if (frame === page.mainFrame()) {
+      if (frame === page.mainFrame() && page === this.page) {
         await this.recordStep({
           action: 'navigate',
           description: `Navigated to ${frame.url()}`,
@@ -208,27 +244,47 @@ export class JourneyRecorder extends EventEmitter {
       }
     });
 
+    // A popup closing itself returns the user to the newest remaining tab
+    page.on('close', () => {
+      if (page !== this.page) return;
+      const remaining = page.context().pages().filter(other => other !== page).pop();
+      if (remaining) {
+        this.followTab(remaining).catch(error => logger.warn('Failed to follow tab after close', { error }));
+      }
+    });
+
+    // Clicks on export buttons start downloads; the replay expects a file of the same type
+    page.on('download', download => {
+      this.handleDownload(download).catch(error => logger.warn('Failed to record download', { error }));
+    });
+
+    // Bindings reach every frame; the calling frame tells us whether the element sits in an iframe
+
     // Set up click event listener
-    await page.exposeFunction('__journeyRecorderClick', async (data: any) => {
-      await this.handleClickEvent(data);
+    await page.exposeBinding('__journeyRecorderClick', async ({ frame }, data: any) => {
+      await this.handleClickEvent(await this.withFramePath(frame, data));
     });
 
     // Set up input event listener
-    await page.exposeFunction('__journeyRecorderInput', async (data: any) => {
-      await this.handleInputEvent(data);
+    await page.exposeBinding('__journeyRecorderInput', async ({ frame }, data: any) => {
+      await this.handleInputEvent(await this.withFramePath(frame, data));
     });
 
     // Set up form submission listener
-    await page.exposeFunction('__journeyRecorderSubmit', async (data: any) => {
-      await this.handleSubmitEvent(data);
+    await page.exposeBinding('__journeyRecorderSubmit', async ({ frame }, data: any) => {
+      await this.handleSubmitEvent(await this.withFramePath(frame, data));
     });
 
     // Inject event listeners into the page
     await page.addInitScript(() => {
+      // Events from inside shadow trees are retargeted to their host; the composed path
+      // still starts at the element that was actually used
+      const originOf = (event: Event) => (event.composedPath()[0] || event.target) as HTMLElement;
+
       // Click events
       document.addEventListener('click', (event) => {
-        const target = event.target as HTMLElement;
-        if (!target) return;
+        const target = originOf(event);
+        if (!target || !target.tagName) return;
 
         const selector = generateSelector(target);
         const data = {
@@ -248,8 +304,8 @@ export class JourneyRecorder extends EventEmitter {
 
       // Input events
       document.addEventListener('input', (event) => {
-        const target = event.target as HTMLInputElement;
-        if (!target) return;
+        const target = originOf(event) as HTMLInputElement;
+        if (!target || !target.tagName) return;
 
         const selector = generateSelector(target);
         const data = {
@@ -267,7 +323,7 @@ export class JourneyRecorder extends EventEmitter {
       });
 
       // Form submission events
-      document.addEventListener('submit', (event) => {
+      const onSubmit = (event: Event) => {
         const form = event.target as HTMLFormElement;
         if (!form) return;
 
@@ -281,10 +337,28 @@ export class JourneyRecorder extends EventEmitter {
         };
 
         (window as any).__journeyRecorderSubmit?.(data);
-      });
-
-      // Utility function to generate selectors
+      };
+      document.addEventListener('submit', onSubmit);
+
+      // Submit events don't cross shadow boundaries, so listen on each shadow root as it is attached
+      const attachShadow = Element.prototype.attachShadow;
+      Element.prototype.attachShadow = function (init: ShadowRootInit) {
+        const root = attachShadow.call(this, init);
+        root.addEventListener('submit', onSubmit);
+        return root;
+      };
+
+      // Utility function to generate selectors; elements in shadow trees are chained from
+      // their host with Playwright's >> so replay can pierce the shadow root
       function generateSelector(element: HTMLElement): string {
+        const root = element.getRootNode();
+        const local = generateLocalSelector(element);
+        return root instanceof ShadowRoot
+          ? `${generateSelector(root.host as HTMLElement)} >> ${local}`
+          : local;
+      }
+
+      function generateLocalSelector(element: HTMLElement): string {
         // Try ID first
         if (element.id) {
           return `#${element.id}`;
@@ -330,16 +404,14 @@ export class JourneyRecorder extends EventEmitter {
     });
   }
 
-  private async cleanupEventListeners(page: Page): Promise<void> {
+  private async withFramePath(frame: Frame, data: any): Promise<any> {
+    if (!this.page || frame === this.page.mainFrame()) return data;
+
     try {
-      await page.evaluate(() => {
-        // Clean up exposed functions
-        delete (window as any).__journeyRecorderClick;
-        delete (window as any).__journeyRecorderInput;
-        delete (window as any).__journeyRecorderSubmit;
-      });
+      return { ...data, framePath: await framePathOf(frame) };
     } catch (error) {
-      logger.warn('Failed to cleanup event listeners', { error });
+      logger.warn('Failed to resolve frame path for recorded event', { frameUrl: frame.url(), error });
+      return data;
     }
   }
 
@@ -351,6 +423,7 @@ export class JourneyRecorder extends EventEmitter {
     await this.recordStep({
       action: 'click',
       selector: data.selector,
+      framePath: data.framePath,
       description,
       metadata: {
         tagName: data.tagName,
@@ -370,6 +443,7 @@ export class JourneyRecorder extends EventEmitter {
     await this.recordStep({
       action: 'fill',
       selector: data.selector,
+      framePath: data.framePath,
       value: data.value,
       description,
       metadata: {
@@ -384,9 +458,15 @@ export class JourneyRecorder extends EventEmitter {
   private async handleSubmitEvent(data: any): Promise<void> {
     const description = `Submit form: ${data.action || 'current page'}`;
 
+    // A selector list can't follow a >> chain, so forms in shadow trees chain the submit lookup instead
+    const selector = data.selector.includes(' >> ')
+      ? `${data.selector} >> [type="submit"]`
+      : `${data.selector} [type="submit"], ${data.selector} button[type="submit"]`;
+
     await this.recordStep({
       action: 'click',
-      selector: `${data.selector} [type="submit"], ${data.selector} button[type="submit"]`,
+      selector,
+      framePath: data.framePath,
       description,
       metadata: {
         formAction: data.action,
@@ -395,6 +475,66 @@ export class JourneyRecorder extends EventEmitter {
     });
   }
 
+  private async handlePopup(popup: Page): Promise<void> {
+    await popup.waitForLoadState('domcontentloaded').catch(() => undefined);
+    await this.followTab(popup);
+  }
+
+  /**
+   * Record a change of network and CPU conditions so replays run under the same ones
+   */
+  async recordThrottling(throttling: ThrottlingProfile | null): Promise<void> {
+    await this.recordStep({
+      action: 'throttle',
+      description: throttling ? `Throttle to ${describeThrottling(throttling)}` : 'Stop throttling',
+      metadata: { throttling }
+    });
+  }
+
+  /**
+   * Record a move to another tab of the recorded context and capture what happens there
+   */
+  async followTab(page: Page): Promise<void> {
+    if (!this.isRecording || page === this.page || page.isClosed()) return;
+
+    await this.setupEventListeners(page);
+    this.page = page;
+
+    const index = page.context().pages().indexOf(page);
+    await this.recordStep({
+      action: 'switch_tab',
+      value: index,
+      description: `Switch to tab ${index}: ${page.url()}`
+    });
+  }
+
+  private async handleDownload(download: Download): Promise<void> {
+    const filename = download.suggestedFilename();
+
+    await this.recordStep({
+      action: 'download',
+      value: filename,
+      description: `Download ${filename}`,
+      metadata: {
+        download: { mimeType: mimeTypeOf(filename) }
+      }
+    });
+  }
+
+  private async handleDialog(record: DialogRecord): Promise<void> {
+    const action = record.response === 'accepted' ? 'accept' : record.response === 'dismissed' ? 'dismiss' : 'fail';
+
+    await this.recordStep({
+      action: 'dialog',
+      description: describeDialog(record),
+      dialog: { action, ...(record.promptText !== undefined ? { promptText: record.promptText } : {}) },
+      metadata: {
+        type: record.type,
+        message: record.message
+      }
+    });
+  }
+
   private async recordStep(stepData: Partial<JourneyStep>): Promise<void> {
     if (!this.isRecording || !this.page) return;
 
@@ -402,11 +542,13 @@ export class JourneyRecorder extends EventEmitter {
       id: `step_${this.steps.length + 1}_${uuidv4().slice(0, 8)}`,
       action: stepData.action || 'click',
       selector: stepData.selector,
+      ...(stepData.framePath?.length ? { framePath: stepData.framePath } : {}),
       value: stepData.value,
       description: stepData.description || 'User action',
       timestamp: new Date().toISOString(),
       url: this.page.url(),
       waitAfter: stepData.waitAfter || this.config.minimumActionDelay,
+      ...(stepData.dialog ? { dialog: stepData.dialog } : {}),
       metadata: stepData.metadata
     };
 
@@ -10,7 +10,9 @@ import {
   JourneyStorageConfig,
   JourneySearchCriteria,
   JourneySearchResult,
-  JourneySchema
+  JourneySchema,
+  AuthState,
+  AuthStateSchema
 } from '../types/journey.js';
 import logger from '../utils/logger.js';
 
@@ -25,6 +27,7 @@ export class JourneyStorage {
       baseDir: path.join(os.homedir(), '.ui-probe', 'journeys'),
       collectionsDir: 'collections',
       templatesDir: 'templates',
+      authStatesDir: 'auth',
       backupsDir: 'backups',
       indexFile: 'index.json',
       maxBackups: 10,
@@ -408,6 +411,69 @@ export class JourneyStorage {
     }
   }
 
+  // Auth states management
+  async saveAuthState(name: string, storageState: AuthState['storageState'], url?: string): Promise<AuthState> {
+    try {
+      const authState = AuthStateSchema.parse({
+        name,
+        savedAt: new Date().toISOString(),
+        url,
+        storageState
+      });
+
+      const filePath = this.authStatePath(name);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+      // Cookies are credentials, so keep the file readable by the current user only
+      await fs.writeFile(filePath, JSON.stringify(authState, null, 2), { mode: 0o600 });
+
+      logger.info('Auth state saved', {
+        name,
+        cookies: storageState.cookies.length,
+        origins: storageState.origins.length
+      });
+      return authState;
+    } catch (error) {
+      logger.error('Failed to save auth state', { name, error });
+      throw error;
+    }
+  }
+
+  async loadAuthState(name: string): Promise<AuthState | null> {
+    try {
+      const content = await fs.readFile(this.authStatePath(name), 'utf8');
+      return AuthStateSchema.parse(JSON.parse(content));
+    } catch {
+      return null;
+    }
+  }
+
+  async listAuthStates(): Promise<AuthState[]> {
+    try {
+      const files = await fs.readdir(path.join(this.config.baseDir, this.config.authStatesDir));
+      const authStates: AuthState[] = [];
+
+      for (const file of files) {
+        if (file.endsWith('.json')) {
+          const authState = await this.loadAuthState(path.basename(file, '.json'));
+          if (authState) authStates.push(authState);
+        }
+      }
+
+      return authStates;
+    } catch {
+      return [];
+    }
+  }
+
+  // Names become file names, so keep them to a single safe path segment
+  private authStatePath(name: string): string {
+    if (!/^[\w-][\w.-]*$/.test(name)) {
+      throw new Error(`Invalid auth state name: ${name}`);
+    }
+    return path.join(this.config.baseDir, this.config.authStatesDir, `${name}.json`);
+  }
+
   // Backup management
   private async createBackup(journey: Journey): Promise<void> {
     try {
@@ -463,6 +529,7 @@ export class JourneyStorage {
       this.config.baseDir,
       path.join(this.config.baseDir, this.config.collectionsDir),
       path.join(this.config.baseDir, this.config.templatesDir),
+      path.join(this.config.baseDir, this.config.authStatesDir),
       path.join(this.config.baseDir, this.config.backupsDir)
     ];
 
@@ -4,8 +4,13 @@ import {
   ContextValidationResult,
   Journey
 } from '../types/journey.js';
+import { RouteMockSchema } from '../types/index.js';
 import { JourneyStorage } from './JourneyStorage.js';
 import logger from '../utils/logger.js';
+import { checkStorageValue, parseStorageCheckKey, readStorageValue } from '../utils/storage.js';
+import { resolveThrottling } from '../utils/throttling.js';
+import { parseClock, parseEmulation } from '../utils/emulation.js';
+import { parseDownloadExpectation } from '../utils/downloads.js';
 
 export class JourneyValidator {
   private storage: JourneyStorage;
@@ -54,6 +59,13 @@ export class JourneyValidator {
         result.stateIssues.push(...stateIssues);
       }
 
+      // Pins only hold when the session applied them before replay
+      const emulationIssues = await this.checkEmulation(page, context);
+      if (emulationIssues.length > 0) {
+        result.isValid = false;
+        result.stateIssues.push(...emulationIssues);
+      }
+
       // Validate content length if specified
       if (context.minContentLength) {
         const contentLength = await this.getPageContentLength(page);
@@ -191,6 +203,16 @@ export class JourneyValidator {
       // Check custom state conditions
       if (context.pageState.customChecks) {
         for (const [key, expectedValue] of Object.entries(context.pageState.customChecks)) {
+          // Keys like 'localStorage:cart' assert on app state directly instead of the DOM
+          const storageKey = parseStorageCheckKey(key);
+          if (storageKey) {
+            const failure = checkStorageValue(await readStorageValue(page, storageKey.area, storageKey.name), expectedValue);
+            if (failure) {
+              issues.push(`Storage check "${key}" failed: ${failure}`);
+            }
+            continue;
+          }
+
           const actualValue = await this.evaluateCustomCheck(page, key);
           if (actualValue !== expectedValue) {
             issues.push(`Custom check "${key}" failed: expected ${expectedValue}, got ${actualValue}`);
@@ -206,6 +228,25 @@ export class JourneyValidator {
     return issues;
   }
 
+  private async checkEmulation(page: Page, context: StartingContext): Promise<string[]> {
+    if (!context.locale && !context.timezoneId) {
+      return [];
+    }
+
+    const actual = await page.evaluate(() => ({
+      locale: navigator.language,
+      timezoneId: Intl.DateTimeFormat().resolvedOptions().timeZone
+    }));
+    const issues: string[] = [];
+    if (context.locale && actual.locale.toLowerCase() !== context.locale.toLowerCase()) {
+      issues.push(`Locale mismatch: expected ${context.locale}, browser reports ${actual.locale}`);
+    }
+    if (context.timezoneId && actual.timezoneId !== context.timezoneId) {
+      issues.push(`Time zone mismatch: expected ${context.timezoneId}, browser reports ${actual.timezoneId}`);
+    }
+    return issues;
+  }
+
   private async detectLoginState(page: Page): Promise<boolean> {
     try {
       // Common patterns for detecting logged-in state
@@ -548,6 +589,43 @@ export class JourneyValidator {
           result.issues.push(`Step ${stepNumber}: Navigate action without URL`);
         }
 
+        if (step.action === 'mock_route' && !RouteMockSchema.safeParse(step.metadata?.mock).success) {
+          result.isValid = false;
+          result.issues.push(`Step ${stepNumber}: mock_route action without a valid metadata.mock`);
+        }
+
+        if (step.action === 'dialog' && index === 0) {
+          result.isValid = false;
+          result.issues.push(`Step ${stepNumber}: dialog step without a preceding step to open the dialog`);
+        }
+
+        if (step.action === 'switch_tab' && !(Number.isInteger(step.value) && step.value >= 0)) {
+          result.isValid = false;
+          result.issues.push(`Step ${stepNumber}: switch_tab action without a tab index in value`);
+        }
+
+        if (step.action === 'throttle') {
+          try {
+            resolveThrottling(step.metadata?.throttling);
+          } catch (error) {
+            result.isValid = false;
+            result.issues.push(`Step ${stepNumber}: throttle action with invalid metadata.throttling: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+
+        if (step.action === 'download') {
+          if (index === 0) {
+            result.isValid = false;
+            result.issues.push(`Step ${stepNumber}: download step without a preceding step to start the download`);
+          }
+          try {
+            parseDownloadExpectation(step.metadata?.download || {});
+          } catch (error) {
+            result.isValid = false;
+            result.issues.push(`Step ${stepNumber}: download action with invalid metadata.download: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+
         // Check for potential selector issues
         if (step.selector) {
           if (step.selector.includes('nth-child') && !step.selector.includes('[')) {
@@ -566,6 +644,15 @@ export class JourneyValidator {
         result.issues.push('Starting context missing URL pattern');
       }
 
+      const { locale, timezoneId, geolocation, clock } = journey.startingContext;
+      try {
+        parseEmulation({ locale, timezoneId, geolocation });
+        if (clock) parseClock(clock);
+      } catch (error) {
+        result.isValid = false;
+        result.issues.push(`Starting context has invalid pins: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
       if (journey.startingContext.requiredElements.length === 0) {
         result.warnings.push('No required elements specified - context validation may be weak');
       }
@@ -17,6 +17,7 @@ export type {
   RecordingConfig,
   PlaybackConfig,
   JourneyExecutionResult,
+  JourneyStepResult,
   JourneySearchCriteria,
   JourneySearchResult,
   JourneyAnalysis,
@@ -336,7 +336,11 @@ export class AdaptiveExecutor {
         if (action.target) {
           const element = await frame.$(action.target);
           if (element) {
-            await element.click();
+            if (action.action === 'fill' && action.value !== undefined) {
+              await element.fill(String(action.value));
+            } else {
+              await element.click();
+            }
             return true;
           }
         }
@@ -235,6 +235,18 @@ export function createMonitoringIntegration(monitoring: MonitoringServer): Monit
     },
 
     setupPerformanceHooks(mcpServer: UITestingServer) {
+      // Export the Core Web Vitals of tested pages as they are collected
+      const originalRecordPerformance = (mcpServer as any).recordPerformance;
+      if (typeof originalRecordPerformance === 'function') {
+        originalHandlers.set('recordPerformance', originalRecordPerformance);
+        (mcpServer as any).recordPerformance = function(this: any, pages: any[], violations: any[]) {
+          originalRecordPerformance.call(this, pages, violations);
+
+          pages.forEach(vitals => monitoring.getMetricsService().recordPageVitals(vitals));
+          violations.forEach(violation => monitoring.getMetricsService().recordBudgetViolation(violation));
+        };
+      }
+
       // Monitor memory usage
       setInterval(() => {
         const memUsage = process.memoryUsage();
@@ -1,5 +1,6 @@
 import { register, Counter, Histogram, Gauge, collectDefaultMetrics } from 'prom-client';
 import { StorageService } from './storage.js';
+import { PageVitals, BudgetViolation } from '../types/index.js';
 
 export interface MetricsSummary {
   testsTotal: number;
@@ -30,6 +31,16 @@ export class MetricsService {
   private activeConnections!: Gauge<string>;
   private errorRate!: Counter<string>;
   private alertsTotal!: Counter<string>;
+  private pageLcp!: Histogram<string>;
+  private pageCls!: Histogram<string>;
+  private pageInp!: Histogram<string>;
+  private pageFid!: Histogram<string>;
+  private pageTtfb!: Histogram<string>;
+  private pageDomContentLoaded!: Histogram<string>;
+  private pageLoad!: Histogram<string>;
+  private pageResources!: Histogram<string>;
+  private pageTransferBytes!: Histogram<string>;
+  private budgetViolationsTotal!: Counter<string>;
 
   // Internal metrics tracking
   private metrics: {
@@ -139,6 +150,78 @@ export class MetricsService {
       help: 'Total number of alerts generated',
       labelNames: ['severity', 'type']
     });
+
+    // Web vitals of tested pages
+    const timingBuckets = [0.1, 0.25, 0.5, 1, 1.8, 2.5, 4, 6, 10];
+
+    this.pageLcp = new Histogram({
+      name: 'mcp_page_lcp_seconds',
+      help: 'Largest Contentful Paint of tested pages in seconds',
+      labelNames: ['page'],
+      buckets: timingBuckets
+    });
+
+    this.pageCls = new Histogram({
+      name: 'mcp_page_cls',
+      help: 'Cumulative Layout Shift of tested pages',
+      labelNames: ['page'],
+      buckets: [0.01, 0.05, 0.1, 0.15, 0.25, 0.5, 1]
+    });
+
+    this.pageInp = new Histogram({
+      name: 'mcp_page_inp_seconds',
+      help: 'Interaction to Next Paint of tested pages in seconds',
+      labelNames: ['page'],
+      buckets: [0.05, 0.1, 0.2, 0.3, 0.5, 1, 2]
+    });
+
+    this.pageFid = new Histogram({
+      name: 'mcp_page_fid_seconds',
+      help: 'First Input Delay of tested pages in seconds',
+      labelNames: ['page'],
+      buckets: [0.01, 0.05, 0.1, 0.3, 0.5, 1]
+    });
+
+    this.pageTtfb = new Histogram({
+      name: 'mcp_page_ttfb_seconds',
+      help: 'Time to first byte of tested pages in seconds',
+      labelNames: ['page'],
+      buckets: [0.05, 0.1, 0.2, 0.5, 0.8, 1.8, 3]
+    });
+
+    this.pageDomContentLoaded = new Histogram({
+      name: 'mcp_page_dom_content_loaded_seconds',
+      help: 'DOMContentLoaded time of tested pages in seconds',
+      labelNames: ['page'],
+      buckets: timingBuckets
+    });
+
+    this.pageLoad = new Histogram({
+      name: 'mcp_page_load_seconds',
+      help: 'Load event time of tested pages in seconds',
+      labelNames: ['page'],
+      buckets: timingBuckets
+    });
+
+    this.pageResources = new Histogram({
+      name: 'mcp_page_resources',
+      help: 'Number of resources loaded by tested pages',
+      labelNames: ['page'],
+      buckets: [10, 25, 50, 100, 200, 400]
+    });
+
+    this.pageTransferBytes = new Histogram({
+      name: 'mcp_page_transfer_bytes',
+      help: 'Bytes transferred by tested pages',
+      labelNames: ['page'],
+      buckets: [100e3, 500e3, 1e6, 2e6, 5e6, 10e6]
+    });
+
+    this.budgetViolationsTotal = new Counter({
+      name: 'mcp_performance_budget_violations_total',
+      help: 'Total number of performance budget violations',
+      labelNames: ['page', 'metric']
+    });
   }
 
   private setupDefaultMetrics(): void {
@@ -300,6 +383,33 @@ export class MetricsService {
     }
   }
 
+  public recordPageVitals(vitals: PageVitals): void {
+    const labels = { page: this.pageLabel(vitals.url) };
+    const seconds = (ms?: number) => ms === undefined ? undefined : ms / 1000;
+
+    const observations: Array<[Histogram<string>, number | undefined]> = [
+      [this.pageLcp, seconds(vitals.lcpMs)],
+      [this.pageCls, vitals.cls],
+      [this.pageInp, seconds(vitals.inpMs)],
+      [this.pageFid, seconds(vitals.fidMs)],
+      [this.pageTtfb, seconds(vitals.ttfbMs)],
+      [this.pageDomContentLoaded, seconds(vitals.domContentLoadedMs)],
+      [this.pageLoad, seconds(vitals.loadMs)],
+      [this.pageResources, vitals.resources.count],
+      [this.pageTransferBytes, vitals.resources.transferBytes]
+    ];
+
+    for (const [histogram, value] of observations) {
+      if (value !== undefined) {
+        histogram.observe(labels, value);
+      }
+    }
+  }
+
+  public recordBudgetViolation(violation: BudgetViolation): void {
+    this.budgetViolationsTotal.inc({ page: this.pageLabel(violation.url), metric: violation.metric });
+  }
+
   public recordError(type: string, component: string): void {
     this.errorRate.inc({ type, component });
   }
@@ -316,6 +426,16 @@ export class MetricsService {
       .replace(/\/[a-f0-9]{24}/g, '/:objectid');
   }
 
+  // Host and path without query strings or IDs, to keep label cardinality bounded
+  private pageLabel(url: string): string {
+    try {
+      const parsed = new URL(url);
+      return parsed.host + this.sanitizePath(parsed.pathname);
+    } catch {
+      return 'unknown';
+    }
+  }
+
   // Public methods for retrieving metrics
   public getMetrics(): any {
     return {
@@ -0,0 +1,341 @@
+/**
+ * Allure results directory writer (allure-results format consumed by the Allure CLI)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { TestRun, TestStep } from '../types/index.js';
+import { JourneyExecutionResult, JourneyStepResult } from '../types/journey.js';
+import logger from '../utils/logger.js';
+
+export type AllureStatus = 'passed' | 'failed' | 'broken' | 'skipped';
+
+export interface AllureLabel {
+  name: string;
+  value: string;
+}
+
+export interface AllureAttachment {
+  name: string;
+  source: string; // File name inside the results directory
+  type: string;
+}
+
+export interface AllureStatusDetails {
+  message?: string;
+  trace?: string;
+}
+
+export interface AllureStep {
+  name: string;
+  status: AllureStatus;
+  statusDetails?: AllureStatusDetails;
+  stage: 'finished';
+  start: number;
+  stop: number;
+  steps: AllureStep[];
+  attachments: AllureAttachment[];
+  parameters: Array<{ name: string; value: string }>;
+}
+
+export interface AllureResult extends AllureStep {
+  uuid: string;
+  historyId: string;
+  testCaseId: string;
+  fullName: string;
+  labels: AllureLabel[];
+  links: Array<{ name: string; url: string; type: string }>;
+}
+
+export interface AllureContainer {
+  uuid: string;
+  name: string;
+  children: string[];
+  befores: AllureStep[];
+  afters: AllureStep[];
+  start: number;
+  stop: number;
+}
+
+export interface AllureExportResult {
+  outputDir: string;
+  files: string[];
+}
+
+const FRAMEWORK_LABEL: AllureLabel = { name: 'framework', value: 'mcp-ui-probe' };
+
+export async function writeAllureRunResults(testRun: TestRun, outputDir: string): Promise<AllureExportResult> {
+  await fs.mkdir(outputDir, { recursive: true });
+  const files: string[] = [];
+
+  const formName = testRun.findings.forms[0]?.name;
+  const start = Date.parse(testRun.startedAt || '') || stepStart(testRun.flow[0]) || Date.now();
+  const steps = await Promise.all(testRun.flow.map(step => toAllureStep(step, outputDir, files)));
+
+  const attachments: AllureAttachment[] = [];
+  for (const screenshot of testRun.artifacts?.screenshots || []) {
+    const attachment = await writeFileAttachment(screenshot, screenshotLabel(screenshot), outputDir, files);
+    if (attachment) attachments.push(attachment);
+  }
+
+  attachments.push(...await writeRecordingAttachments(testRun.artifacts || {}, outputDir, files));
+
+  const consoleErrors = testRun.errors.filter(error => error.type === 'console').map(error => error.message);
+  if (consoleErrors.length > 0) {
+    attachments.push(await writeTextAttachment('Console errors', consoleErrors.join('\n'), outputDir, files));
+  }
+
+  const failure = testRun.errors[0];
+  const result: AllureResult = {
+    uuid: uuidv4(),
+    historyId: md5(`${testRun.target.url}|${formName || ''}`),
+    testCaseId: md5(`${testRun.target.url}|${formName || ''}`),
+    name: formName ? `Flow: ${formName}` : 'UI Test Flow',
+    fullName: `${testRun.target.url}${formName ? `#${formName}` : ''}`,
+    status: testRun.result === 'failed' ? 'failed' : 'passed',
+    statusDetails: failure ? {
+      message: failure.message,
+      trace: testRun.errors.map(error => `[${error.code}] ${error.message}`).join('\n')
+    } : undefined,
+    stage: 'finished',
+    start,
+    stop: start + testRun.metrics.totalTimeMs,
+    steps,
+    attachments,
+    parameters: [
+      { name: 'viewport', value: testRun.target.viewport },
+      { name: 'userAgent', value: testRun.target.userAgent }
+    ],
+    labels: [
+      { name: 'suite', value: formName || hostOf(testRun.target.url) },
+      { name: 'parentSuite', value: hostOf(testRun.target.url) },
+      { name: 'feature', value: 'run_flow' },
+      { name: 'targetUrl', value: testRun.target.url },
+      ...(formName ? [{ name: 'formName', value: formName }] : []),
+      FRAMEWORK_LABEL
+    ],
+    links: [{ name: 'Target', url: testRun.target.url, type: 'link' }]
+  };
+
+  files.push(await writeJson(outputDir, `${result.uuid}-result.json`, result));
+
+  logger.info('Allure results written', { runId: testRun.runId, outputDir, files: files.length });
+  return { outputDir, files };
+}
+
+export async function writeAllureJourneyResults(execution: JourneyExecutionResult, outputDir: string): Promise<AllureExportResult> {
+  await fs.mkdir(outputDir, { recursive: true });
+  const files: string[] = [];
+
+  const start = Date.parse(execution.startTime);
+  const stop = Date.parse(execution.endTime) || start + execution.durationMs;
+  const targetUrl = execution.startUrl || execution.finalUrl;
+  const name = execution.journeyName || execution.journeyId;
+
+  const attachments: AllureAttachment[] = [];
+  for (const screenshot of execution.screenshots) {
+    const attachment = await writeFileAttachment(screenshot, path.basename(screenshot), outputDir, files);
+    if (attachment) attachments.push(attachment);
+  }
+
+  attachments.push(...await writeRecordingAttachments(execution, outputDir, files));
+
+  if (execution.warnings.length > 0) {
+    attachments.push(await writeTextAttachment('Warnings', execution.warnings.join('\n'), outputDir, files));
+  }
+
+  const failure = execution.errors[0];
+  const result: AllureResult = {
+    uuid: uuidv4(),
+    historyId: md5(`journey|${execution.journeyId}`),
+    testCaseId: md5(`journey|${execution.journeyId}`),
+    name,
+    fullName: `journey:${execution.journeyId}`,
+    status: execution.success ? 'passed' : 'failed',
+    statusDetails: failure ? {
+      message: failure.error,
+      trace: execution.errors.map(error => `[${error.stepId}] ${error.error}`).join('\n')
+    } : undefined,
+    stage: 'finished',
+    start,
+    stop,
+    steps: (execution.stepResults || []).map(toAllureJourneyStep),
+    attachments,
+    parameters: [{ name: 'executionId', value: execution.executionId }],
+    labels: [
+      { name: 'suite', value: name },
+      { name: 'parentSuite', value: hostOf(targetUrl) },
+      { name: 'feature', value: 'replay_journey' },
+      { name: 'journeyId', value: execution.journeyId },
+      { name: 'targetUrl', value: targetUrl },
+      FRAMEWORK_LABEL
+    ],
+    links: [{ name: 'Target', url: targetUrl, type: 'link' }]
+  };
+
+  // Context validation runs before the first step, so it is reported as a setup fixture
+  const firstStepStart = execution.stepResults?.[0] ? Date.parse(execution.stepResults[0].startTime) : start;
+  const container: AllureContainer = {
+    uuid: uuidv4(),
+    name,
+    children: [result.uuid],
+    befores: execution.contextValidation ? [{
+      name: 'Validate starting context',
+      status: execution.contextValidation.passed ? 'passed' : 'failed',
+      statusDetails: execution.contextValidation.passed ? undefined : {
+        message: 'Starting context validation failed',
+        trace: JSON.stringify(execution.contextValidation.details, null, 2)
+      },
+      stage: 'finished',
+      start,
+      stop: Math.max(start, firstStepStart),
+      steps: [],
+      attachments: [],
+      parameters: []
+    }] : [],
+    afters: [],
+    start,
+    stop
+  };
+
+  files.push(await writeJson(outputDir, `${result.uuid}-result.json`, result));
+  files.push(await writeJson(outputDir, `${container.uuid}-container.json`, container));
+
+  logger.info('Allure results written', { executionId: execution.executionId, outputDir, files: files.length });
+  return { outputDir, files };
+}
+
+async function toAllureStep(step: TestStep, outputDir: string, files: string[]): Promise<AllureStep> {
+  const attachments: AllureAttachment[] = [];
+
+  if (step.artifacts?.screenshot) {
+    const attachment = await writeFileAttachment(step.artifacts.screenshot, 'Screenshot', outputDir, files);
+    if (attachment) attachments.push(attachment);
+  }
+
+  if (step.artifacts?.console && step.artifacts.console.length > 0) {
+    attachments.push(await writeTextAttachment('Console', step.artifacts.console.join('\n'), outputDir, files));
+  }
+
+  const stop = Date.parse(step.timestamp);
+  const status = STEP_STATUS[step.outcome];
+
+  return {
+    name: step.inferredIntent,
+    status,
+    statusDetails: status === 'passed' ? undefined : { message: `${step.action} ${step.selector || ''} ended with ${step.outcome}`.trim() },
+    stage: 'finished',
+    start: stop - step.latencyMs,
+    stop,
+    steps: [],
+    attachments,
+    parameters: [
+      { name: 'action', value: step.action },
+      ...(step.selector ? [{ name: 'selector', value: step.selector }] : [])
+    ]
+  };
+}
+
+function toAllureJourneyStep(step: JourneyStepResult): AllureStep {
+  const start = Date.parse(step.startTime);
+
+  return {
+    name: step.description,
+    status: step.status,
+    statusDetails: step.error ? { message: step.error } : undefined,
+    stage: 'finished',
+    start,
+    stop: start + step.durationMs,
+    steps: [],
+    attachments: [],
+    parameters: [
+      { name: 'action', value: step.action },
+      ...(step.selector ? [{ name: 'selector', value: step.selector }] : []),
+      ...(step.retries > 0 ? [{ name: 'retries', value: String(step.retries) }] : [])
+    ]
+  };
+}
+
+const STEP_STATUS: Record<TestStep['outcome'], AllureStatus> = {
+  success: 'passed',
+  fail: 'failed',
+  timeout: 'broken'
+};
+
+const ATTACHMENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.webm': 'video/webm',
+  // Rendered with the embedded trace viewer by Allure 2.29+
+  '.zip': 'application/vnd.allure.playwright-trace'
+};
+
+async function writeRecordingAttachments(
+  recordings: { trace?: string; video?: string },
+  outputDir: string,
+  files: string[]
+): Promise<AllureAttachment[]> {
+  const attachments: AllureAttachment[] = [];
+  if (recordings.trace) {
+    const attachment = await writeFileAttachment(recordings.trace, 'Playwright trace', outputDir, files);
+    if (attachment) attachments.push(attachment);
+  }
+  if (recordings.video) {
+    const attachment = await writeFileAttachment(recordings.video, 'Video', outputDir, files);
+    if (attachment) attachments.push(attachment);
+  }
+  return attachments;
+}
+
+async function writeFileAttachment(
+  sourcePath: string,
+  name: string,
+  outputDir: string,
+  files: string[]
+): Promise<AllureAttachment | null> {
+  const extension = path.extname(sourcePath) || '.png';
+  const source = `${uuidv4()}-attachment${extension}`;
+
+  try {
+    await fs.copyFile(sourcePath, path.join(outputDir, source));
+    files.push(source);
+    return { name, source, type: ATTACHMENT_TYPES[extension] || 'application/octet-stream' };
+  } catch (error) {
+    logger.warn('Failed to copy Allure attachment', { sourcePath, error });
+    return null;
+  }
+}
+
+async function writeTextAttachment(name: string, content: string, outputDir: string, files: string[]): Promise<AllureAttachment> {
+  const source = `${uuidv4()}-attachment.txt`;
+  await fs.writeFile(path.join(outputDir, source), content, 'utf8');
+  files.push(source);
+  return { name, source, type: 'text/plain' };
+}
+
+async function writeJson(outputDir: string, fileName: string, data: unknown): Promise<string> {
+  await fs.writeFile(path.join(outputDir, fileName), JSON.stringify(data, null, 2), 'utf8');
+  return fileName;
+}
+
+function stepStart(step?: TestStep): number | undefined {
+  return step ? Date.parse(step.timestamp) - step.latencyMs : undefined;
+}
+
+function screenshotLabel(file: string): string {
+  const match = path.basename(file).match(/^flow-(.+)-\d+\.png$/);
+  return match ? `Screenshot: ${match[1]}` : path.basename(file);
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+function md5(value: string): string {
+  return createHash('md5').update(value).digest('hex');
+}
@@ -0,0 +1,155 @@
+/**
+ * Common Test Report Format (CTRF) JSON for vendor-neutral test dashboards
+ */
+
+import { TestRun, TestStep } from '../types/index.js';
+import { JourneyExecutionResult } from '../types/journey.js';
+
+type CtrfStatus = 'passed' | 'failed' | 'skipped' | 'pending' | 'other';
+
+interface CtrfTest {
+  name: string;
+  status: CtrfStatus;
+  duration: number;
+  start?: number;
+  stop?: number;
+  suite?: string;
+  message?: string;
+  trace?: string;
+  retries?: number;
+  screenshot?: string;
+  extra?: Record<string, any>;
+}
+
+export interface CtrfReport {
+  reportFormat: 'CTRF';
+  specVersion: string;
+  results: {
+    tool: { name: string };
+    summary: {
+      tests: number;
+      passed: number;
+      failed: number;
+      pending: number;
+      skipped: number;
+      other: number;
+      start: number;
+      stop: number;
+    };
+    tests: CtrfTest[];
+    environment: Record<string, string>;
+    extra?: Record<string, any>;
+  };
+}
+
+export function buildCtrfRunReport(testRun: TestRun): CtrfReport {
+  const suite = testRun.findings.forms[0]?.name || testRun.target.url;
+  const tests = testRun.flow.map(step => toCtrfTest(step, suite));
+  if (testRun.result === 'failed' && !tests.some(test => test.status === 'failed')) {
+    tests.push({
+      name: 'Run result',
+      status: 'failed',
+      duration: 0,
+      suite,
+      message: testRun.errors[0]?.message || 'Test run failed'
+    });
+  }
+
+  const start = Date.parse(testRun.startedAt || '') || (tests[0]?.start ?? Date.now());
+
+  return buildReport(tests, start, start + testRun.metrics.totalTimeMs, {
+    url: testRun.target.url,
+    viewport: testRun.target.viewport,
+    userAgent: testRun.target.userAgent
+  }, {
+    runId: testRun.runId,
+    result: testRun.result,
+    errors: testRun.errors.map(error => ({
+      type: error.type,
+      code: error.code,
+      message: error.message,
+      ...(error.selector ? { selector: error.selector } : {})
+    }))
+  });
+}
+
+export function buildCtrfJourneyReport(execution: JourneyExecutionResult): CtrfReport {
+  const suite = execution.journeyName || execution.journeyId;
+  const tests: CtrfTest[] = (execution.stepResults || []).map(step => {
+    const start = Date.parse(step.startTime);
+    return {
+      name: step.description,
+      status: step.status,
+      duration: step.durationMs,
+      start,
+      stop: start + step.durationMs,
+      suite,
+      retries: step.retries,
+      ...(step.error ? { message: step.error } : {}),
+      extra: { stepId: step.stepId, action: step.action, ...(step.selector ? { selector: step.selector } : {}) }
+    };
+  });
+
+  const start = Date.parse(execution.startTime);
+  return buildReport(tests, start, start + execution.durationMs, {
+    url: execution.startUrl || execution.finalUrl
+  }, {
+    executionId: execution.executionId,
+    journeyId: execution.journeyId,
+    success: execution.success,
+    finalUrl: execution.finalUrl,
+    warnings: execution.warnings
+  });
+}
+
+export function renderCtrfReport(source: TestRun | JourneyExecutionResult): string {
+  const report = 'runId' in source ? buildCtrfRunReport(source) : buildCtrfJourneyReport(source);
+  return JSON.stringify(report, null, 2);
+}
+
+function toCtrfTest(step: TestStep, suite: string): CtrfTest {
+  const stop = Date.parse(step.timestamp);
+
+  return {
+    name: step.inferredIntent,
+    status: step.outcome === 'success' ? 'passed' : 'failed',
+    duration: step.latencyMs,
+    start: stop - step.latencyMs,
+    stop,
+    suite,
+    ...(step.outcome !== 'success' ? { message: `${step.action} ${step.selector || ''} ended with ${step.outcome}`.trim() } : {}),
+    ...(step.artifacts?.screenshot ? { screenshot: step.artifacts.screenshot } : {}),
+    extra: { stepId: step.stepId, action: step.action, ...(step.selector ? { selector: step.selector } : {}) }
+  };
+}
+
+function buildReport(
+  tests: CtrfTest[],
+  start: number,
+  stop: number,
+  environment: Record<string, string>,
+  extra: Record<string, any>
+): CtrfReport {
+  const count = (status: CtrfStatus) => tests.filter(test => test.status === status).length;
+
+  return {
+    reportFormat: 'CTRF',
+    specVersion: '0.0.0',
+    results: {
+      tool: { name: 'mcp-ui-probe' },
+      summary: {
+        tests: tests.length,
+        passed: count('passed'),
+        failed: count('failed'),
+        pending: count('pending'),
+        skipped: count('skipped'),
+        other: count('other'),
+        start,
+        stop
+      },
+      tests,
+      environment: { appName: 'mcp-ui-probe', ...environment },
+      extra
+    }
+  };
+}
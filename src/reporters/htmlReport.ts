@@ -0,0 +1,277 @@
+/**
+ * Self-contained HTML report for a single test run
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { TestRun, TestError, Form, MockedRoute, PageVitals } from '../types/index.js';
+import logger from '../utils/logger.js';
+
+export interface HtmlReportOptions {
+  title?: string;
+  embedScreenshots?: boolean; // Inline screenshots as base64 (default: true)
+}
+
+interface EmbeddedScreenshot {
+  label: string;
+  path: string;
+  dataUri?: string;
+}
+
+export async function renderHtmlReport(testRun: TestRun, options: HtmlReportOptions = {}): Promise<string> {
+  const title = options.title || `UI Probe Report - ${testRun.target.url}`;
+  const screenshots = await collectScreenshots(testRun, options.embedScreenshots !== false);
+  const maxLatency = Math.max(1, ...testRun.flow.map(step => step.latencyMs));
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; margin: 0; padding: 24px; color: #1f2933; background: #f5f7fa; }
+  h1 { font-size: 22px; margin: 0 0 16px; }
+  h2 { font-size: 17px; margin: 32px 0 12px; }
+  section { background: #fff; border-radius: 6px; padding: 16px 20px; box-shadow: 0 1px 2px rgba(0,0,0,0.08); }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e4e7eb; vertical-align: top; }
+  th { background: #f0f4f8; font-weight: 600; }
+  code, pre { font-family: SFMono-Regular, Menlo, Consolas, monospace; font-size: 12px; }
+  pre { background: #f0f4f8; padding: 12px; border-radius: 4px; overflow-x: auto; white-space: pre-wrap; }
+  .badge { display: inline-block; padding: 2px 8px; border-radius: 10px; font-size: 12px; font-weight: 600; color: #fff; }
+  .passed, .success { background: #2f9e44; }
+  .passed_with_warnings { background: #e67700; }
+  .failed, .fail, .timeout { background: #c92a2a; }
+  .summary { display: grid; grid-template-columns: repeat(auto-fill, minmax(180px, 1fr)); gap: 12px; }
+  .summary div { font-size: 13px; }
+  .summary strong { display: block; font-size: 11px; text-transform: uppercase; color: #616e7c; }
+  .bar { height: 8px; background: #4c6ef5; border-radius: 4px; min-width: 2px; }
+  .screenshots { display: grid; grid-template-columns: repeat(auto-fill, minmax(320px, 1fr)); gap: 16px; }
+  .screenshots figure { margin: 0; }
+  .screenshots img { width: 100%; border: 1px solid #e4e7eb; border-radius: 4px; }
+  .screenshots figcaption { font-size: 12px; color: #616e7c; margin-top: 4px; }
+  .empty { color: #9aa5b1; font-style: italic; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+
+<section>
+  <div class="summary">
+    <div><strong>Result</strong><span class="badge ${escapeHtml(testRun.result)}">${escapeHtml(testRun.result)}</span></div>
+    <div><strong>Run ID</strong><code>${escapeHtml(testRun.runId)}</code></div>
+    <div><strong>URL</strong>${escapeHtml(testRun.target.url)}</div>
+    <div><strong>Started</strong>${escapeHtml(testRun.startedAt || testRun.flow[0]?.timestamp || 'unknown')}</div>
+    <div><strong>Duration</strong>${formatMs(testRun.metrics.totalTimeMs)}</div>
+    <div><strong>Steps</strong>${testRun.metrics.steps}</div>
+    <div><strong>Errors</strong>${testRun.errors.length}</div>
+    <div><strong>Console / Network</strong>${testRun.metrics.consoleErrors} / ${testRun.metrics.networkErrors}</div>
+    <div><strong>Browser</strong>${escapeHtml(testRun.target.browser || 'chromium')}</div>
+    <div><strong>Viewport</strong>${escapeHtml(testRun.target.viewport)}</div>
+    <div><strong>User Agent</strong>${escapeHtml(testRun.target.userAgent)}</div>
+    ${testRun.artifacts?.trace ? `<div><strong>Trace</strong><code>npx playwright show-trace ${escapeHtml(testRun.artifacts.trace)}</code></div>` : ''}
+    ${testRun.artifacts?.video ? `<div><strong>Video</strong><a href="file://${escapeHtml(testRun.artifacts.video)}">${escapeHtml(path.basename(testRun.artifacts.video))}</a></div>` : ''}
+    ${testRun.artifacts?.har ? `<div><strong>HAR</strong><code>${escapeHtml(testRun.artifacts.har)}</code></div>` : ''}
+    ${testRun.findings.visual ? `<div><strong>Visual (${escapeHtml(testRun.findings.visual.name)})</strong><span class="badge ${testRun.findings.visual.status === 'mismatch' ? 'failed' : testRun.findings.visual.status === 'match' ? 'passed' : 'passed_with_warnings'}">${escapeHtml(testRun.findings.visual.status)}</span>${testRun.findings.visual.diffPath ? ` <code>${escapeHtml(testRun.findings.visual.diffPath)}</code>` : ''}</div>` : ''}
+  </div>
+</section>
+
+<h2>Step Timeline</h2>
+<section>
+  ${testRun.flow.length === 0 ? '<p class="empty">No steps recorded</p>' : `<table>
+    <thead><tr><th>#</th><th>Time</th><th>Action</th><th>Intent</th><th>Selector</th><th>Outcome</th><th>Latency</th><th></th></tr></thead>
+    <tbody>
+      ${testRun.flow.map((step, index) => `<tr>
+        <td>${index + 1}</td>
+        <td>${escapeHtml(step.timestamp)}</td>
+        <td>${escapeHtml(step.action)}</td>
+        <td>${escapeHtml(step.inferredIntent)}</td>
+        <td><code>${escapeHtml(step.selector || '')}</code></td>
+        <td><span class="badge ${escapeHtml(step.outcome)}">${escapeHtml(step.outcome)}</span></td>
+        <td>${formatMs(step.latencyMs)}</td>
+        <td style="width: 20%"><div class="bar" style="width: ${Math.round((step.latencyMs / maxLatency) * 100)}%"></div></td>
+      </tr>`).join('\n      ')}
+    </tbody>
+  </table>`}
+</section>
+
+<h2>Errors</h2>
+<section>
+  ${renderErrors(testRun.errors)}
+</section>
+${testRun.artifacts?.mocks?.length ? `
+<h2>Mocked Responses</h2>
+<section>
+  ${renderMocks(testRun.artifacts.mocks)}
+</section>
+` : ''}${testRun.metrics.performance?.length ? `
+<h2>Performance</h2>
+<section>
+  ${renderPerformance(testRun.metrics.performance)}
+</section>
+` : ''}
+<h2>Screenshots</h2>
+<section>
+  ${screenshots.length === 0 ? '<p class="empty">No screenshots captured</p>' : `<div class="screenshots">
+    ${screenshots.map(shot => `<figure>
+      ${shot.dataUri ? `<img src="${shot.dataUri}" alt="${escapeHtml(shot.label)}">` : `<p class="empty">Screenshot unavailable</p>`}
+      <figcaption>${escapeHtml(shot.label)} &middot; <code>${escapeHtml(shot.path)}</code></figcaption>
+    </figure>`).join('\n    ')}
+  </div>`}
+</section>
+
+<h2>Inferred Form Schema</h2>
+<section>
+  ${testRun.findings.forms.length === 0 ? '<p class="empty">No forms inferred</p>' : testRun.findings.forms.map(renderForm).join('\n')}
+</section>
+
+<p style="font-size: 11px; color: #9aa5b1; margin-top: 24px;">Generated by mcp-ui-probe on ${escapeHtml(new Date().toISOString())}</p>
+</body>
+</html>
+`;
+}
+
+function renderErrors(errors: TestError[]): string {
+  if (errors.length === 0) {
+    return '<p class="empty">No errors</p>';
+  }
+
+  return `<table>
+    <thead><tr><th>Type</th><th>Code</th><th>Message</th><th>Selector</th><th>Evidence</th><th>Time</th></tr></thead>
+    <tbody>
+      ${errors.map(error => `<tr>
+        <td><span class="badge ${error.type === 'console' || error.type === 'network' ? 'passed_with_warnings' : 'failed'}">${escapeHtml(error.type)}</span></td>
+        <td><code>${escapeHtml(error.code)}</code></td>
+        <td>${escapeHtml(error.message)}</td>
+        <td><code>${escapeHtml(error.selector || '')}</code></td>
+        <td>${renderEvidence(error)}</td>
+        <td>${escapeHtml(error.timestamp)}</td>
+      </tr>`).join('\n      ')}
+    </tbody>
+  </table>`;
+}
+
+function renderMocks(mocks: MockedRoute[]): string {
+  return `<table>
+    <thead><tr><th>URL</th><th>Method</th><th>Status</th><th>Delay</th><th>Hits</th><th>Faked requests</th></tr></thead>
+    <tbody>
+      ${mocks.map(mock => `<tr>
+        <td><code>${escapeHtml(mock.url)}</code></td>
+        <td>${escapeHtml(mock.method || 'any')}</td>
+        <td>${mock.status}</td>
+        <td>${mock.delayMs ? formatMs(mock.delayMs) : ''}</td>
+        <td>${mock.hits}${mock.times ? ` / ${mock.times}` : ''}</td>
+        <td>${mock.requests.map(request => `<div><code>${escapeHtml(request.method)} ${escapeHtml(request.url)}</code></div>`).join('')}</td>
+      </tr>`).join('\n      ')}
+    </tbody>
+  </table>`;
+}
+
+function renderPerformance(pages: PageVitals[]): string {
+  const ms = (value?: number) => value === undefined ? '' : formatMs(value);
+
+  return `<table>
+    <thead><tr><th>URL</th><th>LCP</th><th>CLS</th><th>INP</th><th>FID</th><th>TTFB</th><th>DOMContentLoaded</th><th>Load</th><th>Resources</th></tr></thead>
+    <tbody>
+      ${pages.map(vitals => `<tr>
+        <td><code>${escapeHtml(vitals.url)}</code></td>
+        <td>${ms(vitals.lcpMs)}</td>
+        <td>${vitals.cls ?? ''}</td>
+        <td>${ms(vitals.inpMs)}</td>
+        <td>${ms(vitals.fidMs)}</td>
+        <td>${ms(vitals.ttfbMs)}</td>
+        <td>${ms(vitals.domContentLoadedMs)}</td>
+        <td>${ms(vitals.loadMs)}</td>
+        <td>${vitals.resources.count} (${Math.round(vitals.resources.transferBytes / 1024)} KB)</td>
+      </tr>`).join('\n      ')}
+    </tbody>
+  </table>`;
+}
+
+function renderEvidence(error: TestError): string {
+  const evidence = error.evidence;
+  if (!evidence) return '';
+
+  const parts: string[] = [];
+  if (evidence.request) {
+    parts.push(`<code>${escapeHtml(evidence.request.method)} ${escapeHtml(evidence.request.url)} &rarr; ${evidence.request.status}</code>`);
+    if (evidence.request.bodyExcerpt) {
+      parts.push(`<pre>${escapeHtml(evidence.request.bodyExcerpt)}</pre>`);
+    }
+  }
+  if (evidence.text) {
+    parts.push(`<pre>${escapeHtml(evidence.text)}</pre>`);
+  }
+  if (evidence.wcag && evidence.wcag.length > 0) {
+    parts.push(`<div>${escapeHtml(evidence.wcag.join(', '))}</div>`);
+  }
+  if (evidence.ariaLive) {
+    parts.push('<div>aria-live region</div>');
+  }
+  return parts.join('\n');
+}
+
+function renderForm(form: Form): string {
+  return `<h3 style="font-size: 14px;">${escapeHtml(form.name)} <code>${escapeHtml(form.selector || '')}</code></h3>
+  <table>
+    <thead><tr><th>Name</th><th>Type</th><th>Label</th><th>Required</th><th>Selector</th><th>Rules</th></tr></thead>
+    <tbody>
+      ${form.fields.map(field => `<tr>
+        <td>${escapeHtml(field.name)}</td>
+        <td>${escapeHtml(field.type)}</td>
+        <td>${escapeHtml(field.label || '')}</td>
+        <td>${field.required ? 'yes' : 'no'}</td>
+        <td><code>${escapeHtml(field.selector)}</code></td>
+        <td>${escapeHtml((field.rules || []).join(', '))}</td>
+      </tr>`).join('\n      ')}
+    </tbody>
+  </table>
+  <p style="font-size: 13px;">Submit: <code>${escapeHtml(form.submit.selector)}</code>${form.submit.text ? ` (${escapeHtml(form.submit.text)})` : ''}</p>
+  <pre>${escapeHtml(JSON.stringify(form, null, 2))}</pre>`;
+}
+
+async function collectScreenshots(testRun: TestRun, embed: boolean): Promise<EmbeddedScreenshot[]> {
+  const entries: Array<{ label: string; path: string }> = [];
+
+  for (const step of testRun.flow) {
+    if (step.artifacts?.screenshot) {
+      entries.push({ label: step.inferredIntent, path: step.artifacts.screenshot });
+    }
+  }
+  for (const screenshotPath of testRun.artifacts?.screenshots || []) {
+    if (!entries.some(entry => entry.path === screenshotPath)) {
+      entries.push({ label: labelFromPath(screenshotPath), path: screenshotPath });
+    }
+  }
+
+  return Promise.all(entries.map(async entry => {
+    if (!embed) return entry;
+    try {
+      const content = await fs.readFile(entry.path);
+      return { ...entry, dataUri: `data:image/png;base64,${content.toString('base64')}` };
+    } catch (error) {
+      logger.warn('Failed to embed screenshot in HTML report', { path: entry.path, error });
+      return entry;
+    }
+  }));
+}
+
+function labelFromPath(screenshotPath: string): string {
+  // FlowEngine names screenshots flow-<label>-<timestamp>.png
+  const match = path.basename(screenshotPath).match(/^flow-(.+)-\d+\.png$/);
+  return match ? match[1].replace(/_/g, ' ') : path.basename(screenshotPath);
+}
+
+function formatMs(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${ms}ms`;
+}
+
+export function escapeHtml(value: string): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
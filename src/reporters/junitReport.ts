@@ -0,0 +1,196 @@
+/**
+ * JUnit XML report with one testcase per step, for CI test tabs (Jenkins, GitLab)
+ */
+
+import { TestRun, TestStep, TestError } from '../types/index.js';
+import { JourneyExecutionResult, JourneyStepResult } from '../types/journey.js';
+
+interface JUnitTestCase {
+  name: string;
+  classname: string;
+  timeMs: number;
+  failure?: { message: string; type: string; body: string };
+  skipped?: string;
+}
+
+interface JUnitSuite {
+  name: string;
+  timestamp: string;
+  timeMs: number;
+  properties: Record<string, string>;
+  testcases: JUnitTestCase[];
+  systemOut: string[];
+}
+
+export function renderJUnitRun(testRun: TestRun): string {
+  const classname = testRun.findings.forms[0]?.name || hostOf(testRun.target.url);
+  const reported = new Set<TestError>();
+  const testcases = testRun.flow.map(step => toTestCase(step, classname, testRun.errors, reported));
+
+  // Errors not tied to a failing step (network, console, accessibility) still need to fail the build
+  const unreported = testRun.errors.filter(error => !reported.has(error));
+  if (testRun.result === 'failed' && (unreported.length > 0 || !testcases.some(testcase => testcase.failure))) {
+    testcases.push({
+      name: 'Run result',
+      classname,
+      timeMs: 0,
+      failure: {
+        message: unreported[0]?.message || 'Test run failed',
+        type: unreported[0]?.code || 'AssertionError',
+        body: unreported.map(formatError).join('\n')
+      }
+    });
+  }
+
+  return renderSuite({
+    name: `MCP UI Probe - ${testRun.target.url}`,
+    timestamp: testRun.startedAt || testRun.flow[0]?.timestamp || new Date().toISOString(),
+    timeMs: testRun.metrics.totalTimeMs,
+    properties: {
+      runId: testRun.runId,
+      url: testRun.target.url,
+      viewport: testRun.target.viewport,
+      userAgent: testRun.target.userAgent,
+      result: testRun.result
+    },
+    testcases,
+    systemOut: testRun.errors.filter(error => error.type === 'console').map(error => error.message)
+  });
+}
+
+export function renderJUnitJourney(execution: JourneyExecutionResult): string {
+  const classname = execution.journeyName || execution.journeyId;
+  const testcases = (execution.stepResults || []).map(step => toJourneyTestCase(step, classname));
+
+  if (!execution.success && !testcases.some(testcase => testcase.failure)) {
+    testcases.push({
+      name: 'Journey result',
+      classname,
+      timeMs: 0,
+      failure: {
+        message: execution.errors[0]?.error || 'Journey playback failed',
+        type: 'JourneyError',
+        body: execution.errors.map(error => `[${error.stepId}] ${error.error}`).join('\n')
+      }
+    });
+  }
+
+  return renderSuite({
+    name: `Journey - ${classname}`,
+    timestamp: execution.startTime,
+    timeMs: execution.durationMs,
+    properties: {
+      executionId: execution.executionId,
+      journeyId: execution.journeyId,
+      startUrl: execution.startUrl || '',
+      finalUrl: execution.finalUrl
+    },
+    testcases,
+    systemOut: execution.warnings
+  });
+}
+
+export function escapeXml(value: string): string {
+  return value
+    // Strip characters that are not allowed anywhere in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function toTestCase(step: TestStep, classname: string, errors: TestError[], reported: Set<TestError>): JUnitTestCase {
+  const testcase: JUnitTestCase = {
+    name: step.inferredIntent,
+    classname,
+    timeMs: step.latencyMs
+  };
+
+  if (step.outcome !== 'success') {
+    const stepErrors = step.selector ? errors.filter(error => error.selector === step.selector) : [];
+    stepErrors.forEach(error => reported.add(error));
+    testcase.failure = {
+      message: stepErrors[0]?.message || `${step.action} ${step.selector || ''} ended with ${step.outcome}`.trim(),
+      type: step.outcome === 'timeout' ? 'TimeoutError' : stepErrors[0]?.code || 'AssertionError',
+      body: stepErrors.map(formatError).join('\n')
+    };
+  }
+
+  return testcase;
+}
+
+function toJourneyTestCase(step: JourneyStepResult, classname: string): JUnitTestCase {
+  const testcase: JUnitTestCase = {
+    name: step.description,
+    classname,
+    timeMs: step.durationMs
+  };
+
+  if (step.status === 'failed') {
+    testcase.failure = {
+      message: step.error || 'Step failed',
+      type: 'StepFailure',
+      body: `${step.action} ${step.selector || ''} failed after ${step.retries} retries`.replace(/\s+/g, ' ')
+    };
+  } else if (step.status === 'skipped') {
+    testcase.skipped = 'Step not reached';
+  }
+
+  return testcase;
+}
+
+function renderSuite(suite: JUnitSuite): string {
+  const failures = suite.testcases.filter(testcase => testcase.failure).length;
+  const skipped = suite.testcases.filter(testcase => testcase.skipped).length;
+
+  const properties = Object.entries(suite.properties)
+    .map(([name, value]) => `      <property name="${escapeXml(name)}" value="${escapeXml(value)}"/>`)
+    .join('\n');
+
+  const testcases = suite.testcases.map(testcase => {
+    const attributes = `name="${escapeXml(testcase.name)}" classname="${escapeXml(testcase.classname)}" time="${seconds(testcase.timeMs)}"`;
+
+    if (testcase.failure) {
+      return `    <testcase ${attributes}>
+      <failure message="${escapeXml(testcase.failure.message)}" type="${escapeXml(testcase.failure.type)}">${escapeXml(testcase.failure.body)}</failure>
+    </testcase>`;
+    }
+
+    if (testcase.skipped) {
+      return `    <testcase ${attributes}>
+      <skipped message="${escapeXml(testcase.skipped)}"/>
+    </testcase>`;
+    }
+
+    return `    <testcase ${attributes}/>`;
+  }).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="MCP UI Probe Tests" tests="${suite.testcases.length}" failures="${failures}" skipped="${skipped}" time="${seconds(suite.timeMs)}">
+  <testsuite name="${escapeXml(suite.name)}" tests="${suite.testcases.length}" failures="${failures}" errors="0" skipped="${skipped}" timestamp="${escapeXml(suite.timestamp)}" time="${seconds(suite.timeMs)}">
+    <properties>
+${properties}
+    </properties>
+${testcases}
+    <system-out>${escapeXml(suite.systemOut.join('\n'))}</system-out>
+  </testsuite>
+</testsuites>`;
+}
+
+function formatError(error: TestError): string {
+  return `[${error.code}] ${error.message}`;
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
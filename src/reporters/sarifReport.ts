@@ -0,0 +1,146 @@
+/**
+ * SARIF 2.1.0 report so run findings show up in code-scanning UIs
+ */
+
+import { createHash } from 'crypto';
+import { TestRun, TestError } from '../types/index.js';
+
+type SarifLevel = 'error' | 'warning' | 'note';
+
+interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  helpUri?: string;
+  defaultConfiguration: { level: SarifLevel };
+}
+
+export const SARIF_RULES: Record<TestError['type'], SarifRule> = {
+  validation: {
+    id: 'ui-probe/validation',
+    name: 'FormValidationError',
+    shortDescription: { text: 'Form validation rejected the submitted input' },
+    defaultConfiguration: { level: 'error' }
+  },
+  console: {
+    id: 'ui-probe/console',
+    name: 'ConsoleError',
+    shortDescription: { text: 'The page logged an error to the browser console' },
+    defaultConfiguration: { level: 'error' }
+  },
+  network: {
+    id: 'ui-probe/network',
+    name: 'NetworkError',
+    shortDescription: { text: 'A network request failed or returned an error status' },
+    defaultConfiguration: { level: 'error' }
+  },
+  timeout: {
+    id: 'ui-probe/timeout',
+    name: 'Timeout',
+    shortDescription: { text: 'An interaction did not complete in time' },
+    defaultConfiguration: { level: 'error' }
+  },
+  accessibility: {
+    id: 'ui-probe/accessibility',
+    name: 'AccessibilityViolation',
+    shortDescription: { text: 'An element violates a WCAG accessibility rule' },
+    helpUri: 'https://www.w3.org/WAI/WCAG21/quickref/',
+    defaultConfiguration: { level: 'warning' }
+  },
+  performance: {
+    id: 'ui-probe/performance',
+    name: 'PerformanceBudgetExceeded',
+    shortDescription: { text: 'A page metric exceeded its performance budget' },
+    helpUri: 'https://web.dev/articles/vitals',
+    defaultConfiguration: { level: 'error' }
+  },
+  visual: {
+    id: 'ui-probe/visual',
+    name: 'VisualMismatch',
+    shortDescription: { text: 'A screenshot differs from its approved baseline' },
+    defaultConfiguration: { level: 'error' }
+  },
+  dialog: {
+    id: 'ui-probe/dialog',
+    name: 'UnexpectedDialog',
+    shortDescription: { text: 'The page opened a dialog the dialog policy does not allow' },
+    defaultConfiguration: { level: 'error' }
+  }
+};
+
+export function renderSarifReport(testRun: TestRun): string {
+  const ruleTypes = Array.from(new Set(testRun.errors.map(error => error.type)));
+  const rules = ruleTypes.map(type => SARIF_RULES[type]);
+
+  const results = testRun.errors.map(error => {
+    const uri = error.type === 'network' && error.evidence?.request?.url
+      ? error.evidence.request.url
+      : testRun.target.url;
+
+    return {
+      ruleId: SARIF_RULES[error.type].id,
+      ruleIndex: ruleTypes.indexOf(error.type),
+      level: levelFor(error),
+      message: { text: error.message },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri },
+          // Pages have no source lines; code-scanning UIs still require a region
+          region: {
+            startLine: 1,
+            ...(error.evidence?.text ? { snippet: { text: error.evidence.text } } : {})
+          }
+        },
+        ...(error.selector ? {
+          logicalLocations: [{ fullyQualifiedName: error.selector, kind: 'element' }]
+        } : {})
+      }],
+      fingerprints: {
+        'uiProbe/v1': createHash('md5').update(`${error.code}|${uri}|${error.selector || error.message}`).digest('hex')
+      },
+      properties: {
+        code: error.code,
+        timestamp: error.timestamp,
+        ...(error.evidence?.rule ? { rule: error.evidence.rule } : {}),
+        ...(error.evidence?.wcag ? { wcag: error.evidence.wcag } : {}),
+        ...(error.evidence?.request ? { request: error.evidence.request } : {})
+      }
+    };
+  });
+
+  return JSON.stringify({
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'mcp-ui-probe',
+          informationUri: 'https://github.com/Hulupeep/mcp-ui-probe',
+          rules
+        }
+      },
+      automationDetails: { id: `ui-probe/${testRun.runId}` },
+      invocations: [{
+        executionSuccessful: testRun.result !== 'failed',
+        ...(testRun.startedAt ? { startTimeUtc: testRun.startedAt } : {})
+      }],
+      results
+    }]
+  }, null, 2);
+}
+
+function levelFor(error: TestError): SarifLevel {
+  if (error.type !== 'accessibility') {
+    return SARIF_RULES[error.type].defaultConfiguration.level;
+  }
+
+  switch (error.evidence?.impact) {
+    case 'critical':
+    case 'serious':
+      return 'error';
+    case 'minor':
+      return 'note';
+    default:
+      return 'warning';
+  }
+}
@@ -0,0 +1,360 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { TestRun, TestRunSchema } from '../types/index.js';
+import { JourneyExecutionResult, JourneyExecutionResultSchema } from '../types/journey.js';
+import { RunStorageConfig, RunSummary, RunQuery, RunQueryResult } from '../types/runs.js';
+import logger from '../utils/logger.js';
+
+export class RunStorage {
+  private config: RunStorageConfig;
+  private indexCache: Map<string, RunSummary> = new Map();
+  private runCache: Map<string, TestRun> = new Map();
+  private executionCache: Map<string, JourneyExecutionResult> = new Map();
+  private indexLoaded = false;
+
+  constructor(customConfig?: Partial<RunStorageConfig>) {
+    this.config = {
+      baseDir: process.env.UI_PROBE_RUNS_DIR || path.join(os.homedir(), '.ui-probe', 'runs'),
+      artifactsDir: 'artifacts',
+      indexFile: 'index.json',
+      runFile: 'run.json',
+      executionsDir: 'executions',
+      executionFile: 'execution.json',
+      maxRuns: parseInt(process.env.UI_PROBE_MAX_RUNS || '500', 10),
+      ...customConfig
+    };
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      await fs.mkdir(this.config.baseDir, { recursive: true });
+      await this.loadIndexCache();
+
+      logger.info('Run storage initialized', {
+        baseDir: this.config.baseDir,
+        runCount: this.indexCache.size
+      });
+    } catch (error) {
+      logger.error('Failed to initialize run storage', { error });
+      throw error;
+    }
+  }
+
+  async saveRun(run: TestRun): Promise<TestRun> {
+    // Cached before writing so a run that fails to persist can still be fetched this session
+    this.runCache.set(run.runId, run);
+
+    try {
+      await this.ensureIndexLoaded();
+
+      const runDir = this.getRunDir(run.runId);
+      await fs.mkdir(runDir, { recursive: true });
+
+      // Copy artifacts next to the run so they survive /tmp cleanup
+      const persistedRun: TestRun = {
+        ...run,
+        startedAt: run.startedAt || run.flow[0]?.timestamp || new Date().toISOString(),
+        flow: await Promise.all(run.flow.map(async step => {
+          if (!step.artifacts?.screenshot) return step;
+          return {
+            ...step,
+            artifacts: {
+              ...step.artifacts,
+              screenshot: await this.persistArtifact(run.runId, step.artifacts.screenshot)
+            }
+          };
+        })),
+        artifacts: run.artifacts ? {
+          ...run.artifacts,
+          screenshots: run.artifacts.screenshots
+            ? await Promise.all(run.artifacts.screenshots.map(file => this.persistArtifact(run.runId, file)))
+            : undefined,
+          har: run.artifacts.har ? await this.persistArtifact(run.runId, run.artifacts.har) : undefined,
+          trace: run.artifacts.trace ? await this.persistArtifact(run.runId, run.artifacts.trace) : undefined,
+          video: run.artifacts.video ? await this.persistArtifact(run.runId, run.artifacts.video) : undefined
+        } : undefined
+      };
+
+      const validatedRun = TestRunSchema.parse(persistedRun);
+      await fs.writeFile(
+        path.join(runDir, this.config.runFile),
+        JSON.stringify(validatedRun, null, 2),
+        'utf8'
+      );
+
+      this.runCache.set(validatedRun.runId, validatedRun);
+      this.indexCache.set(validatedRun.runId, this.summarize(validatedRun));
+
+      await this.pruneOldRuns();
+      await this.updateIndex();
+
+      logger.info('Test run saved', { runId: validatedRun.runId, result: validatedRun.result });
+      return validatedRun;
+
+    } catch (error) {
+      logger.error('Failed to save test run', { runId: run.runId, error });
+      throw new Error(`Failed to save test run: ${error}`);
+    }
+  }
+
+  async loadRun(runId: string): Promise<TestRun | null> {
+    const cached = this.runCache.get(runId);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const content = await fs.readFile(path.join(this.getRunDir(runId), this.config.runFile), 'utf8');
+      const run = TestRunSchema.parse(JSON.parse(content));
+      this.runCache.set(runId, run);
+      return run;
+    } catch (error) {
+      logger.debug('Test run not found on disk', { runId, error });
+      return null;
+    }
+  }
+
+  async listRuns(query: RunQuery = {}): Promise<RunQueryResult> {
+    await this.ensureIndexLoaded();
+
+    const matching = this.filterSummaries(query)
+      .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime());
+
+    const offset = query.offset || 0;
+    const limit = query.limit || 50;
+    const runs = matching.slice(offset, offset + limit);
+
+    return {
+      runs,
+      totalCount: matching.length,
+      hasMore: offset + runs.length < matching.length
+    };
+  }
+
+  async deleteRuns(criteria: { runIds?: string[] } & RunQuery): Promise<string[]> {
+    await this.ensureIndexLoaded();
+
+    const targets = criteria.runIds && criteria.runIds.length > 0
+      ? criteria.runIds.filter(runId => this.indexCache.has(runId))
+      : this.filterSummaries(criteria).map(summary => summary.runId);
+
+    const deleted: string[] = [];
+    for (const runId of targets) {
+      try {
+        await fs.rm(this.getRunDir(runId), { recursive: true, force: true });
+        this.indexCache.delete(runId);
+        this.runCache.delete(runId);
+        deleted.push(runId);
+      } catch (error) {
+        logger.warn('Failed to delete test run', { runId, error });
+      }
+    }
+
+    if (deleted.length > 0) {
+      await this.updateIndex();
+    }
+
+    logger.info('Test runs deleted', { count: deleted.length });
+    return deleted;
+  }
+
+  async saveExecution(execution: JourneyExecutionResult): Promise<JourneyExecutionResult> {
+    try {
+      const executionDir = this.getExecutionDir(execution.executionId);
+      await fs.mkdir(executionDir, { recursive: true });
+
+      const artifactsDir = path.join(executionDir, this.config.artifactsDir);
+      const persisted = JourneyExecutionResultSchema.parse({
+        ...execution,
+        screenshots: await Promise.all(execution.screenshots.map(file =>
+          this.persistArtifact(execution.executionId, file, artifactsDir)
+        )),
+        har: execution.har ? await this.persistArtifact(execution.executionId, execution.har, artifactsDir) : undefined,
+        trace: execution.trace ? await this.persistArtifact(execution.executionId, execution.trace, artifactsDir) : undefined,
+        video: execution.video ? await this.persistArtifact(execution.executionId, execution.video, artifactsDir) : undefined
+      });
+
+      await fs.writeFile(
+        path.join(executionDir, this.config.executionFile),
+        JSON.stringify(persisted, null, 2),
+        'utf8'
+      );
+      this.executionCache.set(persisted.executionId, persisted);
+
+      logger.info('Journey execution saved', { executionId: persisted.executionId, success: persisted.success });
+      return persisted;
+
+    } catch (error) {
+      logger.error('Failed to save journey execution', { executionId: execution.executionId, error });
+      throw new Error(`Failed to save journey execution: ${error}`);
+    }
+  }
+
+  async loadExecution(executionId: string): Promise<JourneyExecutionResult | null> {
+    const cached = this.executionCache.get(executionId);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const content = await fs.readFile(
+        path.join(this.getExecutionDir(executionId), this.config.executionFile),
+        'utf8'
+      );
+      const execution = JourneyExecutionResultSchema.parse(JSON.parse(content));
+      this.executionCache.set(executionId, execution);
+      return execution;
+    } catch (error) {
+      logger.debug('Journey execution not found on disk', { executionId, error });
+      return null;
+    }
+  }
+
+  getArtifactsDir(runId: string): string {
+    return path.join(this.getRunDir(runId), this.config.artifactsDir);
+  }
+
+  private getRunDir(runId: string): string {
+    // runIds are uuids; strip anything that could escape the base directory
+    return path.join(this.config.baseDir, runId.replace(/[^\w-]/g, '_'));
+  }
+
+  private getExecutionDir(executionId: string): string {
+    return path.join(this.config.baseDir, this.config.executionsDir, executionId.replace(/[^\w-]/g, '_'));
+  }
+
+  private async persistArtifact(runId: string, sourcePath: string, artifactsDir = this.getArtifactsDir(runId)): Promise<string> {
+    if (sourcePath.startsWith(artifactsDir)) {
+      return sourcePath;
+    }
+
+    try {
+      await fs.mkdir(artifactsDir, { recursive: true });
+      const targetPath = path.join(artifactsDir, path.basename(sourcePath));
+      await fs.copyFile(sourcePath, targetPath);
+      return targetPath;
+    } catch (error) {
+      logger.warn('Failed to persist run artifact, keeping original path', { runId, sourcePath, error });
+      return sourcePath;
+    }
+  }
+
+  private filterSummaries(query: RunQuery): RunSummary[] {
+    let summaries = Array.from(this.indexCache.values());
+
+    if (query.url) {
+      const url = query.url.toLowerCase();
+      summaries = summaries.filter(summary => summary.url.toLowerCase().includes(url));
+    }
+
+    if (query.result) {
+      const results = Array.isArray(query.result) ? query.result : [query.result];
+      summaries = summaries.filter(summary => results.includes(summary.result));
+    }
+
+    if (query.from) {
+      const fromDate = new Date(query.from);
+      summaries = summaries.filter(summary => new Date(summary.startedAt) >= fromDate);
+    }
+
+    if (query.to) {
+      const toDate = new Date(query.to);
+      summaries = summaries.filter(summary => new Date(summary.startedAt) <= toDate);
+    }
+
+    return summaries;
+  }
+
+  private summarize(run: TestRun): RunSummary {
+    return {
+      runId: run.runId,
+      url: run.target.url,
+      result: run.result,
+      startedAt: run.startedAt || new Date().toISOString(),
+      savedAt: new Date().toISOString(),
+      steps: run.metrics.steps,
+      errors: run.errors.length,
+      totalTimeMs: run.metrics.totalTimeMs,
+      formNames: run.findings.forms.map(form => form.name)
+    };
+  }
+
+  private async pruneOldRuns(): Promise<void> {
+    if (this.indexCache.size <= this.config.maxRuns) return;
+
+    const oldest = Array.from(this.indexCache.values())
+      .sort((a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime())
+      .slice(0, this.indexCache.size - this.config.maxRuns);
+
+    for (const summary of oldest) {
+      await fs.rm(this.getRunDir(summary.runId), { recursive: true, force: true }).catch(() => undefined);
+      this.indexCache.delete(summary.runId);
+      this.runCache.delete(summary.runId);
+    }
+
+    logger.info('Pruned old test runs', { count: oldest.length });
+  }
+
+  private async ensureIndexLoaded(): Promise<void> {
+    if (!this.indexLoaded) {
+      await fs.mkdir(this.config.baseDir, { recursive: true });
+      await this.loadIndexCache();
+    }
+  }
+
+  private async loadIndexCache(): Promise<void> {
+    const indexPath = path.join(this.config.baseDir, this.config.indexFile);
+
+    try {
+      const content = await fs.readFile(indexPath, 'utf8');
+      const index = JSON.parse(content);
+
+      this.indexCache.clear();
+      for (const summary of index.runs || []) {
+        this.indexCache.set(summary.runId, summary);
+      }
+    } catch {
+      // Index doesn't exist or is corrupt, scan run directories
+      await this.scanDirectoryAndRebuildIndex();
+    }
+
+    this.indexLoaded = true;
+  }
+
+  private async scanDirectoryAndRebuildIndex(): Promise<void> {
+    try {
+      const entries = await fs.readdir(this.config.baseDir, { withFileTypes: true });
+
+      this.indexCache.clear();
+      for (const entry of entries) {
+        if (!entry.isDirectory() || entry.name === this.config.executionsDir) continue;
+        const run = await this.loadRun(entry.name);
+        if (run) {
+          this.indexCache.set(run.runId, this.summarize(run));
+        }
+      }
+
+      await this.updateIndex();
+    } catch (error) {
+      logger.error('Failed to scan run directory and rebuild index', { error });
+    }
+  }
+
+  private async updateIndex(): Promise<void> {
+    try {
+      const indexPath = path.join(this.config.baseDir, this.config.indexFile);
+
+      const index = {
+        version: '1.0',
+        lastUpdate: Date.now(),
+        runCount: this.indexCache.size,
+        runs: Array.from(this.indexCache.values())
+      };
+
+      await fs.writeFile(indexPath, JSON.stringify(index, null, 2));
+    } catch (error) {
+      logger.error('Failed to update run index', { error });
+    }
+  }
+}
@@ -1,3 +1,6 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
@@ -7,7 +10,7 @@ import {
 
 import { PlaywrightDriver } from '../drivers/playwright.js';
 import { formInferenceEngine } from '../infer/form.js';
-import { flowEngine } from '../flows/flowEngine.js';
+import { FlowEngine } from '../flows/flowEngine.js';
 import { GoalParser } from '../utils/goalParser.js';
 import { LLMStrategy } from '../llm/llmStrategy.js';
 import { WorkflowDecomposer } from '../llm/workflowDecomposer.js';
@@ -20,6 +23,18 @@ import { JourneyStorage } from '../journey/JourneyStorage.js';
 import { JourneyValidator } from '../journey/JourneyValidator.js';
 import { JourneyAnalyzer } from '../journey/JourneyAnalyzer.js';
 import { JourneyDiscovery } from '../journey/JourneyDiscovery.js';
+import { journeyConfig } from '../journey/JourneyConfig.js';
+import { deviceProfiles, environmentOf } from '../utils/devices.js';
+import { applyAuthState } from '../utils/authState.js';
+import { checkBudgets, toPerformanceErrors, loadPerformanceBudgets, isPerformanceCollectionDefault } from '../utils/performance.js';
+import { takeComparableScreenshot, describeVisualMismatch } from '../utils/visualDiff.js';
+import { VisualStorage, visualVariant } from '../visual/VisualStorage.js';
+import { mergeDialogSteps, toDialogErrors } from '../utils/dialogs.js';
+import { readStorage, writeStorage, clearStorage } from '../utils/storage.js';
+import { resolveThrottling } from '../utils/throttling.js';
+import { parseDownloadExpectation, verifyDownload } from '../utils/downloads.js';
+import { RunStorage } from '../runs/RunStorage.js';
+import { SessionManager } from '../sessions/SessionManager.js';
 import {
   MCPToolResult,
   NavigateParams,
@@ -30,22 +45,198 @@ import {
   AssertSelectorsParams,
   CollectErrorsParams,
   ExportReportParams,
-  TestRun
+  TestRun,
+  PageVitals,
+  PerformanceBudget,
+  BudgetViolation,
+  ThrottlingInput
 } from '../types/index.js';
 import {
   Journey,
   JourneyExecutionResult,
   RecordingConfig,
-  PlaybackConfig
+  PlaybackConfig,
+  AuthState
 } from '../types/journey.js';
+import { VisualCheckOptions, VisualCheckResult } from '../types/visual.js';
 import { MCPUIError, NavigationError, FormInferenceError } from '../utils/errors.js';
 import { verifyPage, VerifyPageParams } from '../tools/verify_page.js';
+import { compareRuns } from '../tools/compare_runs.js';
+import { diffUI } from '../tools/diff_ui.js';
+import { auditAccessibility, toAccessibilityErrors, AccessibilityAuditResult } from '../tools/audit_accessibility.js';
+import { renderHtmlReport } from '../reporters/htmlReport.js';
+import { writeAllureRunResults, writeAllureJourneyResults } from '../reporters/allureReport.js';
+import { renderJUnitRun, renderJUnitJourney } from '../reporters/junitReport.js';
+import { renderSarifReport } from '../reporters/sarifReport.js';
+import { renderCtrfReport } from '../reporters/ctrfReport.js';
 import logger from '../utils/logger.js';
 
+const SESSION_TOOLS = new Set(['open_session', 'close_session', 'list_sessions']);
+
+// How a screenshot is taken and compared; approved baselines keep them for later checks
+const VISUAL_OPTION_PARAMS = {
+  maxDiffRatio: {
+    type: 'number',
+    description: 'Share of pixels allowed to differ, 0-1 (default: UI_PROBE_VISUAL_MAX_DIFF_RATIO or 0.001)',
+  },
+  pixelThreshold: {
+    type: 'number',
+    description: 'Per-pixel color tolerance, 0 (exact) to 1 (default: 0.1)',
+  },
+  mask: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Selectors of dynamic content (clocks, ads, avatars) to paint over before the screenshot',
+  },
+  ignoreRegions: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        x: { type: 'number' },
+        y: { type: 'number' },
+        width: { type: 'number' },
+        height: { type: 'number' },
+      },
+      required: ['x', 'y', 'width', 'height'],
+    },
+    description: 'Areas of the screenshot, in CSS pixels, left out of the comparison',
+  },
+  fullPage: {
+    type: 'boolean',
+    description: 'Capture the whole scrollable page instead of the viewport (default: false)',
+  },
+};
+
+// Shared by every tool that can collect Core Web Vitals
+const PERFORMANCE_PARAMS = {
+  performance: {
+    type: 'boolean',
+    description: 'Collect Core Web Vitals, timings and resource totals for each page (default: UI_PROBE_PERFORMANCE)',
+  },
+  budgets: {
+    type: 'array',
+    description: 'Performance budgets, checked in addition to those in UI_PROBE_PERFORMANCE_BUDGETS; implies performance',
+    items: {
+      type: 'object',
+      properties: {
+        urlPattern: { type: 'string', description: 'URL glob the budget applies to, * matches anything' },
+        lcpMs: { type: 'number' },
+        cls: { type: 'number' },
+        inpMs: { type: 'number' },
+        fidMs: { type: 'number' },
+        ttfbMs: { type: 'number' },
+        domContentLoadedMs: { type: 'number' },
+        loadMs: { type: 'number' },
+        resourceCount: { type: 'number' },
+        transferBytes: { type: 'number' },
+      },
+      required: ['urlPattern'],
+    },
+  },
+};
+
+// How alert/confirm/prompt/beforeunload dialogs are answered
+const DIALOG_POLICY_PARAMS = {
+  action: {
+    type: 'string',
+    enum: ['accept', 'dismiss', 'fail'],
+    description: 'Accept or dismiss dialogs, or dismiss them and fail the step (default: UI_PROBE_DIALOG_POLICY or accept)',
+  },
+  promptText: {
+    type: 'string',
+    description: 'Answer to prompt() dialogs when accepting (default: the prompt\'s default value)',
+  },
+};
+
+const THROTTLING_PROPERTIES = {
+  offline: { type: 'boolean' },
+  latencyMs: { type: 'number', description: 'Added round-trip time per request' },
+  downloadKbps: { type: 'number' },
+  uploadKbps: { type: 'number' },
+  cpuSlowdown: { type: 'number', description: 'CPU slowdown factor, e.g. 4' },
+};
+
+const THROTTLING_PARAMS = {
+  throttling: {
+    description: 'Network and CPU conditions for this call: "offline", "slow-3g", "fast-3g", or custom conditions, optionally extending a profile. Everything but offline needs Chromium',
+    anyOf: [
+      { type: 'string', enum: ['offline', 'slow-3g', 'fast-3g', 'none'] },
+      {
+        type: 'object',
+        properties: {
+          profile: { type: 'string', enum: ['offline', 'slow-3g', 'fast-3g'] },
+          ...THROTTLING_PROPERTIES,
+        },
+      },
+    ],
+  },
+};
+
+// Locale, time zone and position a session or journey reports to pages
+const EMULATION_PARAMS = {
+  locale: {
+    type: 'string',
+    description: 'BCP 47 locale for navigator.language, Accept-Language and Intl formatting, e.g. "de-DE"',
+  },
+  timezoneId: {
+    type: 'string',
+    description: 'IANA time zone, e.g. "Europe/Berlin"',
+  },
+  geolocation: {
+    type: 'object',
+    properties: {
+      latitude: { type: 'number' },
+      longitude: { type: 'number' },
+      accuracy: { type: 'number', description: 'Meters (default: 0)' },
+    },
+    required: ['latitude', 'longitude'],
+    description: 'Position reported to the Geolocation API; the permission is granted automatically',
+  },
+};
+
+const CLOCK_PARAMS = {
+  time: {
+    anyOf: [{ type: 'string' }, { type: 'number' }],
+    description: 'Fake current time: an ISO date such as "2025-12-24T09:00:00+01:00" or milliseconds since the epoch',
+  },
+  mode: {
+    type: 'string',
+    enum: ['fixed', 'advancing', 'paused'],
+    description: 'fixed: Date never moves but timers run; advancing: time flows on from the given time; paused: time and timers only move when advanced (default: fixed)',
+  },
+};
+
+const STORAGE_AREA_PARAMS = {
+  areas: {
+    type: 'array',
+    items: { type: 'string', enum: ['cookies', 'localStorage', 'sessionStorage'] },
+    description: 'Storage areas to include (default: all)',
+  },
+};
+
+// Every tool except the session tools themselves can be pointed at a session
+function withSessionIdParam(tools: any[]): any[] {
+  return tools.map(tool => SESSION_TOOLS.has(tool.name) ? tool : {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        sessionId: {
+          type: 'string',
+          description: 'Session to run in (from open_session); defaults to the shared default session',
+        },
+      },
+    },
+  });
+}
+
 export class MCPServer {
   private server: Server;
-  private driver: PlaywrightDriver;
-  private testRuns: Map<string, TestRun> = new Map();
+  private sessions: SessionManager;
+  private runStorage: RunStorage;
+  private visualStorage: VisualStorage;
   private llmStrategy: LLMStrategy;
   private workflowDecomposer: WorkflowDecomposer;
   private adaptiveExecutor: AdaptiveExecutor;
@@ -56,8 +247,6 @@ export class MCPServer {
   private journeyValidator: JourneyValidator;
   private journeyAnalyzer: JourneyAnalyzer;
   private journeyDiscovery: JourneyDiscovery;
-  private journeyRecorder: JourneyRecorder;
-  private journeyPlayer: JourneyPlayer;
 
   constructor() {
     this.server = new Server(
@@ -72,7 +261,8 @@ export class MCPServer {
       }
     );
 
-    this.driver = new PlaywrightDriver();
+    this.runStorage = new RunStorage();
+    this.visualStorage = new VisualStorage();
 
     // Initialize LLM components
     this.llmStrategy = new LLMStrategy();
@@ -107,17 +297,36 @@ export class MCPServer {
       timeoutMs: 30000
     };
 
-    this.journeyRecorder = new JourneyRecorder(recordingConfig, this.journeyStorage, this.journeyAnalyzer);
-    this.journeyPlayer = new JourneyPlayer(playbackConfig, this.journeyValidator, this.journeyStorage);
+    // Each session gets its own driver, recorder and player; tools reach them through the getters below
+    this.sessions = new SessionManager({
+      createRecorder: () => new JourneyRecorder(recordingConfig, this.journeyStorage, this.journeyAnalyzer),
+      createPlayer: () => new JourneyPlayer(playbackConfig, this.journeyValidator, this.journeyStorage, this.visualStorage)
+    });
 
     this.setupToolHandlers();
   }
 
+  private get driver(): PlaywrightDriver {
+    return this.sessions.current().driver;
+  }
+
+  private get journeyRecorder(): JourneyRecorder {
+    return this.sessions.current().recorder;
+  }
+
+  private get journeyPlayer(): JourneyPlayer {
+    return this.sessions.current().player;
+  }
+
+  private get flowEngine(): FlowEngine {
+    return this.sessions.current().flowEngine;
+  }
+
   private setupToolHandlers(): void {
     // List available tools
     this.server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
-        tools: [
+        tools: withSessionIdParam([
           {
             name: 'navigate',
             description: 'Navigate to a URL and wait for page load',
@@ -134,10 +343,92 @@ export class MCPServer {
                   description: 'Wait condition for navigation',
                   default: 'domcontentloaded',
                 },
+                browser: {
+                  type: 'string',
+                  enum: ['chromium', 'firefox', 'webkit'],
+                  description: 'Browser engine to use; relaunches the browser if it differs from the current one',
+                },
+                device: {
+                  type: 'string',
+                  description: 'Device profile name (e.g. "iPhone 13", "Pixel 7", or a custom profile); see list_devices',
+                },
+                ...PERFORMANCE_PARAMS,
+                ...THROTTLING_PARAMS,
               },
               required: ['url'],
             },
           },
+          {
+            name: 'list_devices',
+            description: 'List device profiles available to navigate, run_flow, record_journey and replay_journey',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                environment: {
+                  type: 'string',
+                  enum: ['desktop', 'mobile', 'tablet'],
+                  description: 'Only list profiles for this kind of device',
+                },
+              },
+            },
+          },
+          {
+            name: 'open_session',
+            description: 'Open an isolated browser session (own cookies, storage, error buffers and journey recorder); pass its sessionId to other tools',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                label: {
+                  type: 'string',
+                  description: 'Human-readable label, e.g. "buyer" or "admin"',
+                },
+                browser: {
+                  type: 'string',
+                  enum: ['chromium', 'firefox', 'webkit'],
+                  description: 'Browser engine for the session (default: UI_PROBE_BROWSER or chromium)',
+                },
+                device: {
+                  type: 'string',
+                  description: 'Device profile for the session (see list_devices)',
+                },
+                dialogPolicy: {
+                  type: 'object',
+                  properties: DIALOG_POLICY_PARAMS,
+                  required: ['action'],
+                  description: 'How the session answers dialogs (see set_dialog_policy)',
+                },
+                ...EMULATION_PARAMS,
+                clock: {
+                  type: 'object',
+                  properties: CLOCK_PARAMS,
+                  required: ['time'],
+                  description: 'Fake clock for the session (see set_clock)',
+                },
+              },
+            },
+          },
+          {
+            name: 'close_session',
+            description: 'Close a session opened with open_session, saving any recording in progress',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sessionId: {
+                  type: 'string',
+                  description: 'ID of the session to close',
+                },
+              },
+              required: ['sessionId'],
+            },
+          },
+          {
+            name: 'list_sessions',
+            description: 'List open browser sessions with their browser, device, current URL and idle time',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+            },
+          },
           {
             name: 'analyze_ui',
             description: 'Analyze UI elements on the current page',
@@ -150,7 +441,30 @@ export class MCPServer {
                   description: 'Scope of analysis',
                   default: 'document',
                 },
+                saveBaseline: {
+                  type: 'string',
+                  description: 'Save the result as a named structural baseline for diff_ui (e.g. "checkout")',
+                },
+              },
+            },
+          },
+          {
+            name: 'diff_ui',
+            description: 'Compare the current page structure with a baseline saved by analyze_ui and report added, removed and changed forms, fields, buttons and landmarks by severity',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                baseline: {
+                  type: 'string',
+                  description: 'Name given to analyze_ui saveBaseline',
+                },
+                failOn: {
+                  type: 'string',
+                  enum: ['high', 'medium', 'low'],
+                  description: 'Lowest change severity that fails the check (default: high)',
+                },
               },
+              required: ['baseline'],
             },
           },
           {
@@ -184,138 +498,643 @@ export class MCPServer {
                   type: 'object',
                   description: 'Override values for specific fields',
                 },
+                recordHar: {
+                  type: 'boolean',
+                  description: 'Record every request and response to a HAR file saved with the run artifacts',
+                },
+                visualCheckpoint: {
+                  type: 'string',
+                  description: 'Compare the page the run ends on with this checkpoint\'s baseline; a mismatch fails the run',
+                },
+                trace: {
+                  type: 'string',
+                  enum: ['off', 'on', 'retain-on-failure'],
+                  description: 'Record a Playwright trace (open with npx playwright show-trace) (default: off)',
+                },
+                video: {
+                  type: 'string',
+                  enum: ['off', 'on', 'retain-on-failure'],
+                  description: 'Record a video (default: off)',
+                },
+                ...PERFORMANCE_PARAMS,
+                ...THROTTLING_PARAMS,
+              },
+              required: ['formSchema'],
+            },
+          },
+          {
+            name: 'run_flow',
+            description: 'Execute complete flow: analyze, infer, fill, and submit',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                goal: {
+                  type: 'string',
+                  description: 'Goal description (e.g., "Sign up a new user")',
+                },
+                url: {
+                  type: 'string',
+                  description: 'URL to navigate to (optional if already on page)',
+                },
+                constraints: {
+                  type: 'object',
+                  description: 'Flow constraints and options',
+                },
+                browser: {
+                  type: 'string',
+                  enum: ['chromium', 'firefox', 'webkit'],
+                  description: 'Browser engine to run the flow in (default: current browser)',
+                },
+                device: {
+                  type: 'string',
+                  description: 'Device profile to run the flow on (default: current device)',
+                },
+                recordHar: {
+                  type: 'boolean',
+                  description: 'Record every request and response to a HAR file saved with the run artifacts',
+                },
+                visualCheckpoint: {
+                  type: 'string',
+                  description: 'Compare the page the run ends on with this checkpoint\'s baseline; a mismatch fails the run',
+                },
+                trace: {
+                  type: 'string',
+                  enum: ['off', 'on', 'retain-on-failure'],
+                  description: 'Record a Playwright trace (open with npx playwright show-trace) (default: off)',
+                },
+                video: {
+                  type: 'string',
+                  enum: ['off', 'on', 'retain-on-failure'],
+                  description: 'Record a video (default: off)',
+                },
+                ...PERFORMANCE_PARAMS,
+                ...THROTTLING_PARAMS,
+              },
+              required: ['goal'],
+            },
+          },
+          {
+            name: 'click_button',
+            description: 'Click a button or link on the page',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                text: {
+                  type: 'string',
+                  description: 'Button text to click (exact or partial match)',
+                },
+                selector: {
+                  type: 'string',
+                  description: 'CSS selector for the button (optional, used if text not provided)',
+                },
+                waitForNavigation: {
+                  type: 'boolean',
+                  description: 'Wait for navigation after click (default: true)',
+                },
+              },
+            },
+          },
+          {
+            name: 'list_tabs',
+            description: 'List the tabs (pages) open in the session, including popups and target=_blank links',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+            },
+          },
+          {
+            name: 'switch_tab',
+            description: 'Make another tab the one tools act on, waiting for it to open if needed',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                index: {
+                  type: 'number',
+                  description: 'Tab index from list_tabs',
+                },
+                url: {
+                  type: 'string',
+                  description: 'Part of the tab URL, or a glob pattern with *',
+                },
+                title: {
+                  type: 'string',
+                  description: 'Part of the tab title',
+                },
+                timeoutMs: {
+                  type: 'number',
+                  description: 'How long to wait for a matching tab (default: 5000)',
+                },
+              },
+            },
+          },
+          {
+            name: 'close_tab',
+            description: 'Close a tab; closing the active tab switches to the newest remaining one',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                index: {
+                  type: 'number',
+                  description: 'Tab index from list_tabs (default: the active tab)',
+                },
+              },
+            },
+          },
+          {
+            name: 'assert_selectors',
+            description: 'Assert presence and properties of page elements',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                assertions: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      selector: { type: 'string' },
+                      exists: { type: 'boolean' },
+                      textMatches: { type: 'string' },
+                      visible: { type: 'boolean' },
+                    },
+                    required: ['selector', 'exists'],
+                  },
+                  description: 'Array of assertions to check',
+                },
+              },
+              required: ['assertions'],
+            },
+          },
+          {
+            name: 'verify_page',
+            description: 'Verify page content and check for 404/error pages',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                expectedContent: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Text that should be present on the page',
+                },
+                unexpectedContent: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Text that should NOT be present (e.g., "404", "Error")',
+                },
+                expectedTitle: {
+                  type: 'string',
+                  description: 'Expected page title (partial match)',
+                },
+                expectedUrl: {
+                  type: 'string',
+                  description: 'Expected URL pattern',
+                },
+              },
+            },
+          },
+          {
+            name: 'collect_errors',
+            description: 'Collect errors from console, network, and validation',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                types: {
+                  type: 'array',
+                  items: {
+                    type: 'string',
+                    enum: ['console', 'network', 'validation', 'accessibility'],
+                  },
+                  description: 'Types of errors to collect',
+                },
+              },
+            },
+          },
+          {
+            name: 'mock_route',
+            description: 'Fake responses for requests matching a URL glob (e.g. 500s, slow or validation-error payloads) until clear_mocks',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                url: {
+                  type: 'string',
+                  description: 'URL glob to intercept, e.g. "**/api/orders*"',
+                },
+                method: {
+                  type: 'string',
+                  description: 'HTTP method to match (default: any)',
+                },
+                status: {
+                  type: 'number',
+                  description: 'Response status (default: 200)',
+                },
+                body: {
+                  description: 'Response body; strings are sent as-is, objects as JSON',
+                },
+                headers: {
+                  type: 'object',
+                  description: 'Response headers',
+                },
+                delayMs: {
+                  type: 'number',
+                  description: 'Delay before responding, to simulate a slow backend',
+                },
+                times: {
+                  type: 'number',
+                  description: 'Only fake this many matching requests, then let them through',
+                },
+                id: {
+                  type: 'string',
+                  description: 'Mock ID; re-using an ID replaces that mock',
+                },
+              },
+              required: ['url'],
+            },
+          },
+          {
+            name: 'clear_mocks',
+            description: 'Remove one or all route mocks and report how many requests each answered',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                mockId: {
+                  type: 'string',
+                  description: 'Mock to remove (default: all)',
+                },
+              },
+            },
+          },
+          {
+            name: 'set_dialog_policy',
+            description: 'Choose how the session answers alert, confirm, prompt and beforeunload dialogs. Every dialog is recorded as a step of the run',
+            inputSchema: {
+              type: 'object',
+              properties: DIALOG_POLICY_PARAMS,
+              required: ['action'],
+            },
+          },
+          {
+            name: 'save_auth_state',
+            description: 'Save the current cookies and localStorage under a name so journeys and later sessions can start logged in',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                name: {
+                  type: 'string',
+                  description: 'Name to save the auth state under (e.g. "admin")',
+                },
+              },
+              required: ['name'],
+            },
+          },
+          {
+            name: 'load_auth_state',
+            description: 'Restore a saved auth state (cookies and localStorage) into the current browser',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                name: {
+                  type: 'string',
+                  description: 'Name of a state saved with save_auth_state',
+                },
+              },
+              required: ['name'],
+            },
+          },
+          {
+            name: 'set_throttling',
+            description: 'Emulate a slow or dropped connection and a slow CPU for the rest of the session. While recording a journey, the change is recorded as a throttle step',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                throttling: {
+                  ...THROTTLING_PARAMS.throttling,
+                  description: '"offline", "slow-3g", "fast-3g", "none" to stop throttling, or custom conditions',
+                },
+              },
+              required: ['throttling'],
+            },
+          },
+          {
+            name: 'set_emulation',
+            description: 'Change the locale, time zone or geolocation of the session; settings not given are kept. Changing locale or time zone reopens the browser context with cookies, storage and the current page carried over',
+            inputSchema: {
+              type: 'object',
+              properties: EMULATION_PARAMS,
+            },
+          },
+          {
+            name: 'set_clock',
+            description: 'Install a controllable fake clock for Date, timers and requestAnimationFrame in every tab of the session, or move an installed one forward',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                ...CLOCK_PARAMS,
+                advanceMs: {
+                  type: 'number',
+                  description: 'Move the clock forward by this many milliseconds (after setting the time, if given); paused clocks fire the timers due on the way',
+                },
+              },
+            },
+          },
+          {
+            name: 'get_storage',
+            description: 'Read the cookies, localStorage and sessionStorage of the current page',
+            inputSchema: {
+              type: 'object',
+              properties: STORAGE_AREA_PARAMS,
+            },
+          },
+          {
+            name: 'set_storage',
+            description: 'Seed cookies, localStorage and sessionStorage for the current origin, e.g. a feature flag or cart before a test',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                cookies: {
+                  type: 'array',
+                  description: 'Cookies to set; without domain or path a cookie applies to the whole current origin',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      name: { type: 'string' },
+                      value: { type: 'string' },
+                      domain: { type: 'string' },
+                      path: { type: 'string' },
+                      expires: { type: 'number', description: 'Unix time in seconds (default: session cookie)' },
+                      httpOnly: { type: 'boolean' },
+                      secure: { type: 'boolean' },
+                      sameSite: { type: 'string', enum: ['Strict', 'Lax', 'None'] },
+                    },
+                    required: ['name', 'value'],
+                  },
+                },
+                localStorage: {
+                  type: 'object',
+                  description: 'Items to set; non-string values are stored as JSON',
+                },
+                sessionStorage: {
+                  type: 'object',
+                  description: 'Items to set; non-string values are stored as JSON',
+                },
+                reload: {
+                  type: 'boolean',
+                  description: 'Reload the page so it reads the new values (default: false)',
+                },
+              },
+            },
+          },
+          {
+            name: 'clear_storage',
+            description: 'Remove cookies, localStorage and sessionStorage items of the current page',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                ...STORAGE_AREA_PARAMS,
+                keys: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Cookie names or storage keys to remove (default: all)',
+                },
+              },
+            },
+          },
+          {
+            name: 'list_downloads',
+            description: 'List files downloaded in the session, e.g. by export buttons, with where they were saved',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+            },
+          },
+          {
+            name: 'verify_download',
+            description: 'Assert the filename, size, MIME type and content of a downloaded file',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                downloadId: {
+                  type: 'string',
+                  description: 'Download to check, from list_downloads (default: the newest)',
+                },
+                timeoutMs: {
+                  type: 'number',
+                  description: 'How long to wait for a download to start when there is none yet (default: 10000)',
+                },
+                filename: {
+                  type: 'string',
+                  description: 'Expected filename, * matches anything (e.g. "orders-*.csv")',
+                },
+                mimeType: {
+                  type: 'string',
+                  description: 'Expected MIME type from the file extension, e.g. "text/csv" or "image/*"',
+                },
+                minBytes: { type: 'number' },
+                maxBytes: { type: 'number' },
+                csv: {
+                  type: 'object',
+                  properties: {
+                    rows: { type: 'number', description: 'Exact number of data rows, excluding the header' },
+                    minRows: { type: 'number' },
+                    maxRows: { type: 'number' },
+                    columns: { type: 'array', items: { type: 'string' }, description: 'Header names that must be present' },
+                    delimiter: { type: 'string', description: 'Field delimiter (default: ",")' },
+                    header: { type: 'boolean', description: 'Whether the first row is a header (default: true)' },
+                  },
+                },
+                json: {
+                  type: 'array',
+                  description: 'Checks on the parsed JSON file, with the operators of storage checks, e.g. { "path": "orders.length", "gte": 1 }',
+                  items: { type: 'object' },
+                },
+                textContains: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Text the file must contain',
+                },
+              },
+            },
+          },
+          {
+            name: 'visual_checkpoint',
+            description: 'Screenshot the current page and compare it with the approved baseline of a named checkpoint',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                name: {
+                  type: 'string',
+                  description: 'Checkpoint name (e.g. "checkout/summary")',
+                },
+                ...VISUAL_OPTION_PARAMS,
+              },
+              required: ['name'],
+            },
+          },
+          {
+            name: 'approve_baseline',
+            description: 'Accept a screenshot as the visual baseline: a pending diff from list_visual_diffs, or the current page for a named checkpoint',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                diffId: {
+                  type: 'string',
+                  description: 'Pending diff to accept; its screenshot becomes the baseline',
+                },
+                name: {
+                  type: 'string',
+                  description: 'Checkpoint to set from the current page, when no diffId is given (journey steps are <journeyId>/<stepId>)',
+                },
+                ...VISUAL_OPTION_PARAMS,
+              },
+            },
+          },
+          {
+            name: 'list_visual_diffs',
+            description: 'List visual checks that differed from their baseline or had none, with paths to the actual, baseline and diff images',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                status: {
+                  type: 'string',
+                  enum: ['pending', 'approved'],
+                  description: 'Only list diffs with this status (default: pending)',
+                },
+                name: {
+                  type: 'string',
+                  description: 'Only list checkpoints whose name starts with this, e.g. a journey ID',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of diffs to return (default: 50)',
+                },
               },
-              required: ['formSchema'],
             },
           },
           {
-            name: 'run_flow',
-            description: 'Execute complete flow: analyze, infer, fill, and submit',
+            name: 'export_report',
+            description: 'Export test run report in specified format',
             inputSchema: {
               type: 'object',
               properties: {
-                goal: {
+                runId: {
                   type: 'string',
-                  description: 'Goal description (e.g., "Sign up a new user")',
+                  description: 'Test run ID or journey executionId to export',
                 },
-                url: {
+                format: {
                   type: 'string',
-                  description: 'URL to navigate to (optional if already on page)',
+                  enum: ['json', 'junit', 'allure', 'html', 'sarif', 'ctrf'],
+                  description: 'Export format',
                 },
-                constraints: {
-                  type: 'object',
-                  description: 'Flow constraints and options',
+                outputPath: {
+                  type: 'string',
+                  description: 'File path (html) or results directory (allure) to write to (default: /tmp)',
                 },
               },
-              required: ['goal'],
+              required: ['runId', 'format'],
             },
           },
+          // Run History Tools
           {
-            name: 'click_button',
-            description: 'Click a button or link on the page',
+            name: 'list_runs',
+            description: 'List stored test runs with optional filtering',
             inputSchema: {
               type: 'object',
               properties: {
-                text: {
+                url: {
                   type: 'string',
-                  description: 'Button text to click (exact or partial match)',
+                  description: 'Filter by target URL (substring match)',
                 },
-                selector: {
+                result: {
                   type: 'string',
-                  description: 'CSS selector for the button (optional, used if text not provided)',
+                  enum: ['passed', 'passed_with_warnings', 'failed'],
+                  description: 'Filter by run result',
                 },
-                waitForNavigation: {
-                  type: 'boolean',
-                  description: 'Wait for navigation after click (default: true)',
+                from: {
+                  type: 'string',
+                  description: 'Only runs started at or after this ISO date',
+                },
+                to: {
+                  type: 'string',
+                  description: 'Only runs started at or before this ISO date',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of runs to return (default: 50)',
+                },
+                offset: {
+                  type: 'number',
+                  description: 'Number of runs to skip (default: 0)',
                 },
               },
             },
           },
           {
-            name: 'assert_selectors',
-            description: 'Assert presence and properties of page elements',
+            name: 'get_run',
+            description: 'Get a stored test run with its steps, errors and artifacts',
             inputSchema: {
               type: 'object',
               properties: {
-                assertions: {
-                  type: 'array',
-                  items: {
-                    type: 'object',
-                    properties: {
-                      selector: { type: 'string' },
-                      exists: { type: 'boolean' },
-                      textMatches: { type: 'string' },
-                      visible: { type: 'boolean' },
-                    },
-                    required: ['selector', 'exists'],
-                  },
-                  description: 'Array of assertions to check',
+                runId: {
+                  type: 'string',
+                  description: 'ID of the test run to retrieve',
                 },
               },
-              required: ['assertions'],
+              required: ['runId'],
             },
           },
           {
-            name: 'verify_page',
-            description: 'Verify page content and check for 404/error pages',
+            name: 'delete_runs',
+            description: 'Delete stored test runs by ID or by filter',
             inputSchema: {
               type: 'object',
               properties: {
-                expectedContent: {
+                runIds: {
                   type: 'array',
                   items: { type: 'string' },
-                  description: 'Text that should be present on the page',
+                  description: 'IDs of the test runs to delete',
                 },
-                unexpectedContent: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Text that should NOT be present (e.g., "404", "Error")',
+                url: {
+                  type: 'string',
+                  description: 'Delete runs whose target URL contains this value',
                 },
-                expectedTitle: {
+                result: {
                   type: 'string',
-                  description: 'Expected page title (partial match)',
+                  enum: ['passed', 'passed_with_warnings', 'failed'],
+                  description: 'Delete runs with this result',
                 },
-                expectedUrl: {
+                from: {
                   type: 'string',
-                  description: 'Expected URL pattern',
+                  description: 'Delete runs started at or after this ISO date',
                 },
-              },
-            },
-          },
-          {
-            name: 'collect_errors',
-            description: 'Collect errors from console, network, and validation',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                types: {
-                  type: 'array',
-                  items: {
-                    type: 'string',
-                    enum: ['console', 'network', 'validation'],
-                  },
-                  description: 'Types of errors to collect',
+                to: {
+                  type: 'string',
+                  description: 'Delete runs started at or before this ISO date',
                 },
               },
             },
           },
           {
-            name: 'export_report',
-            description: 'Export test run report in specified format',
+            name: 'compare_runs',
+            description: 'Compare two stored test runs and report form, step, latency, error and result differences',
             inputSchema: {
               type: 'object',
               properties: {
-                runId: {
+                baselineRunId: {
                   type: 'string',
-                  description: 'Test run ID to export',
+                  description: 'Run to compare against (e.g. before a deploy)',
                 },
-                format: {
+                candidateRunId: {
                   type: 'string',
-                  enum: ['json', 'junit', 'allure'],
-                  description: 'Export format',
+                  description: 'Run to check for changes (e.g. after a deploy)',
+                },
+                latencyThresholdMs: {
+                  type: 'number',
+                  description: 'Minimum per-step slowdown in ms to report as a regression (default: 500)',
+                },
+                latencyThresholdPercent: {
+                  type: 'number',
+                  description: 'Minimum per-step slowdown in percent to report as a regression (default: 20)',
                 },
               },
-              required: ['runId', 'format'],
+              required: ['baselineRunId', 'candidateRunId'],
             },
           },
           // Journey Recording and Replay Tools
@@ -338,6 +1157,14 @@ export class MCPServer {
                   items: { type: 'string' },
                   description: 'Optional tags for the journey',
                 },
+                device: {
+                  type: 'string',
+                  description: 'Device profile to record on; stored with the journey and used on replay',
+                },
+                authState: {
+                  type: 'string',
+                  description: 'Saved auth state to restore before recording; replays restore it too',
+                },
               },
             },
           },
@@ -389,6 +1216,44 @@ export class MCPServer {
                   type: 'boolean',
                   description: 'Whether to continue on non-critical errors (default: true)',
                 },
+                browser: {
+                  type: 'string',
+                  enum: ['chromium', 'firefox', 'webkit'],
+                  description: 'Browser engine to replay in; successful replays are added to the journey browserCompatibility',
+                },
+                device: {
+                  type: 'string',
+                  description: 'Device profile to replay on (default: the journey device, or one matching its environment)',
+                },
+                recordHar: {
+                  type: 'boolean',
+                  description: 'Record every request and response to a HAR file saved with the execution',
+                },
+                visual: {
+                  type: 'boolean',
+                  description: 'Compare a screenshot after every step with its baseline (steps with visualCheck are always compared)',
+                },
+                trace: {
+                  type: 'string',
+                  enum: ['off', 'on', 'retain-on-failure'],
+                  description: 'Record a Playwright trace (open with npx playwright show-trace) (default: off)',
+                },
+                video: {
+                  type: 'string',
+                  enum: ['off', 'on', 'retain-on-failure'],
+                  description: 'Record a video (default: off)',
+                },
+                replayHar: {
+                  type: 'string',
+                  description: 'Serve network traffic from a HAR file path, or from the HAR stored with a run or execution ID',
+                },
+                harNotFound: {
+                  type: 'string',
+                  enum: ['abort', 'fallback'],
+                  description: 'With replayHar: abort requests missing from the HAR (default, fully offline) or let them reach the network',
+                },
+                ...PERFORMANCE_PARAMS,
+                ...THROTTLING_PARAMS,
               },
               required: ['journeyId'],
             },
@@ -563,7 +1428,7 @@ export class MCPServer {
               required: ['journeyId'],
             },
           },
-        ],
+        ]),
       };
     });
 
@@ -574,146 +1439,280 @@ export class MCPServer {
       try {
         logger.info('Tool called', { toolName: name, args });
 
-        let result: MCPToolResult;
+        // Session tools take sessionId as their own argument and always run in the default session
+        const sessionId = SESSION_TOOLS.has(name) ? undefined : (args as any)?.sessionId;
+        const result = await this.sessions.run(sessionId, () => this.callTool(name, args));
+
+        logger.info('Tool completed successfully', { toolName: name, success: result.success });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error('Tool execution failed', { toolName: name, error });
+
+        const errorResult: MCPToolResult = {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
 
-        switch (name) {
-          case 'navigate':
-            result = await this.handleNavigate(args as any);
-            break;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(errorResult, null, 2),
+            },
+          ],
+        };
+      }
+    });
+  }
 
-          case 'analyze_ui':
-            result = await this.handleAnalyzeUI(args as any);
-            break;
+  private async callTool(name: string, args: any): Promise<MCPToolResult> {
+    let result: MCPToolResult;
 
-          case 'infer_form':
-            result = await this.handleInferForm(args as any);
-            break;
+    switch (name) {
+      case 'navigate':
+        result = await this.handleNavigate(args as any);
+        break;
 
-          case 'fill_and_submit':
-            result = await this.handleFillAndSubmit(args as any);
-            break;
+      case 'list_devices':
+        result = await this.handleListDevices(args as any);
+        break;
 
-          case 'run_flow':
-            result = await this.handleRunFlow(args as any);
-            break;
+      case 'open_session':
+        result = await this.handleOpenSession(args as any);
+        break;
 
-          case 'verify_page':
-            result = await this.handleVerifyPage(args as any);
-            break;
+      case 'close_session':
+        result = await this.handleCloseSession(args as any);
+        break;
 
-          case 'assert_selectors':
-            result = await this.handleAssertSelectors(args as any);
-            break;
+      case 'list_sessions':
+        result = await this.handleListSessions(args as any);
+        break;
 
-          case 'collect_errors':
-            result = await this.handleCollectErrors(args as any);
-            break;
+      case 'analyze_ui':
+        result = await this.handleAnalyzeUI(args as any);
+        break;
 
-          case 'click_button':
-            result = await this.handleClickButton(args as any);
-            break;
+      case 'diff_ui':
+        result = await this.handleDiffUI(args as any);
+        break;
 
-          case 'export_report':
-            result = await this.handleExportReport(args as any);
-            break;
+      case 'infer_form':
+        result = await this.handleInferForm(args as any);
+        break;
 
-          // Journey system tools
-          case 'record_journey':
-            result = await this.handleRecordJourney(args as any);
-            break;
+      case 'fill_and_submit':
+        result = await this.handleFillAndSubmit(args as any);
+        break;
 
-          case 'stop_recording':
-            result = await this.handleStopRecording(args as any);
-            break;
+      case 'run_flow':
+        result = await this.handleRunFlow(args as any);
+        break;
 
-          case 'pause_recording':
-            result = await this.handlePauseRecording(args as any);
-            break;
+      case 'verify_page':
+        result = await this.handleVerifyPage(args as any);
+        break;
 
-          case 'resume_recording':
-            result = await this.handleResumeRecording(args as any);
-            break;
+      case 'assert_selectors':
+        result = await this.handleAssertSelectors(args as any);
+        break;
 
-          case 'replay_journey':
-            result = await this.handleReplayJourney(args as any);
-            break;
+      case 'collect_errors':
+        result = await this.handleCollectErrors(args as any);
+        break;
 
-          case 'pause_playback':
-            result = await this.handlePausePlayback(args as any);
-            break;
+      case 'click_button':
+        result = await this.handleClickButton(args as any);
+        break;
 
-          case 'resume_playback':
-            result = await this.handleResumePlayback(args as any);
-            break;
+      case 'list_tabs':
+        result = await this.handleListTabs();
+        break;
 
-          case 'stop_playback':
-            result = await this.handleStopPlayback(args as any);
-            break;
+      case 'switch_tab':
+        result = await this.handleSwitchTab(args as any);
+        break;
 
-          case 'list_journeys':
-            result = await this.handleListJourneys(args as any);
-            break;
+      case 'close_tab':
+        result = await this.handleCloseTab(args as any);
+        break;
 
-          case 'search_journeys':
-            result = await this.handleSearchJourneys(args as any);
-            break;
+      case 'mock_route':
+        result = await this.handleMockRoute(args as any);
+        break;
 
-          case 'get_journey':
-            result = await this.handleGetJourney(args as any);
-            break;
+      case 'clear_mocks':
+        result = await this.handleClearMocks(args as any);
+        break;
 
-          case 'delete_journey':
-            result = await this.handleDeleteJourney(args as any);
-            break;
+      case 'set_dialog_policy':
+        result = await this.handleSetDialogPolicy(args as any);
+        break;
 
-          case 'discover_journeys':
-            result = await this.handleDiscoverJourneys(args as any);
-            break;
+      case 'save_auth_state':
+        result = await this.handleSaveAuthState(args as any);
+        break;
 
-          case 'analyze_journey':
-            result = await this.handleAnalyzeJourney(args as any);
-            break;
+      case 'load_auth_state':
+        result = await this.handleLoadAuthState(args as any);
+        break;
 
-          case 'validate_journey':
-            result = await this.handleValidateJourney(args as any);
-            break;
+      case 'set_throttling':
+        result = await this.handleSetThrottling(args as any);
+        break;
 
-          default:
-            throw new MCPUIError(`Unknown tool: ${name}`, 'E_UNKNOWN_TOOL');
-        }
+      case 'set_emulation':
+        result = await this.handleSetEmulation(args as any);
+        break;
 
-        logger.info('Tool completed successfully', { toolName: name, success: result.success });
+      case 'set_clock':
+        result = await this.handleSetClock(args as any);
+        break;
+
+      case 'get_storage':
+        result = await this.handleGetStorage(args as any);
+        break;
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      } catch (error) {
-        logger.error('Tool execution failed', { toolName: name, error });
+      case 'set_storage':
+        result = await this.handleSetStorage(args as any);
+        break;
 
-        const errorResult: MCPToolResult = {
-          success: false,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        };
+      case 'clear_storage':
+        result = await this.handleClearStorage(args as any);
+        break;
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(errorResult, null, 2),
-            },
-          ],
-        };
-      }
-    });
+      case 'list_downloads':
+        result = await this.handleListDownloads(args as any);
+        break;
+
+      case 'verify_download':
+        result = await this.handleVerifyDownload(args as any);
+        break;
+
+      case 'visual_checkpoint':
+        result = await this.handleVisualCheckpoint(args as any);
+        break;
+
+      case 'approve_baseline':
+        result = await this.handleApproveBaseline(args as any);
+        break;
+
+      case 'list_visual_diffs':
+        result = await this.handleListVisualDiffs(args as any);
+        break;
+
+      case 'export_report':
+        result = await this.handleExportReport(args as any);
+        break;
+
+      case 'list_runs':
+        result = await this.handleListRuns(args as any);
+        break;
+
+      case 'get_run':
+        result = await this.handleGetRun(args as any);
+        break;
+
+      case 'delete_runs':
+        result = await this.handleDeleteRuns(args as any);
+        break;
+
+      case 'compare_runs':
+        result = await this.handleCompareRuns(args as any);
+        break;
+
+      // Journey system tools
+      case 'record_journey':
+        result = await this.handleRecordJourney(args as any);
+        break;
+
+      case 'stop_recording':
+        result = await this.handleStopRecording(args as any);
+        break;
+
+      case 'pause_recording':
+        result = await this.handlePauseRecording(args as any);
+        break;
+
+      case 'resume_recording':
+        result = await this.handleResumeRecording(args as any);
+        break;
+
+      case 'replay_journey':
+        result = await this.handleReplayJourney(args as any);
+        break;
+
+      case 'pause_playback':
+        result = await this.handlePausePlayback(args as any);
+        break;
+
+      case 'resume_playback':
+        result = await this.handleResumePlayback(args as any);
+        break;
+
+      case 'stop_playback':
+        result = await this.handleStopPlayback(args as any);
+        break;
+
+      case 'list_journeys':
+        result = await this.handleListJourneys(args as any);
+        break;
+
+      case 'search_journeys':
+        result = await this.handleSearchJourneys(args as any);
+        break;
+
+      case 'get_journey':
+        result = await this.handleGetJourney(args as any);
+        break;
+
+      case 'delete_journey':
+        result = await this.handleDeleteJourney(args as any);
+        break;
+
+      case 'discover_journeys':
+        result = await this.handleDiscoverJourneys(args as any);
+        break;
+
+      case 'analyze_journey':
+        result = await this.handleAnalyzeJourney(args as any);
+        break;
+
+      case 'validate_journey':
+        result = await this.handleValidateJourney(args as any);
+        break;
+
+      default:
+        throw new MCPUIError(`Unknown tool: ${name}`, 'E_UNKNOWN_TOOL');
+    }
+
+    return result;
   }
 
   private async handleNavigate(params: NavigateParams): Promise<MCPToolResult> {
+    let ownsPerformanceCapture = false;
+    let restoreThrottling: (() => Promise<void>) | undefined;
+
     try {
+      if (params.browser) {
+        await this.driver.useBrowser(params.browser);
+      }
+      if (params.device) {
+        await this.driver.useDevice(deviceProfiles.resolve(params.device));
+      }
+      restoreThrottling = await this.applyCallThrottling(params);
+
+      // Within run_flow the flow's own capture already covers this navigation
+      ownsPerformanceCapture = !this.driver.isCapturingPerformance() && await this.startPerformanceCapture(params);
+
       // Navigate and capture response
       const response = await this.driver.navigateWithResponse(params.url, params.waitUntil);
       const page = await this.driver.getPage();
@@ -753,7 +1752,13 @@ export class MCPServer {
       const isEmpty = pageText.trim().length < 100;
       const isError = isHTTPError || pageTitle.toLowerCase().includes('error');
 
-      const success = !is404Page && !isHTTPError && !isEmpty;
+      let performance: { vitals?: PageVitals; budgetViolations: BudgetViolation[] } | undefined;
+      if (ownsPerformanceCapture) {
+        const { pages, violations } = await this.finishPerformanceCapture();
+        performance = { vitals: pages[pages.length - 1], budgetViolations: violations };
+      }
+
+      const success = !is404Page && !isHTTPError && !isEmpty && !performance?.budgetViolations.length;
 
       return {
         success,
@@ -761,13 +1766,18 @@ export class MCPServer {
           ok: success,
           currentUrl,
           pageTitle,
+          browser: this.driver.getBrowserName(),
+          device: this.driver.getDeviceProfile().name,
+          ...(this.driver.getThrottling() ? { throttling: this.driver.getThrottling() } : {}),
           httpStatus,
           is404Page,
           isError,
           isEmpty,
           warning: is404Page ? `Page appears to be a 404 error (HTTP ${httpStatus}, indicators: ${indicatorCount})` :
                    isHTTPError ? `HTTP Error ${httpStatus}` :
-                   isEmpty ? 'Page appears to be empty' : undefined,
+                   isEmpty ? 'Page appears to be empty' :
+                   performance?.budgetViolations.length ? `${performance.budgetViolations.length} performance budget(s) exceeded` : undefined,
+          ...(performance ? { performance } : {}),
         },
       };
     } catch (error) {
@@ -787,16 +1797,115 @@ export class MCPServer {
         enhanced.userFriendlyMessage,
         new Error(formattedError)
       );
+    } finally {
+      if (ownsPerformanceCapture) {
+        await this.driver.cancelPerformanceCapture();
+      }
+      await restoreThrottling?.();
+    }
+  }
+
+  private async handleListDevices(params: any): Promise<MCPToolResult> {
+    try {
+      const profiles = deviceProfiles.list()
+        .filter(profile => !params.environment || environmentOf(profile) === params.environment);
+
+      return {
+        success: true,
+        data: {
+          current: this.driver.getDeviceProfile().name,
+          devices: profiles.map(profile => ({
+            name: profile.name,
+            environment: environmentOf(profile),
+            viewport: `${profile.viewport.width}x${profile.viewport.height}`,
+            deviceScaleFactor: profile.deviceScaleFactor,
+            isMobile: profile.isMobile,
+            hasTouch: profile.hasTouch
+          })),
+          count: profiles.length
+        }
+      };
+    } catch (error) {
+      throw new MCPUIError('Failed to list devices', 'E_LIST_DEVICES', error);
+    }
+  }
+
+  private async handleOpenSession(params: any): Promise<MCPToolResult> {
+    try {
+      const session = await this.sessions.open({
+        label: params.label,
+        browser: params.browser,
+        device: params.device,
+        dialogPolicy: params.dialogPolicy,
+        locale: params.locale,
+        timezoneId: params.timezoneId,
+        geolocation: params.geolocation,
+        clock: params.clock
+      });
+
+      return {
+        success: true,
+        data: {
+          sessionId: session.id,
+          label: session.label,
+          browser: session.driver.getBrowserName(),
+          device: session.driver.getDeviceProfile().name,
+          dialogPolicy: session.driver.getDialogPolicy(),
+          emulation: session.driver.getEmulation(),
+          clock: session.driver.getClock()
+        }
+      };
+    } catch (error) {
+      if (error instanceof MCPUIError) throw error;
+      throw new MCPUIError('Failed to open session', 'E_OPEN_SESSION', error);
     }
   }
 
-  private async handleAnalyzeUI(_params: AnalyzeUIParams): Promise<MCPToolResult> {
+  private async handleCloseSession(params: any): Promise<MCPToolResult> {
+    await this.sessions.close(params.sessionId);
+
+    return {
+      success: true,
+      data: { sessionId: params.sessionId, closed: true }
+    };
+  }
+
+  private async handleListSessions(_params: any): Promise<MCPToolResult> {
+    const sessions = this.sessions.list();
+
+    return {
+      success: true,
+      data: {
+        sessions,
+        count: sessions.length
+      }
+    };
+  }
+
+  private async handleAnalyzeUI(params: AnalyzeUIParams): Promise<MCPToolResult> {
     try {
       const analysis = await this.driver.snapshot();
+      const accessibility = await this.runAccessibilityAudit();
+
+      let baseline;
+      if (params.saveBaseline) {
+        const page = await this.driver.getPage();
+        const saved = await this.visualStorage.saveStructure({
+          name: params.saveBaseline,
+          url: page.url(),
+          variant: this.currentVisualVariant(),
+          analysis
+        });
+        baseline = { name: saved.name, savedAt: saved.savedAt };
+      }
 
       return {
         success: true,
-        data: analysis,
+        data: {
+          ...analysis,
+          accessibility,
+          ...(baseline ? { baseline } : {}),
+        },
       };
     } catch (error) {
       const page = await this.driver.getPage().catch(() => null);
@@ -812,6 +1921,35 @@ export class MCPServer {
     }
   }
 
+  private async handleDiffUI(params: any): Promise<MCPToolResult> {
+    try {
+      const baseline = await this.visualStorage.loadStructure(params.baseline);
+      if (!baseline) {
+        throw new MCPUIError(`UI baseline not found: ${params.baseline}`, 'E_UI_BASELINE_NOT_FOUND');
+      }
+
+      const page = await this.driver.getPage();
+      const current = await this.driver.snapshot();
+      const diff = diffUI(baseline, current, { currentUrl: page.url(), failOn: params.failOn });
+
+      // Responsive layouts legitimately differ between devices
+      const variant = this.currentVisualVariant();
+
+      return {
+        success: diff.passed,
+        data: {
+          ...diff,
+          ...(baseline.variant !== variant ? { warning: `Baseline was saved on ${baseline.variant}, current page is ${variant}` } : {})
+        }
+      };
+    } catch (error) {
+      if (error instanceof MCPUIError && error.code === 'E_UI_BASELINE_NOT_FOUND') {
+        throw error;
+      }
+      throw new MCPUIError('Failed to diff UI', 'E_DIFF_UI', error);
+    }
+  }
+
   private async handleInferForm(params: InferFormParams): Promise<MCPToolResult> {
     try {
       const analysis = await this.driver.snapshot();
@@ -830,16 +1968,25 @@ export class MCPServer {
   }
 
   private async handleFillAndSubmit(params: FillAndSubmitParams): Promise<MCPToolResult> {
+    let restoreThrottling: (() => Promise<void>) | undefined;
+
     try {
+      await this.driver.startArtifactCapture({ trace: params.trace, video: params.video });
+      if (params.recordHar) {
+        await this.driver.startHarCapture();
+      }
+      await this.startPerformanceCapture(params);
+      restoreThrottling = await this.applyCallThrottling(params);
+
       const page = await this.driver.getPage();
-      const testRun = await flowEngine.executeFlow(
+      const testRun = await this.flowEngine.executeFlow(
         page,
         params.formSchema,
         params.overrides
       );
 
       // Store test run for later retrieval
-      this.testRuns.set(testRun.runId, testRun);
+      await this.storeTestRun(testRun, params.visualCheckpoint);
 
       return {
         success: true,
@@ -847,12 +1994,19 @@ export class MCPServer {
       };
     } catch (error) {
       throw new MCPUIError('Fill and submit failed', 'E_FILL_SUBMIT', error);
+    } finally {
+      await this.driver.cancelHarCapture();
+      await this.driver.cancelPerformanceCapture();
+      await this.driver.discardArtifactCapture();
+      await restoreThrottling?.();
     }
   }
 
   private async handleClickButton(params: any): Promise<MCPToolResult> {
     try {
       const page = await this.driver.getPage();
+      const clickedAt = new Date();
+      const knownPages = this.driver.getOpenPages();
       let buttonClicked = false;
       let selector = '';
       let clickMethod = 'playwright';
@@ -1027,14 +2181,22 @@ export class MCPServer {
         );
       }
 
+      // A confirm() behind the button is answered by the session's dialog policy
+      const dialogs = this.driver.getDialogs(clickedAt);
+
+      // Popups and target=_blank links become the active tab, as they would for a user
+      const openedTab = await this.driver.followNewTab(knownPages);
+
       return {
-        success: true,
+        success: !dialogs.some(dialog => dialog.response === 'failed'),
         data: {
           clicked: true,
           selector,
           clickMethod,
           currentUrl: page.url(),
           pageTitle: await page.title(),
+          ...(dialogs.length > 0 ? { dialogs } : {}),
+          ...(openedTab ? { openedTab } : {}),
         },
       };
     } catch (error) {
@@ -1046,6 +2208,43 @@ export class MCPServer {
     }
   }
 
+  private async handleListTabs(): Promise<MCPToolResult> {
+    const tabs = await this.driver.listTabs();
+
+    return {
+      success: true,
+      data: { tabs }
+    };
+  }
+
+  private async handleSwitchTab(params: any): Promise<MCPToolResult> {
+    if (params.index === undefined && !params.url && !params.title) {
+      throw new MCPUIError('switch_tab needs an index, url or title', 'E_VALIDATION');
+    }
+
+    const tab = await this.driver.switchTab(
+      { index: params.index, url: params.url, title: params.title },
+      params.timeoutMs
+    );
+
+    // A recording follows the session into the tab
+    await this.journeyRecorder.followTab(await this.driver.getPage());
+
+    return {
+      success: true,
+      data: { tab }
+    };
+  }
+
+  private async handleCloseTab(params: any): Promise<MCPToolResult> {
+    const tabs = await this.driver.closeTab(params.index);
+
+    return {
+      success: true,
+      data: { tabs }
+    };
+  }
+
   private async performReactClick(page: any, element: any, waitForNavigation?: boolean): Promise<void> {
     try {
       // First ensure element is in viewport
@@ -1214,8 +2413,22 @@ export class MCPServer {
   private async handleRunFlow(params: RunFlowParams): Promise<MCPToolResult> {
     const errors: any[] = [];
     const steps: any[] = [];
+    let restoreThrottling: (() => Promise<void>) | undefined;
 
     try {
+      if (params.browser) {
+        await this.driver.useBrowser(params.browser);
+      }
+      if (params.device) {
+        await this.driver.useDevice(deviceProfiles.resolve(params.device));
+      }
+      await this.driver.startArtifactCapture({ trace: params.trace, video: params.video });
+      if (params.recordHar) {
+        await this.driver.startHarCapture();
+      }
+      await this.startPerformanceCapture(params);
+      restoreThrottling = await this.applyCallThrottling(params);
+
       // Use LLM to parse the natural language goal, fall back to regex if no API key
       const parsedGoal = await this.llmStrategy.parseGoal(params.goal);
       logger.info('Parsed goal with LLM', { parsedGoal });
@@ -1344,14 +2557,14 @@ export class MCPServer {
         // Step 5: Execute flow
         steps.push({ step: 'execute', status: 'starting' });
         const page = await this.driver.getPage();
-        const testRun = await flowEngine.executeFlow(
+        const testRun = await this.flowEngine.executeFlow(
           page,
           inference.formSchema,
           parsedGoal.constraints
         );
 
         // Store test run
-        this.testRuns.set(testRun.runId, testRun);
+        await this.storeTestRun(testRun, params.visualCheckpoint);
 
         steps.push({ step: 'execute', status: 'completed', runId: testRun.runId });
 
@@ -1394,6 +2607,9 @@ export class MCPServer {
         const isValid = verifyResult.success !== false;
         steps.push({ step: 'verify', status: isValid ? 'passed' : 'failed', result: verifyResult });
 
+        const accessibility = await this.runAccessibilityAudit();
+        steps.push({ step: 'accessibility', status: accessibility?.summary.total ? 'failed' : 'passed', violations: accessibility?.summary.total ?? 0 });
+
         return {
           success: isValid,
           data: {
@@ -1401,6 +2617,7 @@ export class MCPServer {
             parsedGoal,
             steps,
             verifyResult,
+            accessibility,
             errors: verifyResult.failures || []
           }
         };
@@ -1431,14 +2648,14 @@ export class MCPServer {
       // Execute flow
       steps.push({ step: 'execute', status: 'starting' });
       const page = await this.driver.getPage();
-      const testRun = await flowEngine.executeFlow(
+      const testRun = await this.flowEngine.executeFlow(
         page,
         inference.formSchema,
         undefined
       );
 
       // Store test run
-      this.testRuns.set(testRun.runId, testRun);
+      await this.storeTestRun(testRun, params.visualCheckpoint);
 
       steps.push({ step: 'execute', status: 'completed', runId: testRun.runId });
 
@@ -1456,7 +2673,9 @@ export class MCPServer {
         message: error instanceof Error ? error.message : String(error),
         steps,
         errors,
-        lastStep: steps[steps.length - 1]
+        lastStep: steps[steps.length - 1],
+        // No TestRun to attach them to, so failure traces/videos are returned with the error
+        artifacts: await this.driver.finishArtifactCapture(`flow-${Date.now()}`, true)
       };
 
       throw new MCPUIError(
@@ -1464,6 +2683,12 @@ export class MCPServer {
         'E_FLOW_EXECUTION',
         errorDetails
       );
+    } finally {
+      // Paths that don't produce a TestRun have nowhere to store the HAR, trace, video or vitals
+      await this.driver.cancelHarCapture();
+      await this.driver.cancelPerformanceCapture();
+      await this.driver.discardArtifactCapture();
+      await restoreThrottling?.();
     }
   }
 
@@ -1551,113 +2776,528 @@ export class MCPServer {
         );
       }
 
-      if (types.includes('network')) {
-        const networkErrors = await this.driver.collectNetworkErrors();
-        errors.push(
-          ...networkErrors.map(error => ({
-            type: 'network' as const,
-            message: `${error.status} ${error.statusText}`,
-            code: 'E_NETWORK',
-            evidence: {
-              request: {
-                method: 'GET',
-                url: error.url,
-                status: error.status,
-              },
-            },
-            timestamp: error.timestamp,
-          }))
-        );
-      }
+      if (types.includes('network')) {
+        const networkErrors = await this.driver.collectNetworkErrors();
+        errors.push(
+          ...networkErrors.map(error => ({
+            type: 'network' as const,
+            message: `${error.status} ${error.statusText}`,
+            code: 'E_NETWORK',
+            evidence: {
+              request: {
+                method: 'GET',
+                url: error.url,
+                status: error.status,
+              },
+            },
+            timestamp: error.timestamp,
+          }))
+        );
+      }
+
+      if (types.includes('validation')) {
+        // Validation errors would be collected during form execution
+        // This is a placeholder for standalone validation error collection
+        const page = await this.driver.getPage();
+        const validationErrors = await this.collectPageValidationErrors(page);
+        errors.push(...validationErrors);
+      }
+
+      if (types.includes('accessibility')) {
+        const audit = await this.runAccessibilityAudit();
+        if (audit) {
+          errors.push(...toAccessibilityErrors(audit));
+        }
+      }
+
+      return {
+        success: true,
+        data: {
+          errors,
+        },
+      };
+    } catch (error) {
+      throw new MCPUIError('Error collection failed', 'E_COLLECT_ERRORS', error);
+    }
+  }
+
+  private async runAccessibilityAudit(): Promise<AccessibilityAuditResult | undefined> {
+    try {
+      const page = await this.driver.getPage();
+      return await auditAccessibility(page);
+    } catch (error) {
+      logger.warn('Accessibility audit failed', { error });
+      return undefined;
+    }
+  }
+
+  private async collectPageValidationErrors(page: any): Promise<any[]> {
+    const errors: any[] = [];
+
+    try {
+      const errorSelectors = [
+        '.error',
+        '.validation-error',
+        '.field-error',
+        '[role="alert"]',
+        '.alert-danger',
+        '.text-danger',
+        '.invalid-feedback',
+      ];
+
+      for (const selector of errorSelectors) {
+        const elements = await page.locator(selector).all();
+
+        for (const element of elements) {
+          try {
+            if (await element.isVisible()) {
+              const text = await element.textContent();
+              if (text && text.trim()) {
+                errors.push({
+                  type: 'validation',
+                  selector,
+                  message: text.trim(),
+                  code: 'E_VALIDATION_RULE',
+                  timestamp: new Date().toISOString(),
+                });
+              }
+            }
+          } catch (elementError) {
+            // Skip this element
+          }
+        }
+      }
+    } catch (error) {
+      logger.warn('Failed to collect page validation errors', { error });
+    }
+
+    return errors;
+  }
+
+  private async handleVerifyPage(params: VerifyPageParams): Promise<MCPToolResult> {
+    try {
+      const page = await this.driver.getPage();
+      const result = await verifyPage(page, params);
+      const accessibility = await this.runAccessibilityAudit();
+
+      return {
+        success: result.success,
+        data: {
+          ...result,
+          accessibility,
+        },
+      };
+    } catch (error) {
+      throw new MCPUIError(
+        'Page verification failed',
+        'E_VERIFY_FAILED',
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  private async handleMockRoute(params: any): Promise<MCPToolResult> {
+    try {
+      const mocked = await this.driver.mockRoute(params);
+
+      return {
+        success: true,
+        data: {
+          mock: mocked,
+          activeMocks: this.driver.getRouteMocks().length
+        }
+      };
+    } catch (error) {
+      if (error instanceof MCPUIError) throw error;
+      throw new MCPUIError('Failed to mock route', 'E_MOCK_ROUTE', error);
+    }
+  }
+
+  private async handleClearMocks(params: any): Promise<MCPToolResult> {
+    const cleared = await this.driver.clearMocks(params.mockId);
+
+    return {
+      success: true,
+      data: {
+        cleared,
+        count: cleared.length
+      }
+    };
+  }
+
+  private async handleSetDialogPolicy(params: any): Promise<MCPToolResult> {
+    const previous = this.driver.getDialogPolicy();
+    const policy = this.driver.setDialogPolicy({ action: params.action, promptText: params.promptText });
+
+    return {
+      success: true,
+      data: { policy, previous }
+    };
+  }
+
+  private async handleSaveAuthState(params: any): Promise<MCPToolResult> {
+    try {
+      const page = await this.driver.getPage();
+      const storageState = await page.context().storageState();
+
+      await this.ensureJourneyStorageInitialized();
+      const authState = await this.journeyStorage.saveAuthState(params.name, storageState, page.url());
+
+      return {
+        success: true,
+        data: {
+          name: authState.name,
+          savedAt: authState.savedAt,
+          url: authState.url,
+          cookies: storageState.cookies.length,
+          origins: storageState.origins.map(origin => origin.origin)
+        }
+      };
+    } catch (error) {
+      throw new MCPUIError('Failed to save auth state', 'E_SAVE_AUTH_STATE', error);
+    }
+  }
+
+  private async handleLoadAuthState(params: any): Promise<MCPToolResult> {
+    const authState = await this.loadAuthStateOrThrow(params.name);
+
+    try {
+      const page = await this.driver.getPage();
+      await applyAuthState(page, authState.storageState);
+
+      return {
+        success: true,
+        data: {
+          name: authState.name,
+          savedAt: authState.savedAt,
+          cookies: authState.storageState.cookies.length,
+          origins: authState.storageState.origins.map(origin => origin.origin),
+          currentUrl: page.url()
+        }
+      };
+    } catch (error) {
+      throw new MCPUIError('Failed to load auth state', 'E_LOAD_AUTH_STATE', error);
+    }
+  }
+
+  private async loadAuthStateOrThrow(name: string): Promise<AuthState> {
+    await this.ensureJourneyStorageInitialized();
+    const authState = await this.journeyStorage.loadAuthState(name);
+
+    if (!authState) {
+      throw new MCPUIError(`Auth state not found: ${name}`, 'E_AUTH_STATE_NOT_FOUND');
+    }
+    return authState;
+  }
+
+  private async handleSetThrottling(params: any): Promise<MCPToolResult> {
+    const throttling = resolveThrottling(params.throttling);
+    const previous = await this.driver.setThrottling(throttling);
+
+    // A recording replays under the same conditions
+    await this.journeyRecorder.recordThrottling(throttling);
+
+    return {
+      success: true,
+      data: { throttling, previous }
+    };
+  }
+
+  private async handleSetEmulation(params: any): Promise<MCPToolResult> {
+    const emulation = await this.driver.useEmulation({
+      locale: params.locale,
+      timezoneId: params.timezoneId,
+      geolocation: params.geolocation
+    });
+    const page = await this.driver.getPage();
+
+    return {
+      success: true,
+      data: { emulation, currentUrl: page.url() }
+    };
+  }
+
+  private async handleSetClock(params: any): Promise<MCPToolResult> {
+    if (params.time === undefined && params.advanceMs === undefined) {
+      throw new MCPUIError('set_clock needs a time or advanceMs', 'E_VALIDATION');
+    }
+
+    let clock = params.time !== undefined
+      ? await this.driver.setClock({ time: params.time, mode: params.mode })
+      : this.driver.getClock();
+    if (params.advanceMs !== undefined) {
+      clock = await this.driver.advanceClock(params.advanceMs);
+    }
+
+    const page = await this.driver.getPage();
+    const pageTime = await page.evaluate(() => new Date().toISOString());
+
+    return {
+      success: true,
+      data: { clock, pageTime }
+    };
+  }
+
+  /**
+   * Apply a tool call's throttling param, returning a function that restores the session's conditions
+   */
+  private async applyCallThrottling(params: { throttling?: ThrottlingInput }): Promise<() => Promise<void>> {
+    if (params.throttling === undefined) {
+      return async () => undefined;
+    }
+
+    const previous = await this.driver.setThrottling(resolveThrottling(params.throttling));
+    return async () => {
+      await this.driver.setThrottling(previous).catch(error => logger.warn('Failed to restore throttling', { error }));
+    };
+  }
+
+  /**
+   * Apply the locale, time zone, position and clock a journey pins, which make date-dependent
+   * journeys deterministic; the returned function gives the session its own settings back
+   */
+  private async applyJourneyEmulation(journey: Journey): Promise<() => Promise<void>> {
+    const { locale, timezoneId, geolocation, clock } = journey.startingContext;
+    if (!locale && !timezoneId && !geolocation && !clock) {
+      return async () => undefined;
+    }
+
+    const saved = this.driver.saveEmulation();
+    const restore = async () => {
+      await this.driver.restoreEmulation(saved).catch(error => logger.warn('Failed to restore emulation', { error }));
+    };
+
+    try {
+      await this.driver.useEmulation({ locale, timezoneId, geolocation });
+      if (clock) {
+        await this.driver.setClock(clock);
+      }
+    } catch (error) {
+      await restore();
+      throw error;
+    }
+    return restore;
+  }
+
+  private async handleGetStorage(params: any): Promise<MCPToolResult> {
+    const page = await this.driver.getPage();
+    const storage = await readStorage(page, params.areas);
+
+    return {
+      success: true,
+      data: storage
+    };
+  }
+
+  private async handleSetStorage(params: any): Promise<MCPToolResult> {
+    const page = await this.driver.getPage();
+    await writeStorage(page, {
+      cookies: params.cookies,
+      localStorage: params.localStorage,
+      sessionStorage: params.sessionStorage
+    });
+    if (params.reload) {
+      await page.reload({ waitUntil: 'domcontentloaded' });
+    }
+
+    return {
+      success: true,
+      data: await readStorage(page)
+    };
+  }
+
+  private async handleClearStorage(params: any): Promise<MCPToolResult> {
+    const page = await this.driver.getPage();
+    const cleared = await clearStorage(page, params.areas, params.keys);
+
+    return {
+      success: true,
+      data: { cleared }
+    };
+  }
+
+  private async handleListDownloads(_params: any): Promise<MCPToolResult> {
+    const downloads = await this.driver.listDownloads();
+
+    return {
+      success: true,
+      data: { downloads, count: downloads.length }
+    };
+  }
 
-      if (types.includes('validation')) {
-        // Validation errors would be collected during form execution
-        // This is a placeholder for standalone validation error collection
-        const page = await this.driver.getPage();
-        const validationErrors = await this.collectPageValidationErrors(page);
-        errors.push(...validationErrors);
+  private async handleVerifyDownload(params: any): Promise<MCPToolResult> {
+    const { downloadId, timeoutMs, sessionId: _sessionId, ...expected } = params;
+    const expectation = parseDownloadExpectation(expected);
+    const download = await this.driver.getDownload(downloadId, timeoutMs ?? 10000);
+    const failures = await verifyDownload(download, expectation);
+
+    return {
+      success: failures.length === 0,
+      data: {
+        download,
+        passed: failures.length === 0,
+        failures,
+        ...(failures.length > 0 ? { error: { code: 'E_DOWNLOAD_MISMATCH', message: `${download.filename}: ${failures.join('; ')}` } } : {})
       }
+    };
+  }
+
+  private async handleVisualCheckpoint(params: any): Promise<MCPToolResult> {
+    try {
+      const page = await this.driver.getPage();
+      const result = await this.checkVisual(params.name, this.visualOptionsOf(params), { url: page.url() });
 
       return {
-        success: true,
+        success: result.status !== 'mismatch',
         data: {
-          errors,
-        },
+          ...result,
+          ...(result.status === 'mismatch' ? { error: { code: 'E_VISUAL_MISMATCH', message: describeVisualMismatch(result) } } : {}),
+          ...(result.status === 'missing_baseline' ? { warning: `No baseline yet; approve diff ${result.diffId} to make this screenshot the baseline` } : {})
+        }
       };
     } catch (error) {
-      throw new MCPUIError('Error collection failed', 'E_COLLECT_ERRORS', error);
+      throw new MCPUIError('Visual checkpoint failed', 'E_VISUAL_CHECKPOINT', error);
     }
   }
 
-  private async collectPageValidationErrors(page: any): Promise<any[]> {
-    const errors: any[] = [];
+  private async handleApproveBaseline(params: any): Promise<MCPToolResult> {
+    if (!params.diffId && !params.name) {
+      throw new MCPUIError('approve_baseline needs a diffId or a checkpoint name', 'E_VALIDATION');
+    }
 
     try {
-      const errorSelectors = [
-        '.error',
-        '.validation-error',
-        '.field-error',
-        '[role="alert"]',
-        '.alert-danger',
-        '.text-danger',
-        '.invalid-feedback',
-      ];
-
-      for (const selector of errorSelectors) {
-        const elements = await page.locator(selector).all();
+      const options = this.visualOptionsOf(params);
+      let baseline;
 
-        for (const element of elements) {
-          try {
-            if (await element.isVisible()) {
-              const text = await element.textContent();
-              if (text && text.trim()) {
-                errors.push({
-                  type: 'validation',
-                  selector,
-                  message: text.trim(),
-                  code: 'E_VALIDATION_RULE',
-                  timestamp: new Date().toISOString(),
-                });
-              }
-            }
-          } catch (elementError) {
-            // Skip this element
-          }
-        }
+      if (params.diffId) {
+        baseline = await this.visualStorage.approveDiff(params.diffId, options);
+      } else {
+        const page = await this.driver.getPage();
+        const { image } = await takeComparableScreenshot(page, options);
+        baseline = await this.visualStorage.saveBaseline({
+          name: params.name,
+          variant: this.currentVisualVariant(),
+          image,
+          options,
+          source: { url: page.url() }
+        });
       }
+
+      return {
+        success: true,
+        data: baseline
+      };
     } catch (error) {
-      logger.warn('Failed to collect page validation errors', { error });
+      if (error instanceof MCPUIError && error.code === 'E_VISUAL_DIFF_NOT_FOUND') {
+        throw error;
+      }
+      throw new MCPUIError('Failed to approve baseline', 'E_APPROVE_BASELINE', error);
     }
-
-    return errors;
   }
 
-  private async handleVerifyPage(params: VerifyPageParams): Promise<MCPToolResult> {
+  private async handleListVisualDiffs(params: any): Promise<MCPToolResult> {
     try {
-      const page = await this.driver.getPage();
-      const result = await verifyPage(page, params);
+      const diffs = await this.visualStorage.listDiffs({
+        status: params.status || 'pending',
+        name: params.name,
+        limit: params.limit || 50
+      });
 
       return {
-        success: result.success,
-        data: result,
+        success: true,
+        data: { diffs, count: diffs.length }
       };
     } catch (error) {
-      throw new MCPUIError(
-        'Page verification failed',
-        'E_VERIFY_FAILED',
-        error instanceof Error ? error.message : String(error)
-      );
+      throw new MCPUIError('Failed to list visual diffs', 'E_LIST_VISUAL_DIFFS', error);
+    }
+  }
+
+  private async checkVisual(name: string, options: VisualCheckOptions | undefined, source: { runId?: string; url?: string }): Promise<VisualCheckResult> {
+    const page = await this.driver.getPage();
+    // The baseline's own options apply unless overridden, so they also decide how to capture
+    const baseline = await this.visualStorage.loadBaseline(name, this.currentVisualVariant());
+    const { image, scale } = await takeComparableScreenshot(page, { ...baseline?.options, ...options });
+
+    return this.visualStorage.check({ name, variant: this.currentVisualVariant(), image, scale, options, source });
+  }
+
+  private currentVisualVariant(): string {
+    return visualVariant(this.driver.getBrowserName(), this.driver.getDeviceProfile().name);
+  }
+
+  private visualOptionsOf(params: any): VisualCheckOptions | undefined {
+    const options: VisualCheckOptions = {};
+    for (const key of ['maxDiffRatio', 'pixelThreshold', 'mask', 'ignoreRegions', 'fullPage'] as const) {
+      if (params[key] !== undefined) {
+        (options as any)[key] = params[key];
+      }
     }
+    return Object.keys(options).length > 0 ? options : undefined;
   }
 
   private async handleExportReport(params: ExportReportParams): Promise<MCPToolResult> {
     try {
-      const testRun = this.testRuns.get(params.runId);
+      const testRun = await this.runStorage.loadRun(params.runId);
+      const execution = testRun ? null : await this.runStorage.loadExecution(params.runId);
 
-      if (!testRun) {
+      if (!testRun && !execution) {
         throw new MCPUIError(`Test run not found: ${params.runId}`, 'E_RUN_NOT_FOUND');
       }
 
+      if (params.format === 'allure') {
+        // Allure consumes a directory of result, container and attachment files
+        const outputDir = params.outputPath || '/tmp/allure-results';
+        const allure = testRun
+          ? await writeAllureRunResults(testRun, outputDir)
+          : await writeAllureJourneyResults(execution!, outputDir);
+
+        return {
+          success: true,
+          data: {
+            path: allure.outputDir,
+            format: params.format,
+            files: allure.files,
+          },
+        };
+      }
+
+      if (!testRun) {
+        switch (params.format) {
+          case 'json':
+            return {
+              success: true,
+              data: {
+                path: `/tmp/journey-execution-${params.runId}.json`,
+                format: params.format,
+                data: JSON.stringify(execution, null, 2),
+              },
+            };
+
+          case 'junit':
+            return {
+              success: true,
+              data: {
+                path: `/tmp/journey-execution-${params.runId}.xml`,
+                format: params.format,
+                data: renderJUnitJourney(execution!),
+              },
+            };
+
+          case 'ctrf':
+            return {
+              success: true,
+              data: {
+                path: `/tmp/journey-execution-${params.runId}.ctrf.json`,
+                format: params.format,
+                data: renderCtrfReport(execution!),
+              },
+            };
+
+          default:
+            throw new MCPUIError(`Format ${params.format} is not supported for journey executions`, 'E_UNSUPPORTED_FORMAT');
+        }
+      }
+
       let exportData: any;
       let filename: string;
 
@@ -1668,15 +3308,37 @@ export class MCPServer {
           break;
 
         case 'junit':
-          exportData = this.convertToJUnit(testRun);
+          exportData = renderJUnitRun(testRun);
           filename = `/tmp/test-run-${params.runId}.xml`;
           break;
 
-        case 'allure':
-          exportData = this.convertToAllure(testRun);
-          filename = `/tmp/test-run-${params.runId}-allure.json`;
+        case 'sarif':
+          exportData = renderSarifReport(testRun);
+          filename = `/tmp/test-run-${params.runId}.sarif`;
+          break;
+
+        case 'ctrf':
+          exportData = renderCtrfReport(testRun);
+          filename = `/tmp/test-run-${params.runId}.ctrf.json`;
           break;
 
+        case 'html': {
+          // Screenshots are inlined, so the report is written to disk rather than returned
+          const html = await renderHtmlReport(testRun);
+          filename = params.outputPath || `/tmp/test-run-${params.runId}.html`;
+          await fs.mkdir(path.dirname(filename), { recursive: true });
+          await fs.writeFile(filename, html, 'utf8');
+
+          return {
+            success: true,
+            data: {
+              path: filename,
+              format: params.format,
+              size: Buffer.byteLength(html),
+            },
+          };
+        }
+
         default:
           throw new MCPUIError(`Unsupported format: ${params.format}`, 'E_UNSUPPORTED_FORMAT');
       }
@@ -1692,56 +3354,213 @@ export class MCPServer {
         },
       };
     } catch (error) {
+      if (error instanceof MCPUIError) throw error;
       throw new MCPUIError('Report export failed', 'E_EXPORT_REPORT', error);
     }
   }
 
-  private convertToJUnit(testRun: TestRun): string {
-    const testCase = `
-      <testcase
-        name="UI Test Flow"
-        classname="${testRun.target.url}"
-        time="${testRun.metrics.totalTimeMs / 1000}"
-        ${testRun.result === 'failed' ? `>
-        <failure message="${testRun.errors[0]?.message || 'Test failed'}" type="AssertionError">
-          ${testRun.errors.map(e => e.message).join('\n')}
-        </failure>
-      </testcase>` : '/>'
+  /**
+   * @param visualCheckpoint Compare the page the run ended on with this checkpoint's baseline
+   */
+  private async storeTestRun(testRun: TestRun, visualCheckpoint?: string): Promise<void> {
+    // The flow engine only sees the page, so the device profile is recorded here
+    testRun.target.device = testRun.target.device || this.driver.getDeviceProfile().name;
+
+    // Checked first so a blown budget fails the run before failure-only artifacts are decided
+    if (this.driver.isCapturingPerformance()) {
+      const { pages, violations } = await this.finishPerformanceCapture();
+      testRun.metrics.performance = pages;
+
+      if (violations.length > 0) {
+        testRun.errors.push(...toPerformanceErrors(violations));
+        testRun.result = 'failed';
+      }
+    }
+
+    if (visualCheckpoint) {
+      try {
+        const visual = await this.checkVisual(visualCheckpoint, undefined, { runId: testRun.runId, url: testRun.target.url });
+        testRun.findings.visual = visual;
+
+        if (visual.status === 'mismatch') {
+          testRun.errors.push({
+            type: 'visual',
+            message: describeVisualMismatch(visual),
+            code: 'E_VISUAL_MISMATCH',
+            evidence: { screenshot: visual.diffPath, text: `diffId: ${visual.diffId}` },
+            timestamp: new Date().toISOString()
+          });
+          testRun.result = 'failed';
         }
-    `;
-
-    return `<?xml version="1.0" encoding="UTF-8"?>
-<testsuite
-  name="MCP UI Probe Tests"
-  tests="1"
-  failures="${testRun.result === 'failed' ? 1 : 0}"
-  time="${testRun.metrics.totalTimeMs / 1000}"
->
-  ${testCase}
-</testsuite>`;
-  }
-
-  private convertToAllure(testRun: TestRun): string {
-    return JSON.stringify({
-      uuid: testRun.runId,
-      name: 'UI Test Flow',
-      fullName: testRun.target.url,
-      status: testRun.result === 'passed' ? 'passed' : 'failed',
-      statusDetails: {
-        message: testRun.errors[0]?.message,
-        trace: testRun.errors.map(e => e.message).join('\n'),
-      },
-      start: Date.now() - testRun.metrics.totalTimeMs,
-      stop: Date.now(),
-      steps: testRun.flow.map(step => ({
-        name: step.inferredIntent,
-        status: step.outcome === 'success' ? 'passed' : 'failed',
-        start: Date.now() - step.latencyMs,
-        stop: Date.now(),
-      })),
+      } catch (error) {
+        logger.warn('Visual checkpoint failed', { runId: testRun.runId, visualCheckpoint, error });
+      }
+    }
+
+    const since = testRun.startedAt ? new Date(testRun.startedAt) : undefined;
+    const dialogs = since ? this.driver.getDialogs(since) : [];
+    if (dialogs.length > 0) {
+      testRun.flow = mergeDialogSteps(testRun.flow, dialogs);
+      testRun.metrics.steps = testRun.flow.length;
+
+      const dialogErrors = toDialogErrors(dialogs);
+      if (dialogErrors.length > 0) {
+        testRun.errors.push(...dialogErrors);
+        testRun.result = 'failed';
+      }
+    }
+
+    const mocks = this.driver.getRouteMocks(since);
+    if (mocks.length > 0) {
+      testRun.artifacts = { ...testRun.artifacts, mocks };
+    }
+
+    if (this.driver.isCapturingHar()) {
+      const har = await this.driver.stopHarCapture(path.join(os.tmpdir(), `run-${testRun.runId}.har`));
+      testRun.artifacts = { ...testRun.artifacts, har: har.path };
+    }
+
+    const artifacts = await this.driver.finishArtifactCapture(testRun.runId, testRun.result === 'failed');
+    if (artifacts.trace || artifacts.video) {
+      testRun.artifacts = { ...testRun.artifacts, ...artifacts };
+    }
+
+    try {
+      await this.runStorage.saveRun(testRun);
+    } catch (error) {
+      // Still cached by the storage, so export_report and get_run find it until the server restarts
+      logger.warn('Failed to persist test run', { runId: testRun.runId, error });
+    }
+  }
+
+  /**
+   * Start collecting vitals when asked to, or by default with UI_PROBE_PERFORMANCE; passing
+   * budgets implies collection. Returns whether a capture was started
+   */
+  private async startPerformanceCapture(params: { performance?: boolean; budgets?: PerformanceBudget[] }): Promise<boolean> {
+    const enabled = params.performance ?? ((params.budgets?.length ?? 0) > 0 || isPerformanceCollectionDefault());
+    if (!enabled) {
+      return false;
+    }
+
+    const budgets = [...await loadPerformanceBudgets(), ...(params.budgets || [])];
+    await this.driver.startPerformanceCapture(budgets);
+    return true;
+  }
+
+  private async finishPerformanceCapture(): Promise<{ pages: PageVitals[]; violations: BudgetViolation[] }> {
+    const { pages, budgets } = await this.driver.stopPerformanceCapture();
+    const violations = checkBudgets(pages, budgets);
+
+    this.recordPerformance(pages, violations);
+    return { pages, violations };
+  }
+
+  /**
+   * Every collection of vitals passes through here; monitoring hooks this to export them
+   */
+  recordPerformance(pages: PageVitals[], violations: BudgetViolation[]): void {
+    logger.info('Performance collected', {
+      pages: pages.map(vitals => ({ url: vitals.url, lcpMs: vitals.lcpMs, cls: vitals.cls, loadMs: vitals.loadMs })),
+      budgetViolations: violations.length
     });
   }
 
+  private async handleListRuns(params: any): Promise<MCPToolResult> {
+    try {
+      const runs = await this.runStorage.listRuns({
+        url: params.url,
+        result: params.result,
+        from: params.from,
+        to: params.to,
+        limit: params.limit || 50,
+        offset: params.offset || 0
+      });
+
+      return {
+        success: true,
+        data: runs
+      };
+    } catch (error) {
+      throw new MCPUIError('Failed to list runs', 'E_LIST_RUNS', error);
+    }
+  }
+
+  private async handleGetRun(params: any): Promise<MCPToolResult> {
+    try {
+      const testRun = await this.runStorage.loadRun(params.runId);
+
+      if (!testRun) {
+        throw new MCPUIError(`Test run not found: ${params.runId}`, 'E_RUN_NOT_FOUND');
+      }
+
+      return {
+        success: true,
+        data: testRun
+      };
+    } catch (error) {
+      if (error instanceof MCPUIError) throw error;
+      throw new MCPUIError('Failed to get run', 'E_GET_RUN', error);
+    }
+  }
+
+  private async handleDeleteRuns(params: any): Promise<MCPToolResult> {
+    const hasCriteria = (params.runIds && params.runIds.length > 0) ||
+                        params.url || params.result || params.from || params.to;
+
+    if (!hasCriteria) {
+      throw new MCPUIError('delete_runs requires runIds or at least one filter', 'E_DELETE_RUNS_CRITERIA');
+    }
+
+    try {
+      const deleted = await this.runStorage.deleteRuns({
+        runIds: params.runIds,
+        url: params.url,
+        result: params.result,
+        from: params.from,
+        to: params.to
+      });
+
+      return {
+        success: true,
+        data: {
+          deleted,
+          count: deleted.length,
+          message: `${deleted.length} test run(s) deleted`
+        }
+      };
+    } catch (error) {
+      throw new MCPUIError('Failed to delete runs', 'E_DELETE_RUNS', error);
+    }
+  }
+
+  private async handleCompareRuns(params: any): Promise<MCPToolResult> {
+    try {
+      const [baseline, candidate] = await Promise.all([
+        this.runStorage.loadRun(params.baselineRunId),
+        this.runStorage.loadRun(params.candidateRunId)
+      ]);
+
+      if (!baseline || !candidate) {
+        const missing = !baseline ? params.baselineRunId : params.candidateRunId;
+        throw new MCPUIError(`Test run not found: ${missing}`, 'E_RUN_NOT_FOUND');
+      }
+
+      const comparison = compareRuns(baseline, candidate, {
+        latencyThresholdMs: params.latencyThresholdMs,
+        latencyThresholdPercent: params.latencyThresholdPercent
+      });
+
+      return {
+        success: true,
+        data: comparison
+      };
+    } catch (error) {
+      if (error instanceof MCPUIError) throw error;
+      throw new MCPUIError('Failed to compare runs', 'E_COMPARE_RUNS', error);
+    }
+  }
+
   private async checkValidationErrors(page: any): Promise<{ isValid: boolean; errors: string[] }> {
     const errors: string[] = [];
 
@@ -1900,16 +3719,32 @@ export class MCPServer {
   // Journey system handler methods
   private async handleRecordJourney(params: any): Promise<MCPToolResult> {
     try {
+      if (params.device) {
+        await this.driver.useDevice(deviceProfiles.resolve(params.device));
+      }
+
       const page = await this.driver.getPage();
+      const device = this.driver.getDeviceProfile();
 
       // Initialize journey storage if not already done
       await this.ensureJourneyStorageInitialized();
 
+      if (params.authState) {
+        const authState = await this.loadAuthStateOrThrow(params.authState);
+        await applyAuthState(page, authState.storageState);
+      }
+
       const journeyId = await this.journeyRecorder.startRecording(page, {
         urlPattern: page.url(),
         exactUrl: page.url(),
         requiredElements: [],
-        pageState: {}
+        pageState: {},
+        ...(params.authState ? { authState: params.authState } : {}),
+        ...this.driver.getEmulation(),
+        ...(this.driver.getClock() ? { clock: this.driver.getClock()! } : {})
+      }, {
+        environment: [environmentOf(device)],
+        ...(params.device ? { device: device.name } : {})
       });
 
       // Update journey metadata if provided
@@ -1995,27 +3830,118 @@ export class MCPServer {
 
   private async handleReplayJourney(params: any): Promise<MCPToolResult> {
     try {
-      const page = await this.driver.getPage();
-
       await this.ensureJourneyStorageInitialized();
 
-      const playbackConfig: Partial<PlaybackConfig> = {};
-      if (params.speed !== undefined) playbackConfig.speed = params.speed;
-      if (params.validateContext !== undefined) playbackConfig.validateContext = params.validateContext;
-      if (params.continueOnError !== undefined) playbackConfig.continueOnNonCriticalErrors = params.continueOnError;
+      const journey = await this.journeyStorage.loadJourney(params.journeyId);
+      if (!journey) {
+        throw new MCPUIError(`Journey not found: ${params.journeyId}`, 'E_JOURNEY_NOT_FOUND');
+      }
+
+      const browser = params.browser || journeyConfig.getPlaybackConfig().browser;
+      if (browser) {
+        await this.driver.useBrowser(browser);
+      }
 
-      const result = await this.journeyPlayer.playJourney(page, params.journeyId, playbackConfig);
+      // Mobile journeys replay on a mobile profile unless a device is requested explicitly; the
+      // session gets its own device back afterwards
+      const device = params.device || journeyConfig.getPlaybackConfig().device;
+      const sessionDevice = this.driver.getDeviceProfile();
+      await this.driver.useDevice(device
+        ? deviceProfiles.resolve(device)
+        : deviceProfiles.selectForJourney(journey, sessionDevice));
 
-      return {
-        success: result.success,
-        data: result
-      };
+      const restoreEmulation = await this.applyJourneyEmulation(journey);
+      try {
+        const playbackConfig: Partial<PlaybackConfig> = {};
+        if (params.speed !== undefined) playbackConfig.speed = params.speed;
+        if (params.validateContext !== undefined) playbackConfig.validateContext = params.validateContext;
+        if (params.continueOnError !== undefined) playbackConfig.continueOnNonCriticalErrors = params.continueOnError;
+
+        if (params.replayHar) {
+          await this.driver.replayFromHar(await this.resolveHarPath(params.replayHar), params.harNotFound);
+        }
+        await this.driver.startArtifactCapture({
+          trace: params.trace || journeyConfig.getPlaybackConfig().trace,
+          video: params.video || journeyConfig.getPlaybackConfig().video
+        });
+        if (params.recordHar) {
+          await this.driver.startHarCapture();
+        }
+        playbackConfig.collectPerformance = await this.startPerformanceCapture(params);
+        playbackConfig.visualChecks = params.visual;
+        playbackConfig.visualVariant = this.currentVisualVariant();
+
+        let result: JourneyExecutionResult;
+        const restoreThrottling = await this.applyCallThrottling(params);
+        try {
+          // Artifact capture may have reopened the context, so fetch the page afterwards
+          result = await this.journeyPlayer.playJourney(await this.driver.getPage(), journey, playbackConfig);
+          if (params.recordHar) {
+            const har = await this.driver.stopHarCapture(path.join(os.tmpdir(), `execution-${result.executionId}.har`));
+            result.har = har.path;
+          }
+          if (playbackConfig.collectPerformance) {
+            const { pages, violations } = await this.finishPerformanceCapture();
+            result.performance = pages;
+
+            if (violations.length > 0) {
+              result.budgetViolations = violations;
+              result.errors.push(...toPerformanceErrors(violations).map(error => ({
+                stepId: 'performance',
+                error: error.message,
+                context: { violation: error.evidence?.text }
+              })));
+              result.success = false;
+            }
+          }
+          Object.assign(result, await this.driver.finishArtifactCapture(result.executionId, !result.success));
+        } finally {
+          await this.driver.cancelHarCapture();
+          await this.driver.cancelPerformanceCapture();
+          await this.driver.discardArtifactCapture();
+          await this.driver.stopHarReplay();
+          await restoreThrottling();
+        }
+        result.device = this.driver.getDeviceProfile().name;
+
+        try {
+          await this.runStorage.saveExecution(result);
+        } catch (error) {
+          logger.warn('Failed to persist journey execution', { executionId: result.executionId, error });
+        }
+
+        return {
+          success: result.success,
+          data: result
+        };
+      } finally {
+        await restoreEmulation();
+        await this.driver.useDevice(sessionDevice)
+          .catch(error => logger.warn('Failed to restore device profile', { device: sessionDevice.name, error }));
+      }
 
     } catch (error) {
       throw new MCPUIError('Failed to replay journey', 'E_REPLAY_JOURNEY', error);
     }
   }
 
+  /**
+   * Accept either a HAR file path or the ID of a stored run or journey execution that captured one
+   */
+  private async resolveHarPath(reference: string): Promise<string> {
+    try {
+      await fs.access(reference);
+      return reference;
+    } catch {
+      const run = await this.runStorage.loadRun(reference);
+      const harPath = run?.artifacts?.har || (await this.runStorage.loadExecution(reference))?.har;
+      if (!harPath) {
+        throw new MCPUIError(`No HAR file or stored HAR found for: ${reference}`, 'E_HAR_NOT_FOUND');
+      }
+      return harPath;
+    }
+  }
+
   private async handlePausePlayback(_params: any): Promise<MCPToolResult> {
     try {
       await this.journeyPlayer.pausePlayback();
@@ -2290,7 +4216,7 @@ export class MCPServer {
   }
 
   async stop(): Promise<void> {
-    await this.driver.close();
+    await this.sessions.closeAll();
     logger.info('MCP UI Probe server stopped');
   }
 }
\ No newline at end of file
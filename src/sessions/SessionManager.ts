@@ -0,0 +1,245 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Browser } from 'playwright';
+import { v4 as uuidv4 } from 'uuid';
+import { PlaywrightDriver } from '../drivers/playwright.js';
+import { JourneyRecorder } from '../journey/JourneyRecorder.js';
+import { JourneyPlayer } from '../journey/JourneyPlayer.js';
+import { FlowEngine } from '../flows/flowEngine.js';
+import { BrowserName } from '../types/index.js';
+import { SessionConfig, OpenSessionOptions, SessionInfo } from '../types/sessions.js';
+import { launchBrowser } from '../utils/browsers.js';
+import { deviceProfiles } from '../utils/devices.js';
+import { MCPUIError } from '../utils/errors.js';
+import logger from '../utils/logger.js';
+
+export const DEFAULT_SESSION_ID = 'default';
+
+// Everything a tool call touches that must not leak between sessions
+export interface Session {
+  id: string;
+  label?: string;
+  driver: PlaywrightDriver;
+  recorder: JourneyRecorder;
+  player: JourneyPlayer;
+  flowEngine: FlowEngine;
+  createdAt: Date;
+  lastUsedAt: number;
+  activeCalls: number;
+}
+
+export interface SessionComponentFactory {
+  createRecorder(): JourneyRecorder;
+  createPlayer(): JourneyPlayer;
+}
+
+export class SessionManager {
+  private config: SessionConfig;
+  private sessions: Map<string, Session> = new Map();
+  private browsers: Map<BrowserName, Promise<Browser>> = new Map();
+  private currentSession = new AsyncLocalStorage<Session>();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(private factory: SessionComponentFactory, customConfig?: Partial<SessionConfig>) {
+    this.config = {
+      idleTimeoutMs: parseInt(process.env.UI_PROBE_SESSION_IDLE_MS || '900000', 10),
+      sweepIntervalMs: 60000,
+      maxSessions: parseInt(process.env.UI_PROBE_MAX_SESSIONS || '10', 10),
+      ...customConfig
+    };
+
+    this.sessions.set(DEFAULT_SESSION_ID, this.createSession(DEFAULT_SESSION_ID));
+  }
+
+  /**
+   * Session the current tool call runs in; falls back to the default session outside run()
+   */
+  current(): Session {
+    return this.currentSession.getStore() || this.sessions.get(DEFAULT_SESSION_ID)!;
+  }
+
+  get(sessionId?: string): Session {
+    const session = this.sessions.get(sessionId || DEFAULT_SESSION_ID);
+    if (!session) {
+      throw new MCPUIError(`Session not found: ${sessionId}`, 'E_SESSION_NOT_FOUND');
+    }
+    return session;
+  }
+
+  async run<T>(sessionId: string | undefined, fn: (session: Session) => Promise<T>): Promise<T> {
+    const session = this.get(sessionId);
+
+    session.activeCalls += 1;
+    session.lastUsedAt = Date.now();
+    try {
+      return await this.currentSession.run(session, () => fn(session));
+    } finally {
+      session.activeCalls -= 1;
+      session.lastUsedAt = Date.now();
+    }
+  }
+
+  async open(options: OpenSessionOptions = {}): Promise<Session> {
+    if (this.sessions.size - 1 >= this.config.maxSessions) {
+      throw new MCPUIError(`Session limit reached (${this.config.maxSessions})`, 'E_SESSION_LIMIT');
+    }
+
+    const session = this.createSession(uuidv4(), options.label);
+
+    try {
+      if (options.browser) {
+        await session.driver.useBrowser(options.browser);
+      }
+      if (options.device) {
+        await session.driver.useDevice(deviceProfiles.resolve(options.device));
+      }
+      if (options.dialogPolicy) {
+        session.driver.setDialogPolicy(options.dialogPolicy);
+      }
+      await session.driver.useEmulation({
+        locale: options.locale,
+        timezoneId: options.timezoneId,
+        geolocation: options.geolocation
+      });
+      if (options.clock) {
+        await session.driver.setClock(options.clock);
+      }
+
+      // Create the context up front so the session is isolated from its first tool call
+      await session.driver.getPage();
+    } catch (error) {
+      await session.driver.close();
+      throw error;
+    }
+
+    this.sessions.set(session.id, session);
+    this.startSweeper();
+
+    logger.info('Session opened', { sessionId: session.id, label: session.label });
+    return session;
+  }
+
+  async close(sessionId: string): Promise<void> {
+    if (sessionId === DEFAULT_SESSION_ID) {
+      throw new MCPUIError('The default session cannot be closed', 'E_SESSION_DEFAULT');
+    }
+
+    const session = this.get(sessionId);
+    this.sessions.delete(sessionId);
+    await this.disposeSession(session);
+
+    logger.info('Session closed', { sessionId });
+  }
+
+  list(): SessionInfo[] {
+    const now = Date.now();
+
+    return Array.from(this.sessions.values()).map(session => ({
+      sessionId: session.id,
+      label: session.label,
+      isDefault: session.id === DEFAULT_SESSION_ID,
+      browser: session.driver.getBrowserName(),
+      device: session.driver.getDeviceProfile().name,
+      url: session.driver.getCurrentUrl(),
+      recording: session.recorder.recordingStatus.isRecording,
+      createdAt: session.createdAt.toISOString(),
+      lastUsedAt: new Date(session.lastUsedAt).toISOString(),
+      idleMs: session.activeCalls > 0 ? 0 : now - session.lastUsedAt
+    }));
+  }
+
+  async closeIdleSessions(now = Date.now()): Promise<string[]> {
+    const idle = Array.from(this.sessions.values()).filter(session =>
+      session.id !== DEFAULT_SESSION_ID &&
+      session.activeCalls === 0 &&
+      now - session.lastUsedAt > this.config.idleTimeoutMs
+    );
+
+    for (const session of idle) {
+      this.sessions.delete(session.id);
+      await this.disposeSession(session);
+      logger.info('Idle session closed', { sessionId: session.id, idleMs: now - session.lastUsedAt });
+    }
+
+    if (this.sessions.size === 1) {
+      this.stopSweeper();
+    }
+
+    return idle.map(session => session.id);
+  }
+
+  async closeAll(): Promise<void> {
+    this.stopSweeper();
+
+    for (const session of this.sessions.values()) {
+      await this.disposeSession(session);
+    }
+    this.sessions.clear();
+    this.sessions.set(DEFAULT_SESSION_ID, this.createSession(DEFAULT_SESSION_ID));
+
+    for (const browser of this.browsers.values()) {
+      await browser.then(instance => instance.close()).catch(() => undefined);
+    }
+    this.browsers.clear();
+  }
+
+  private createSession(id: string, label?: string): Session {
+    return {
+      id,
+      label,
+      driver: new PlaywrightDriver(browserName => this.getBrowser(browserName)),
+      recorder: this.factory.createRecorder(),
+      player: this.factory.createPlayer(),
+      flowEngine: new FlowEngine(),
+      createdAt: new Date(),
+      lastUsedAt: Date.now(),
+      activeCalls: 0
+    };
+  }
+
+  private async disposeSession(session: Session): Promise<void> {
+    // Keep in-progress recordings rather than silently discarding them
+    if (session.recorder.recordingStatus.isRecording) {
+      await session.recorder.stopRecording().catch(error =>
+        logger.warn('Failed to save recording of closed session', { sessionId: session.id, error }));
+    }
+
+    if (session.player.playbackStatus.isPlaying) {
+      await session.player.stopPlayback().catch(() => undefined);
+    }
+
+    await session.driver.close();
+  }
+
+  // One browser per engine is shared by all sessions; each session only owns a context
+  private getBrowser(browserName: BrowserName): Promise<Browser> {
+    let browser = this.browsers.get(browserName);
+
+    if (!browser) {
+      browser = launchBrowser(browserName).then(instance => {
+        instance.on('disconnected', () => this.browsers.delete(browserName));
+        return instance;
+      });
+      browser.catch(() => this.browsers.delete(browserName));
+      this.browsers.set(browserName, browser);
+    }
+
+    return browser;
+  }
+
+  private startSweeper(): void {
+    if (this.sweepTimer) return;
+
+    this.sweepTimer = setInterval(() => {
+      this.closeIdleSessions().catch(error => logger.error('Failed to close idle sessions', { error }));
+    }, this.config.sweepIntervalMs);
+    // Never keep the process alive just to sweep sessions
+    this.sweepTimer.unref();
+  }
+
+  private stopSweeper(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * Offline accessibility audit for the current page
+ */
+
+import { Page } from 'playwright';
+import { TestError } from '../types/index.js';
+
+export type AccessibilityImpact = 'critical' | 'serious' | 'moderate' | 'minor';
+
+export type AccessibilityRuleId =
+  | 'label'
+  | 'image-alt'
+  | 'duplicate-id'
+  | 'button-name'
+  | 'link-name'
+  | 'aria-role'
+  | 'heading-order'
+  | 'html-has-lang';
+
+export interface AuditAccessibilityParams {
+  rules?: AccessibilityRuleId[];   // Only run these rules (default: all)
+  maxNodesPerRule?: number;        // Cap reported nodes per rule (default: 50)
+}
+
+export interface AccessibilityViolation {
+  rule: AccessibilityRuleId;
+  impact: AccessibilityImpact;
+  message: string;
+  selector: string;
+  html?: string;
+  wcag: string[];
+}
+
+export interface AccessibilityAuditResult {
+  url: string;
+  violations: AccessibilityViolation[];
+  summary: {
+    total: number;
+    byRule: Record<string, number>;
+    byImpact: Record<AccessibilityImpact, number>;
+  };
+  timestamp: string;
+}
+
+// What the in-page audit reports for one node, before impact and WCAG references are attached
+type RawViolation = { rule: AccessibilityRuleId; selector: string; html: string; message: string };
+
+export const ACCESSIBILITY_RULES: Record<AccessibilityRuleId, { impact: AccessibilityImpact; wcag: string[]; help: string }> = {
+  'label': {
+    impact: 'critical',
+    wcag: ['WCAG 2.1 1.3.1', 'WCAG 2.1 4.1.2'],
+    help: 'Form elements must have labels'
+  },
+  'image-alt': {
+    impact: 'critical',
+    wcag: ['WCAG 2.1 1.1.1'],
+    help: 'Images must have alternate text'
+  },
+  'duplicate-id': {
+    impact: 'minor',
+    wcag: ['WCAG 2.1 4.1.1'],
+    help: 'id attribute values must be unique'
+  },
+  'button-name': {
+    impact: 'critical',
+    wcag: ['WCAG 2.1 4.1.2'],
+    help: 'Buttons must have discernible text'
+  },
+  'link-name': {
+    impact: 'serious',
+    wcag: ['WCAG 2.1 2.4.4', 'WCAG 2.1 4.1.2'],
+    help: 'Links must have discernible text'
+  },
+  'aria-role': {
+    impact: 'critical',
+    wcag: ['WCAG 2.1 4.1.2'],
+    help: 'ARIA roles used must conform to valid values'
+  },
+  'heading-order': {
+    impact: 'moderate',
+    wcag: ['WCAG 2.1 1.3.1'],
+    help: 'Heading levels should only increase by one'
+  },
+  'html-has-lang': {
+    impact: 'serious',
+    wcag: ['WCAG 2.1 3.1.1'],
+    help: '<html> element must have a lang attribute'
+  }
+};
+
+export async function auditAccessibility(
+  page: Page,
+  params: AuditAccessibilityParams = {}
+): Promise<AccessibilityAuditResult> {
+  const enabledRules = params.rules && params.rules.length > 0
+    ? params.rules
+    : (Object.keys(ACCESSIBILITY_RULES) as AccessibilityRuleId[]);
+  const maxNodes = params.maxNodesPerRule ?? 50;
+
+  // Rules are evaluated in the page; only rule ids, selectors and snippets come back
+  const rawViolations = await page.evaluate<RawViolation[], { rules: AccessibilityRuleId[]; maxNodes: number }>(
+    ({ rules, maxNodes }) => {
+      const found: RawViolation[] = [];
+      const counts: Record<string, number> = {};
+
+      const report = (rule: AccessibilityRuleId, element: Element, message: string) => {
+        counts[rule] = (counts[rule] || 0) + 1;
+        if (counts[rule] > maxNodes) return;
+        const html = element.outerHTML.replace(/\s+/g, ' ');
+        found.push({
+          rule,
+          selector: selectorFor(element),
+          html: html.length > 200 ? `${html.slice(0, 200)}...` : html,
+          message
+        });
+      };
+
+      function selectorFor(element: Element): string {
+        if (element.hasAttribute('data-testid')) {
+          return `[data-testid="${CSS.escape(element.getAttribute('data-testid')!)}"]`;
+        }
+        if (element.id && document.querySelectorAll(`[id="${element.id}"]`).length === 1) {
+          return `#${CSS.escape(element.id)}`;
+        }
+        if (element.hasAttribute('name')) {
+          return `${element.tagName.toLowerCase()}[name="${CSS.escape(element.getAttribute('name')!)}"]`;
+        }
+
+        const path: string[] = [];
+        let current: Element | null = element;
+        while (current && current.nodeType === Node.ELEMENT_NODE && path.length < 4) {
+          let part = current.tagName.toLowerCase();
+          const parent: Element | null = current.parentElement;
+          if (parent) {
+            const sameTag = Array.from(parent.children).filter(c => c.tagName === current!.tagName);
+            if (sameTag.length > 1) {
+              part += `:nth-of-type(${sameTag.indexOf(current) + 1})`;
+            }
+          }
+          path.unshift(part);
+          current = parent;
+        }
+        return path.join(' > ');
+      }
+
+      const isHidden = (element: Element): boolean => {
+        if (element.closest('[aria-hidden="true"]')) return true;
+        const style = window.getComputedStyle(element);
+        return style.display === 'none' || style.visibility === 'hidden';
+      };
+
+      const accessibleText = (element: Element): string => {
+        const labelledBy = element.getAttribute('aria-labelledby');
+        if (labelledBy) {
+          const text = labelledBy.split(/\s+/)
+            .map(id => document.getElementById(id)?.textContent?.trim() || '')
+            .join(' ')
+            .trim();
+          if (text) return text;
+        }
+        const ariaLabel = element.getAttribute('aria-label')?.trim();
+        if (ariaLabel) return ariaLabel;
+        const imgAlt = Array.from(element.querySelectorAll('img[alt]'))
+          .map(img => img.getAttribute('alt')?.trim() || '')
+          .join(' ')
+          .trim();
+        return (element.textContent?.trim() || imgAlt || element.getAttribute('title')?.trim() || '');
+      };
+
+      if (rules.includes('html-has-lang')) {
+        const lang = document.documentElement.getAttribute('lang');
+        if (!lang || !lang.trim()) {
+          report('html-has-lang', document.documentElement, 'The <html> element has no lang attribute');
+        }
+      }
+
+      if (rules.includes('label')) {
+        document.querySelectorAll('input, select, textarea').forEach(control => {
+          const type = (control.getAttribute('type') || '').toLowerCase();
+          if (['hidden', 'submit', 'button', 'reset', 'image'].includes(type)) return;
+          if (isHidden(control)) return;
+
+          const id = control.getAttribute('id');
+          const hasForLabel = id ? !!document.querySelector(`label[for="${CSS.escape(id)}"]`) : false;
+          const hasLabel = hasForLabel ||
+                           !!control.closest('label') ||
+                           !!control.getAttribute('aria-label')?.trim() ||
+                           !!control.getAttribute('aria-labelledby')?.trim() ||
+                           !!control.getAttribute('title')?.trim();
+
+          if (!hasLabel) {
+            report('label', control, `Form ${control.tagName.toLowerCase()} has no associated label`);
+          }
+        });
+      }
+
+      if (rules.includes('image-alt')) {
+        document.querySelectorAll('img, [role="img"]').forEach(image => {
+          if (isHidden(image)) return;
+          const role = image.getAttribute('role');
+          if (role === 'presentation' || role === 'none') return;
+          const hasAlt = image.tagName === 'IMG'
+            ? image.hasAttribute('alt')
+            : !!accessibleText(image);
+          if (!hasAlt && !image.getAttribute('aria-label') && !image.getAttribute('aria-labelledby')) {
+            report('image-alt', image, 'Image has no alternative text');
+          }
+        });
+      }
+
+      if (rules.includes('duplicate-id')) {
+        const seen = new Map<string, number>();
+        document.querySelectorAll('[id]').forEach(element => {
+          const id = element.id;
+          if (!id) return;
+          const occurrences = (seen.get(id) || 0) + 1;
+          seen.set(id, occurrences);
+          if (occurrences === 2) {
+            report('duplicate-id', element, `id "${id}" is used by more than one element`);
+          }
+        });
+      }
+
+      if (rules.includes('button-name')) {
+        document.querySelectorAll('button, [role="button"], input[type="button"], input[type="submit"], input[type="reset"]').forEach(button => {
+          if (isHidden(button)) return;
+          const isInput = button.tagName === 'INPUT';
+          const name = isInput
+            ? (button.getAttribute('value')?.trim() || button.getAttribute('aria-label')?.trim() || (button.getAttribute('type') === 'submit' ? 'Submit' : ''))
+            : accessibleText(button);
+          if (!name) {
+            report('button-name', button, 'Button has no discernible text');
+          }
+        });
+      }
+
+      if (rules.includes('link-name')) {
+        document.querySelectorAll('a[href], [role="link"]').forEach(link => {
+          if (isHidden(link)) return;
+          if (!accessibleText(link)) {
+            report('link-name', link, 'Link has no discernible text');
+          }
+        });
+      }
+
+      if (rules.includes('aria-role')) {
+        const validRoles = new Set([
+          'alert', 'alertdialog', 'application', 'article', 'banner', 'blockquote', 'button', 'caption',
+          'cell', 'checkbox', 'code', 'columnheader', 'combobox', 'complementary', 'contentinfo',
+          'definition', 'deletion', 'dialog', 'directory', 'document', 'emphasis', 'feed', 'figure',
+          'form', 'generic', 'grid', 'gridcell', 'group', 'heading', 'img', 'insertion', 'link', 'list',
+          'listbox', 'listitem', 'log', 'main', 'marquee', 'math', 'menu', 'menubar', 'menuitem',
+          'menuitemcheckbox', 'menuitemradio', 'meter', 'navigation', 'none', 'note', 'option',
+          'paragraph', 'presentation', 'progressbar', 'radio', 'radiogroup', 'region', 'row',
+          'rowgroup', 'rowheader', 'scrollbar', 'search', 'searchbox', 'separator', 'slider',
+          'spinbutton', 'status', 'strong', 'subscript', 'superscript', 'switch', 'tab', 'table',
+          'tablist', 'tabpanel', 'term', 'textbox', 'time', 'timer', 'toolbar', 'tooltip', 'tree',
+          'treegrid', 'treeitem'
+        ]);
+        // Interactive roles on these elements hide their native semantics from assistive tech
+        const nativeInteractive = new Set(['BUTTON', 'INPUT', 'SELECT', 'TEXTAREA']);
+        const nonInteractiveRoles = new Set(['presentation', 'none', 'heading', 'img', 'list', 'listitem', 'paragraph']);
+
+        document.querySelectorAll('[role]').forEach(element => {
+          const roles = (element.getAttribute('role') || '').trim().split(/\s+/).filter(Boolean);
+          if (roles.length === 0) {
+            report('aria-role', element, 'role attribute is empty');
+            return;
+          }
+          const invalid = roles.filter(role => !validRoles.has(role));
+          if (invalid.length === roles.length) {
+            report('aria-role', element, `Invalid ARIA role "${invalid.join(' ')}"`);
+          } else if (nativeInteractive.has(element.tagName) && nonInteractiveRoles.has(roles[0])) {
+            report('aria-role', element, `Role "${roles[0]}" overrides native ${element.tagName.toLowerCase()} semantics`);
+          }
+        });
+      }
+
+      if (rules.includes('heading-order')) {
+        let previousLevel = 0;
+        document.querySelectorAll('h1, h2, h3, h4, h5, h6, [role="heading"][aria-level]').forEach(heading => {
+          if (isHidden(heading)) return;
+          const level = heading.getAttribute('role') === 'heading'
+            ? parseInt(heading.getAttribute('aria-level') || '2', 10)
+            : parseInt(heading.tagName.substring(1), 10);
+          if (previousLevel > 0 && level > previousLevel + 1) {
+            report('heading-order', heading, `Heading level jumps from h${previousLevel} to h${level}`);
+          }
+          previousLevel = level;
+        });
+      }
+
+      return found;
+    }, { rules: enabledRules, maxNodes });
+
+  const violations: AccessibilityViolation[] = rawViolations.map(raw => ({
+    rule: raw.rule,
+    impact: ACCESSIBILITY_RULES[raw.rule].impact,
+    message: raw.message,
+    selector: raw.selector,
+    html: raw.html,
+    wcag: ACCESSIBILITY_RULES[raw.rule].wcag
+  }));
+
+  return {
+    url: page.url(),
+    violations,
+    summary: summarizeViolations(violations),
+    timestamp: new Date().toISOString()
+  };
+}
+
+export function summarizeViolations(violations: AccessibilityViolation[]): AccessibilityAuditResult['summary'] {
+  const byRule: Record<string, number> = {};
+  const byImpact: Record<AccessibilityImpact, number> = { critical: 0, serious: 0, moderate: 0, minor: 0 };
+
+  for (const violation of violations) {
+    byRule[violation.rule] = (byRule[violation.rule] || 0) + 1;
+    byImpact[violation.impact]++;
+  }
+
+  return {
+    total: violations.length,
+    byRule,
+    byImpact
+  };
+}
+
+/**
+ * Convert audit violations into TestRun errors so exports fail on regressions
+ */
+export function toAccessibilityErrors(result: AccessibilityAuditResult): TestError[] {
+  return result.violations.map(violation => ({
+    type: 'accessibility' as const,
+    selector: violation.selector,
+    message: `${violation.message} (${violation.rule}, ${violation.wcag.join(', ')})`,
+    code: `E_A11Y_${violation.rule.toUpperCase().replace(/-/g, '_')}`,
+    evidence: {
+      text: violation.html,
+      rule: violation.rule,
+      impact: violation.impact,
+      wcag: violation.wcag
+    },
+    timestamp: result.timestamp
+  }));
+}
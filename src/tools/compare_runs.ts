@@ -0,0 +1,324 @@
+/**
+ * Tool for diffing two stored test runs (e.g. before and after a deploy)
+ */
+
+import { TestRun, TestStep, TestError, Form } from '../types/index.js';
+
+export interface CompareRunsParams {
+  latencyThresholdMs?: number;      // Minimum absolute slowdown to flag (default: 500)
+  latencyThresholdPercent?: number; // Minimum relative slowdown to flag (default: 20)
+}
+
+export type FieldChangeKind = 'added' | 'removed' | 'changed';
+
+export interface FieldChange {
+  form: string;
+  field: string;
+  kind: FieldChangeKind;
+  changes?: Record<string, { baseline: any; candidate: any }>;
+}
+
+export interface StepOutcomeChange {
+  step: string; // inferredIntent of the candidate (or baseline) step
+  selector?: string;
+  baseline: TestStep['outcome'] | 'missing';
+  candidate: TestStep['outcome'] | 'missing';
+}
+
+export interface LatencyRegression {
+  step: string;
+  selector?: string;
+  baselineMs: number;
+  candidateMs: number;
+  deltaMs: number;
+  deltaPercent: number;
+}
+
+export interface ErrorDiffEntry {
+  type: TestError['type'];
+  code: string;
+  message: string;
+  selector?: string;
+  url?: string;
+}
+
+export interface CompareRunsResult {
+  baselineRunId: string;
+  candidateRunId: string;
+  result: {
+    baseline: TestRun['result'];
+    candidate: TestRun['result'];
+    changed: boolean;
+  };
+  fields: FieldChange[];
+  forms: { added: string[]; removed: string[] };
+  stepOutcomes: StepOutcomeChange[];
+  latencyRegressions: LatencyRegression[];
+  errors: {
+    new: ErrorDiffEntry[];
+    resolved: ErrorDiffEntry[];
+  };
+  totalTime: { baselineMs: number; candidateMs: number; deltaMs: number };
+  hasRegressions: boolean;
+  markdown: string;
+}
+
+const COMPARED_FIELD_PROPERTIES = ['type', 'selector', 'required', 'label', 'placeholder', 'rules', 'policy'] as const;
+
+export function compareRuns(baseline: TestRun, candidate: TestRun, params: CompareRunsParams = {}): CompareRunsResult {
+  const thresholdMs = params.latencyThresholdMs ?? 500;
+  const thresholdPercent = params.latencyThresholdPercent ?? 20;
+
+  const { fields, forms } = diffForms(baseline.findings.forms, candidate.findings.forms);
+  const { stepOutcomes, latencyRegressions } = diffSteps(baseline.flow, candidate.flow, thresholdMs, thresholdPercent);
+  const errors = diffErrors(baseline.errors, candidate.errors);
+
+  const comparison: Omit<CompareRunsResult, 'hasRegressions' | 'markdown'> = {
+    baselineRunId: baseline.runId,
+    candidateRunId: candidate.runId,
+    result: {
+      baseline: baseline.result,
+      candidate: candidate.result,
+      changed: baseline.result !== candidate.result
+    },
+    fields,
+    forms,
+    stepOutcomes,
+    latencyRegressions,
+    errors,
+    totalTime: {
+      baselineMs: baseline.metrics.totalTimeMs,
+      candidateMs: candidate.metrics.totalTimeMs,
+      deltaMs: candidate.metrics.totalTimeMs - baseline.metrics.totalTimeMs
+    }
+  };
+
+  const hasRegressions = RESULT_RANK[candidate.result] > RESULT_RANK[baseline.result] ||
+    stepOutcomes.some(change => change.baseline === 'success' && change.candidate !== 'success') ||
+    latencyRegressions.length > 0 ||
+    errors.new.length > 0;
+
+  return {
+    ...comparison,
+    hasRegressions,
+    markdown: renderMarkdown({ ...comparison, hasRegressions })
+  };
+}
+
+const RESULT_RANK: Record<TestRun['result'], number> = {
+  passed: 0,
+  passed_with_warnings: 1,
+  failed: 2
+};
+
+function diffForms(baselineForms: Form[], candidateForms: Form[]): { fields: FieldChange[]; forms: { added: string[]; removed: string[] } } {
+  const baselineByName = new Map(baselineForms.map(form => [form.name, form]));
+  const candidateByName = new Map(candidateForms.map(form => [form.name, form]));
+  const fields: FieldChange[] = [];
+
+  for (const [formName, candidateForm] of candidateByName) {
+    const baselineForm = baselineByName.get(formName);
+    if (!baselineForm) continue;
+
+    const baselineFields = new Map(baselineForm.fields.map(field => [field.name, field]));
+    const candidateFields = new Map(candidateForm.fields.map(field => [field.name, field]));
+
+    for (const [fieldName, candidateField] of candidateFields) {
+      const baselineField = baselineFields.get(fieldName);
+      if (!baselineField) {
+        fields.push({ form: formName, field: fieldName, kind: 'added' });
+        continue;
+      }
+
+      const changes: Record<string, { baseline: any; candidate: any }> = {};
+      for (const property of COMPARED_FIELD_PROPERTIES) {
+        if (JSON.stringify(baselineField[property]) !== JSON.stringify(candidateField[property])) {
+          changes[property] = { baseline: baselineField[property], candidate: candidateField[property] };
+        }
+      }
+
+      if (Object.keys(changes).length > 0) {
+        fields.push({ form: formName, field: fieldName, kind: 'changed', changes });
+      }
+    }
+
+    for (const fieldName of baselineFields.keys()) {
+      if (!candidateFields.has(fieldName)) {
+        fields.push({ form: formName, field: fieldName, kind: 'removed' });
+      }
+    }
+  }
+
+  return {
+    fields,
+    forms: {
+      added: [...candidateByName.keys()].filter(name => !baselineByName.has(name)),
+      removed: [...baselineByName.keys()].filter(name => !candidateByName.has(name))
+    }
+  };
+}
+
+function diffSteps(
+  baselineFlow: TestStep[],
+  candidateFlow: TestStep[],
+  thresholdMs: number,
+  thresholdPercent: number
+): { stepOutcomes: StepOutcomeChange[]; latencyRegressions: LatencyRegression[] } {
+  // stepIds are regenerated per run, so steps are matched on action + target in order of occurrence
+  const baselineSteps = keyByOccurrence(baselineFlow, stepKey);
+  const candidateSteps = keyByOccurrence(candidateFlow, stepKey);
+  const stepOutcomes: StepOutcomeChange[] = [];
+  const latencyRegressions: LatencyRegression[] = [];
+
+  for (const [key, candidateStep] of candidateSteps) {
+    const baselineStep = baselineSteps.get(key);
+
+    if (!baselineStep) {
+      stepOutcomes.push({
+        step: candidateStep.inferredIntent,
+        selector: candidateStep.selector,
+        baseline: 'missing',
+        candidate: candidateStep.outcome
+      });
+      continue;
+    }
+
+    if (baselineStep.outcome !== candidateStep.outcome) {
+      stepOutcomes.push({
+        step: candidateStep.inferredIntent,
+        selector: candidateStep.selector,
+        baseline: baselineStep.outcome,
+        candidate: candidateStep.outcome
+      });
+    }
+
+    const deltaMs = candidateStep.latencyMs - baselineStep.latencyMs;
+    const deltaPercent = baselineStep.latencyMs > 0 ? (deltaMs / baselineStep.latencyMs) * 100 : 100;
+    if (deltaMs > thresholdMs && deltaPercent > thresholdPercent) {
+      latencyRegressions.push({
+        step: candidateStep.inferredIntent,
+        selector: candidateStep.selector,
+        baselineMs: baselineStep.latencyMs,
+        candidateMs: candidateStep.latencyMs,
+        deltaMs,
+        deltaPercent: Math.round(deltaPercent)
+      });
+    }
+  }
+
+  for (const [key, baselineStep] of baselineSteps) {
+    if (!candidateSteps.has(key)) {
+      stepOutcomes.push({
+        step: baselineStep.inferredIntent,
+        selector: baselineStep.selector,
+        baseline: baselineStep.outcome,
+        candidate: 'missing'
+      });
+    }
+  }
+
+  return { stepOutcomes, latencyRegressions };
+}
+
+function diffErrors(baselineErrors: TestError[], candidateErrors: TestError[]): CompareRunsResult['errors'] {
+  const baselineKeys = new Set(baselineErrors.map(errorKey));
+  const candidateKeys = new Set(candidateErrors.map(errorKey));
+
+  return {
+    new: dedupe(candidateErrors.filter(error => !baselineKeys.has(errorKey(error)))).map(toErrorEntry),
+    resolved: dedupe(baselineErrors.filter(error => !candidateKeys.has(errorKey(error)))).map(toErrorEntry)
+  };
+}
+
+function keyByOccurrence<T>(items: T[], keyOf: (item: T) => string): Map<string, T> {
+  const seen = new Map<string, number>();
+  const keyed = new Map<string, T>();
+
+  for (const item of items) {
+    const key = keyOf(item);
+    const occurrence = seen.get(key) || 0;
+    seen.set(key, occurrence + 1);
+    keyed.set(`${key}#${occurrence}`, item);
+  }
+
+  return keyed;
+}
+
+function stepKey(step: TestStep): string {
+  return `${step.action}|${step.selector || step.inferredIntent}`;
+}
+
+function errorKey(error: TestError): string {
+  if (error.type === 'network' && error.evidence?.request) {
+    const { method, url, status } = error.evidence.request;
+    return `network|${method}|${url.split('?')[0]}|${status}`;
+  }
+
+  return `${error.type}|${error.code}|${error.selector || ''}|${error.message}`;
+}
+
+function dedupe(errors: TestError[]): TestError[] {
+  return Array.from(new Map(errors.map(error => [errorKey(error), error])).values());
+}
+
+function toErrorEntry(error: TestError): ErrorDiffEntry {
+  return {
+    type: error.type,
+    code: error.code,
+    message: error.message,
+    ...(error.selector ? { selector: error.selector } : {}),
+    ...(error.evidence?.request ? { url: error.evidence.request.url } : {})
+  };
+}
+
+function renderMarkdown(comparison: Omit<CompareRunsResult, 'markdown'>): string {
+  const lines: string[] = [
+    `## Run comparison: \`${comparison.baselineRunId}\` → \`${comparison.candidateRunId}\``,
+    '',
+    comparison.hasRegressions ? '**Regressions detected.**' : 'No regressions detected.',
+    '',
+    `- Result: ${comparison.result.baseline} → ${comparison.result.candidate}${comparison.result.changed ? ' (changed)' : ''}`,
+    `- Total time: ${comparison.totalTime.baselineMs}ms → ${comparison.totalTime.candidateMs}ms (${signed(comparison.totalTime.deltaMs)}ms)`
+  ];
+
+  if (comparison.forms.added.length > 0 || comparison.forms.removed.length > 0 || comparison.fields.length > 0) {
+    lines.push('', '### Form changes', '');
+    comparison.forms.added.forEach(form => lines.push(`- Form added: \`${form}\``));
+    comparison.forms.removed.forEach(form => lines.push(`- Form removed: \`${form}\``));
+    for (const change of comparison.fields) {
+      const details = change.changes
+        ? ` (${Object.entries(change.changes).map(([property, diff]) =>
+            `${property}: ${JSON.stringify(diff.baseline)} → ${JSON.stringify(diff.candidate)}`).join(', ')})`
+        : '';
+      lines.push(`- Field ${change.kind}: \`${change.form}.${change.field}\`${details}`);
+    }
+  }
+
+  if (comparison.stepOutcomes.length > 0) {
+    lines.push('', '### Step outcome changes', '', '| Step | Selector | Baseline | Candidate |', '| --- | --- | --- | --- |');
+    comparison.stepOutcomes.forEach(change =>
+      lines.push(`| ${cell(change.step)} | ${cell(change.selector || '')} | ${change.baseline} | ${change.candidate} |`));
+  }
+
+  if (comparison.latencyRegressions.length > 0) {
+    lines.push('', '### Latency regressions', '', '| Step | Baseline | Candidate | Delta |', '| --- | --- | --- | --- |');
+    comparison.latencyRegressions.forEach(regression =>
+      lines.push(`| ${cell(regression.step)} | ${regression.baselineMs}ms | ${regression.candidateMs}ms | ${signed(regression.deltaMs)}ms (${signed(regression.deltaPercent)}%) |`));
+  }
+
+  if (comparison.errors.new.length > 0 || comparison.errors.resolved.length > 0) {
+    lines.push('', '### Errors', '');
+    comparison.errors.new.forEach(error => lines.push(`- New ${error.type} error: ${error.message}`));
+    comparison.errors.resolved.forEach(error => lines.push(`- Resolved ${error.type} error: ${error.message}`));
+  }
+
+  return lines.join('\n');
+}
+
+function signed(value: number): string {
+  return value > 0 ? `+${value}` : String(value);
+}
+
+function cell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
@@ -0,0 +1,287 @@
+/**
+ * Tool for diffing the structure of a page against a saved analyze_ui baseline
+ */
+
+import { UIAnalysis, UIBaseline, UIElement, Form, FormField } from '../types/index.js';
+
+export type DriftSeverity = 'high' | 'medium' | 'low';
+
+export interface DiffUIParams {
+  currentUrl?: string;
+  failOn?: DriftSeverity; // Lowest severity that fails the check (default: high)
+}
+
+export interface UIChange {
+  kind: 'added' | 'removed' | 'changed';
+  severity: DriftSeverity;
+  name: string; // Form name, <form>.<field>, button label or landmark role
+  selector?: string;
+  changes?: Record<string, { baseline: any; current: any }>;
+}
+
+export interface DiffUIResult {
+  baseline: string;
+  baselineUrl: string;
+  currentUrl?: string;
+  savedAt: string;
+  forms: UIChange[];
+  fields: UIChange[];
+  buttons: UIChange[];
+  landmarks: UIChange[];
+  summary: Record<DriftSeverity, number>;
+  highestSeverity: DriftSeverity | null;
+  failOn: DriftSeverity;
+  passed: boolean;
+  markdown: string;
+}
+
+const SEVERITY_RANK: Record<DriftSeverity, number> = {
+  low: 0,
+  medium: 1,
+  high: 2
+};
+
+export function diffUI(baseline: UIBaseline, current: UIAnalysis, params: DiffUIParams = {}): DiffUIResult {
+  const failOn = params.failOn || 'high';
+  const { forms, fields } = diffForms(baseline.analysis.forms, current.forms);
+  const buttons = diffButtons(baseline.analysis.buttons, current.buttons);
+  const landmarks = diffLandmarks(baseline.analysis.landmarks, current.landmarks);
+
+  const all = [...forms, ...fields, ...buttons, ...landmarks];
+  const summary: Record<DriftSeverity, number> = { high: 0, medium: 0, low: 0 };
+  all.forEach(change => summary[change.severity]++);
+
+  const highestSeverity = all.reduce<DriftSeverity | null>((highest, change) =>
+    !highest || SEVERITY_RANK[change.severity] > SEVERITY_RANK[highest] ? change.severity : highest, null);
+
+  const comparison: Omit<DiffUIResult, 'markdown'> = {
+    baseline: baseline.name,
+    baselineUrl: baseline.url,
+    ...(params.currentUrl ? { currentUrl: params.currentUrl } : {}),
+    savedAt: baseline.savedAt,
+    forms,
+    fields,
+    buttons,
+    landmarks,
+    summary,
+    highestSeverity,
+    failOn,
+    passed: !highestSeverity || SEVERITY_RANK[highestSeverity] < SEVERITY_RANK[failOn]
+  };
+
+  return {
+    ...comparison,
+    markdown: renderMarkdown(comparison)
+  };
+}
+
+function diffForms(baselineForms: Form[], currentForms: Form[]): { forms: UIChange[]; fields: UIChange[] } {
+  const baselineByKey = keyByOccurrence(baselineForms, form => form.name);
+  const currentByKey = keyByOccurrence(currentForms, form => form.name);
+  const forms: UIChange[] = [];
+  const fields: UIChange[] = [];
+
+  for (const [key, currentForm] of currentByKey) {
+    const baselineForm = baselineByKey.get(key);
+    if (!baselineForm) {
+      // A new form doesn't break anything that worked before
+      forms.push({ kind: 'added', severity: 'low', name: currentForm.name, selector: currentForm.selector });
+      continue;
+    }
+
+    const submitChanges = compareProperties(baselineForm.submit, currentForm.submit, ['selector', 'text']);
+    if (submitChanges) {
+      forms.push({
+        kind: 'changed',
+        severity: submitChanges.selector ? 'medium' : 'low',
+        name: currentForm.name,
+        selector: currentForm.selector,
+        changes: Object.fromEntries(Object.entries(submitChanges).map(([property, diff]) => [`submit.${property}`, diff]))
+      });
+    }
+
+    fields.push(...diffFields(currentForm.name, baselineForm.fields, currentForm.fields));
+  }
+
+  for (const [key, baselineForm] of baselineByKey) {
+    if (!currentByKey.has(key)) {
+      forms.push({ kind: 'removed', severity: 'high', name: baselineForm.name, selector: baselineForm.selector });
+    }
+  }
+
+  return { forms, fields };
+}
+
+function diffFields(formName: string, baselineFields: FormField[], currentFields: FormField[]): UIChange[] {
+  const baselineByName = new Map(baselineFields.map(field => [field.name, field]));
+  const currentByName = new Map(currentFields.map(field => [field.name, field]));
+  const changes: UIChange[] = [];
+
+  for (const [fieldName, currentField] of currentByName) {
+    const baselineField = baselineByName.get(fieldName);
+    const name = `${formName}.${fieldName}`;
+
+    if (!baselineField) {
+      // Submissions that worked before now fail until they fill a new required field
+      changes.push({ kind: 'added', severity: currentField.required ? 'high' : 'low', name, selector: currentField.selector });
+      continue;
+    }
+
+    const fieldChanges = compareProperties(baselineField, currentField, ['type', 'required', 'label', 'selector']);
+    if (fieldChanges) {
+      changes.push({ kind: 'changed', severity: fieldSeverity(fieldChanges), name, selector: currentField.selector, changes: fieldChanges });
+    }
+  }
+
+  for (const [fieldName, baselineField] of baselineByName) {
+    if (!currentByName.has(fieldName)) {
+      changes.push({ kind: 'removed', severity: 'medium', name: `${formName}.${fieldName}`, selector: baselineField.selector });
+    }
+  }
+
+  return changes;
+}
+
+function fieldSeverity(changes: Record<string, { baseline: any; current: any }>): DriftSeverity {
+  if (changes.type || (changes.required && changes.required.current === true)) {
+    return 'high';
+  }
+  if (changes.selector) {
+    return 'medium';
+  }
+  return 'low';
+}
+
+function diffButtons(baselineButtons: UIElement[], currentButtons: UIElement[]): UIChange[] {
+  const baselineByKey = keyByOccurrence(baselineButtons, elementLabel);
+  const currentByKey = keyByOccurrence(currentButtons, elementLabel);
+  const changes: UIChange[] = [];
+
+  for (const [key, currentButton] of currentByKey) {
+    const baselineButton = baselineByKey.get(key);
+    if (!baselineButton) {
+      changes.push({ kind: 'added', severity: 'low', name: elementLabel(currentButton), selector: currentButton.selector });
+      continue;
+    }
+
+    const buttonChanges = compareProperties(
+      { selector: baselineButton.selector, disabled: baselineButton.attributes?.disabled },
+      { selector: currentButton.selector, disabled: currentButton.attributes?.disabled },
+      ['selector', 'disabled']
+    );
+    if (buttonChanges) {
+      const nowDisabled = buttonChanges.disabled?.current === 'true';
+      changes.push({
+        kind: 'changed',
+        severity: nowDisabled || buttonChanges.selector ? 'medium' : 'low',
+        name: elementLabel(currentButton),
+        selector: currentButton.selector,
+        changes: buttonChanges
+      });
+    }
+  }
+
+  for (const [key, baselineButton] of baselineByKey) {
+    if (!currentByKey.has(key)) {
+      changes.push({ kind: 'removed', severity: 'high', name: elementLabel(baselineButton), selector: baselineButton.selector });
+    }
+  }
+
+  return changes;
+}
+
+function diffLandmarks(baselineLandmarks: UIElement[], currentLandmarks: UIElement[]): UIChange[] {
+  const landmarkName = (landmark: UIElement) => landmark.name ? `${landmark.role} "${landmark.name}"` : landmark.role || landmark.type;
+  const baselineByKey = keyByOccurrence(baselineLandmarks, landmarkName);
+  const currentByKey = keyByOccurrence(currentLandmarks, landmarkName);
+  const changes: UIChange[] = [];
+
+  for (const [key, landmark] of currentByKey) {
+    if (!baselineByKey.has(key)) {
+      changes.push({ kind: 'added', severity: 'low', name: landmarkName(landmark), selector: landmark.selector });
+    }
+  }
+
+  for (const [key, landmark] of baselineByKey) {
+    if (!currentByKey.has(key)) {
+      // Navigation and assistive technology rely on landmarks, but the page still works
+      changes.push({ kind: 'removed', severity: 'medium', name: landmarkName(landmark), selector: landmark.selector });
+    }
+  }
+
+  return changes;
+}
+
+function compareProperties<T extends object>(
+  baseline: T,
+  current: T,
+  properties: readonly (keyof T & string)[]
+): Record<string, { baseline: any; current: any }> | null {
+  const changes: Record<string, { baseline: any; current: any }> = {};
+  for (const property of properties) {
+    if (JSON.stringify(baseline[property]) !== JSON.stringify(current[property])) {
+      changes[property] = { baseline: baseline[property], current: current[property] };
+    }
+  }
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+// Buttons are matched on what the user sees, so a restyle that changes selectors isn't a removal
+function elementLabel(element: UIElement): string {
+  const label = (element.name || element.text || '').replace(/\s+/g, ' ').trim();
+  return label ? label.slice(0, 80) : element.selector;
+}
+
+function keyByOccurrence<T>(items: T[], keyOf: (item: T) => string): Map<string, T> {
+  const seen = new Map<string, number>();
+  const keyed = new Map<string, T>();
+
+  for (const item of items) {
+    const key = keyOf(item);
+    const occurrence = seen.get(key) || 0;
+    seen.set(key, occurrence + 1);
+    keyed.set(`${key}#${occurrence}`, item);
+  }
+
+  return keyed;
+}
+
+function renderMarkdown(comparison: Omit<DiffUIResult, 'markdown'>): string {
+  const lines: string[] = [
+    `## UI structure: \`${comparison.baseline}\``,
+    '',
+    comparison.highestSeverity
+      ? `**${comparison.passed ? 'Drift detected' : 'Breaking drift detected'}** (highest severity: ${comparison.highestSeverity}).`
+      : 'No structural changes.',
+    '',
+    `- Baseline: ${comparison.baselineUrl} (saved ${comparison.savedAt})`,
+    ...(comparison.currentUrl ? [`- Current: ${comparison.currentUrl}`] : []),
+    `- Changes: ${comparison.summary.high} high, ${comparison.summary.medium} medium, ${comparison.summary.low} low`
+  ];
+
+  const sections: Array<[string, UIChange[]]> = [
+    ['Forms', comparison.forms],
+    ['Fields', comparison.fields],
+    ['Buttons', comparison.buttons],
+    ['Landmarks', comparison.landmarks]
+  ];
+
+  for (const [title, changes] of sections) {
+    if (changes.length === 0) continue;
+
+    lines.push('', `### ${title}`, '', '| Severity | Change | Element | Details |', '| --- | --- | --- | --- |');
+    for (const change of changes) {
+      const details = change.changes
+        ? Object.entries(change.changes).map(([property, diff]) =>
+            `${property}: ${JSON.stringify(diff.baseline)} → ${JSON.stringify(diff.current)}`).join(', ')
+        : change.selector || '';
+      lines.push(`| ${change.severity} | ${change.kind} | ${cell(change.name)} | ${cell(details)} |`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function cell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
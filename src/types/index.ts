@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { VisualCheckResultSchema } from './visual.js';
 
 // Core MCP Server Types
 export interface MCPToolResult {
@@ -43,6 +44,209 @@ export const DropdownConfigSchema = z.object({
   customSelectors: z.array(z.string()).optional() // Custom option selectors
 });
 
+// Browser engines supported by the Playwright driver
+export const BrowserNameSchema = z.enum(['chromium', 'firefox', 'webkit']);
+
+// Device emulation profile applied to the browser context
+export const DeviceProfileSchema = z.object({
+  name: z.string(),
+  viewport: z.object({
+    width: z.number(),
+    height: z.number()
+  }),
+  userAgent: z.string().optional(), // Falls back to the engine's default user agent
+  deviceScaleFactor: z.number().default(1),
+  isMobile: z.boolean().default(false),
+  hasTouch: z.boolean().default(false),
+  environment: z.enum(['desktop', 'mobile', 'tablet']).optional()
+});
+
+// When to keep a Playwright trace or video of a run
+export const ArtifactModeSchema = z.enum(['off', 'on', 'retain-on-failure']);
+
+// Network mocking: a faked response for requests matching a URL glob
+export const RouteMockSchema = z.object({
+  id: z.string().optional(), // Generated when omitted
+  url: z.string(), // Playwright URL glob, e.g. '**/api/orders*'
+  method: z.string().optional(), // Any method when omitted
+  status: z.number().int().default(200),
+  body: z.any().optional(), // Strings are sent as-is, anything else as JSON
+  headers: z.record(z.string()).optional(),
+  delayMs: z.number().min(0).optional(),
+  times: z.number().int().positive().optional() // Stop matching after this many requests
+});
+
+export const MockedRouteSchema = RouteMockSchema.extend({
+  id: z.string(),
+  hits: z.number(),
+  requests: z.array(z.object({
+    method: z.string(),
+    url: z.string(),
+    timestamp: z.string()
+  }))
+});
+
+// How alert/confirm/prompt/beforeunload dialogs are answered; 'fail' dismisses and fails the step
+export const DialogPolicySchema = z.object({
+  action: z.enum(['accept', 'dismiss', 'fail']),
+  promptText: z.string().optional() // Answer to prompt() when accepting (default: the prompt's default value)
+});
+
+export const DialogRecordSchema = z.object({
+  type: z.enum(['alert', 'confirm', 'prompt', 'beforeunload']),
+  message: z.string(),
+  defaultValue: z.string().optional(),
+  url: z.string(),
+  response: z.enum(['accepted', 'dismissed', 'failed']),
+  promptText: z.string().optional(),
+  timestamp: z.string()
+});
+
+// Emulated network and CPU conditions; latency, bandwidth and CPU slowdown need Chromium (CDP)
+export const ThrottlingProfileSchema = z.object({
+  name: z.string(),
+  offline: z.boolean().optional(),
+  latencyMs: z.number().min(0).optional(), // Added to every request's round trip
+  downloadKbps: z.number().positive().optional(), // Unlimited when absent
+  uploadKbps: z.number().positive().optional(),
+  cpuSlowdown: z.number().min(1).optional() // 4 runs scripts four times slower
+});
+
+// A profile name ('offline', 'slow-3g', 'fast-3g', 'none') or custom conditions, optionally
+// starting from a named profile
+export const ThrottlingInputSchema = z.union([
+  z.string(),
+  ThrottlingProfileSchema.partial().extend({ profile: z.string().optional() }).strict()
+]);
+
+export const GeolocationSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  accuracy: z.number().min(0).optional() // Meters (default: 0)
+});
+
+// What the browser reports as the user's language, time zone and position
+export const EmulationSettingsSchema = z.object({
+  locale: z.string().optional(), // BCP 47 tag, e.g. 'de-DE'; drives navigator.language and Intl formatting
+  timezoneId: z.string().optional(), // IANA zone, e.g. 'Europe/Berlin'
+  geolocation: GeolocationSchema.optional() // Also grants the geolocation permission
+});
+
+// Fake time: 'fixed' freezes Date while timers keep running, 'advancing' starts at time and
+// flows on, 'paused' only moves when advanced explicitly
+export const ClockSettingsSchema = z.object({
+  time: z.union([z.string(), z.number()]) // ISO date or milliseconds since the epoch
+    .refine(time => !isNaN(new Date(time).getTime()), { message: 'Invalid date' }),
+  mode: z.enum(['fixed', 'advancing', 'paused']).default('fixed')
+});
+
+// Browser storage of the current page: cookies sent to it and its origin's web storage
+export const StorageAreaSchema = z.enum(['cookies', 'localStorage', 'sessionStorage']);
+
+export const StorageCookieSchema = z.object({
+  name: z.string(),
+  value: z.string(),
+  domain: z.string().optional(), // Without a domain the cookie is set for the current page's URL
+  path: z.string().optional(),
+  expires: z.number().optional(), // Unix time in seconds; a session cookie when absent
+  httpOnly: z.boolean().optional(),
+  secure: z.boolean().optional(),
+  sameSite: z.enum(['Strict', 'Lax', 'None']).optional()
+});
+
+export const StorageSeedSchema = z.object({
+  cookies: z.array(StorageCookieSchema).optional(),
+  localStorage: z.record(z.any()).optional(), // Non-string values are stored as JSON
+  sessionStorage: z.record(z.any()).optional()
+});
+
+// Assertion on one storage value, used in StartingContext.pageState.customChecks under keys
+// like 'localStorage:cart' or 'cookie:session_id'; a plain value is shorthand for { equals }
+export const StorageCheckSchema = z.object({
+  path: z.string().optional(), // Dotted path into a JSON value, e.g. 'items.length'
+  exists: z.boolean().optional(),
+  equals: z.any().optional(),
+  contains: z.string().optional(),
+  matches: z.string().optional(), // Regular expression
+  gte: z.number().optional(),
+  lte: z.number().optional()
+}).strict();
+
+// A file the page downloaded, saved under the downloads directory
+export const DownloadRecordSchema = z.object({
+  downloadId: z.string(),
+  filename: z.string(), // Name suggested by the server or the download attribute
+  url: z.string(),
+  pageUrl: z.string(), // Page that started the download
+  mimeType: z.string(), // From the file extension
+  path: z.string().optional(), // Absent when the download failed
+  size: z.number().optional(), // Bytes
+  failure: z.string().optional(),
+  timestamp: z.string()
+});
+
+// What verify_download and journey download steps assert about a file
+export const DownloadExpectationSchema = z.object({
+  filename: z.string().optional(), // Glob, * matches anything
+  mimeType: z.string().optional(), // e.g. 'text/csv' or 'image/*'
+  minBytes: z.number().min(0).optional(),
+  maxBytes: z.number().min(0).optional(),
+  csv: z.object({
+    rows: z.number().int().min(0).optional(), // Data rows, excluding the header
+    minRows: z.number().int().min(0).optional(),
+    maxRows: z.number().int().min(0).optional(),
+    columns: z.array(z.string()).optional(), // Header names that must be present
+    delimiter: z.string().length(1).optional(), // Default ','
+    header: z.boolean().optional() // Whether the first row is a header (default: true)
+  }).strict().optional(),
+  json: z.array(StorageCheckSchema).optional(), // Checks on the parsed file, e.g. { path: 'items.length', gte: 1 }
+  textContains: z.array(z.string()).optional()
+}).strict();
+
+// Core Web Vitals and navigation timing of one document, in milliseconds from navigation start
+export const PageVitalsSchema = z.object({
+  url: z.string(),
+  navigationStart: z.number(), // performance.timeOrigin; tells documents at the same URL apart
+  collectedAt: z.string(),
+  lcpMs: z.number().optional(),
+  cls: z.number().optional(),
+  inpMs: z.number().optional(),
+  fidMs: z.number().optional(),
+  ttfbMs: z.number().optional(),
+  domContentLoadedMs: z.number().optional(),
+  loadMs: z.number().optional(),
+  resources: z.object({
+    count: z.number(),
+    transferBytes: z.number(),
+    byType: z.record(z.object({
+      count: z.number(),
+      transferBytes: z.number()
+    }))
+  })
+});
+
+// Upper limits for pages whose URL matches the glob
+export const PerformanceBudgetSchema = z.object({
+  urlPattern: z.string(),
+  lcpMs: z.number().optional(),
+  cls: z.number().optional(),
+  inpMs: z.number().optional(),
+  fidMs: z.number().optional(),
+  ttfbMs: z.number().optional(),
+  domContentLoadedMs: z.number().optional(),
+  loadMs: z.number().optional(),
+  resourceCount: z.number().optional(),
+  transferBytes: z.number().optional()
+});
+
+export const BudgetViolationSchema = z.object({
+  url: z.string(),
+  urlPattern: z.string(),
+  metric: z.string(),
+  actual: z.number(),
+  budget: z.number()
+});
+
 // Form Schema Types
 export const FormFieldSchema = z.object({
   name: z.string(),
@@ -60,6 +264,7 @@ export const FormFieldSchema = z.object({
   }).optional(),
   placeholder: z.string().optional(),
   label: z.string().optional(),
+  customElement: z.string().optional(), // Tag name of a form-associated custom element
   // Enhanced field configuration
   fileUpload: FileUploadConfigSchema.optional(),
   dropdown: DropdownConfigSchema.optional(),
@@ -70,6 +275,7 @@ export const FormFieldSchema = z.object({
 export const FormSchema = z.object({
   name: z.string(),
   selector: z.string().optional(),
+  framePath: z.array(z.string()).optional(), // iframe selectors from the top document; absent for the main frame
   fields: z.array(FormFieldSchema),
   submit: z.object({
     selector: z.string(),
@@ -85,7 +291,7 @@ export const FormInferenceResult = z.object({
 // Test Run Types
 export const TestStepSchema = z.object({
   stepId: z.string(),
-  action: z.enum(['fill', 'click', 'navigate', 'assert', 'wait']),
+  action: z.enum(['fill', 'click', 'navigate', 'assert', 'wait', 'dialog']),
   selector: z.string().optional(),
   inferredIntent: z.string(),
   input: z.record(z.any()).optional(),
@@ -100,7 +306,7 @@ export const TestStepSchema = z.object({
 });
 
 export const ErrorSchema = z.object({
-  type: z.enum(['validation', 'console', 'network', 'timeout', 'accessibility']),
+  type: z.enum(['validation', 'console', 'network', 'timeout', 'accessibility', 'performance', 'visual', 'dialog']),
   selector: z.string().optional(),
   message: z.string(),
   code: z.string(),
@@ -108,6 +314,10 @@ export const ErrorSchema = z.object({
     text: z.string().optional(),
     ariaLive: z.boolean().optional(),
     screenshot: z.string().optional(),
+    rule: z.string().optional(),
+    impact: z.enum(['critical', 'serious', 'moderate', 'minor']).optional(),
+    wcag: z.array(z.string()).optional(),
+    throttling: z.string().optional(), // Profile the message was shown under
     request: z.object({
       method: z.string(),
       url: z.string(),
@@ -120,10 +330,14 @@ export const ErrorSchema = z.object({
 
 export const TestRunSchema = z.object({
   runId: z.string(),
+  startedAt: z.string().optional(),
   target: z.object({
     url: z.string(),
     viewport: z.string(),
-    userAgent: z.string()
+    userAgent: z.string(),
+    browser: BrowserNameSchema.optional(),
+    device: z.string().optional(),
+    throttling: ThrottlingProfileSchema.optional() // Conditions the run was emulated under
   }),
   flow: z.array(TestStepSchema),
   findings: z.object({
@@ -131,7 +345,8 @@ export const TestRunSchema = z.object({
     accessibility: z.object({
       axeViolations: z.number(),
       details: z.array(z.any())
-    }).optional()
+    }).optional(),
+    visual: VisualCheckResultSchema.optional() // The final page against its visualCheckpoint baseline
   }),
   errors: z.array(ErrorSchema),
   result: z.enum(['passed', 'passed_with_warnings', 'failed']),
@@ -139,8 +354,16 @@ export const TestRunSchema = z.object({
     totalTimeMs: z.number(),
     steps: z.number(),
     networkErrors: z.number(),
-    consoleErrors: z.number()
-  })
+    consoleErrors: z.number(),
+    performance: z.array(PageVitalsSchema).optional() // Each page the run loaded, when collected
+  }),
+  artifacts: z.object({
+    screenshots: z.array(z.string()).optional(),
+    mocks: z.array(MockedRouteSchema).optional(),
+    har: z.string().optional(), // Full network capture, when requested with recordHar
+    trace: z.string().optional(), // Playwright trace zip; open with `npx playwright show-trace`
+    video: z.string().optional()
+  }).optional()
 });
 
 // UI Analysis Types
@@ -156,7 +379,8 @@ export const UIElementSchema = z.object({
     y: z.number(),
     width: z.number(),
     height: z.number()
-  }).optional()
+  }).optional(),
+  framePath: z.array(z.string()).optional()
 });
 
 export const UIAnalysisResult = z.object({
@@ -167,6 +391,15 @@ export const UIAnalysisResult = z.object({
   landmarks: z.array(UIElementSchema)
 });
 
+// analyze_ui result saved under a name, for diff_ui to compare later snapshots against
+export const UIBaselineSchema = z.object({
+  name: z.string(),
+  url: z.string(),
+  variant: z.string(), // Browser and device the snapshot was taken on
+  savedAt: z.string(),
+  analysis: UIAnalysisResult
+});
+
 // Driver Types
 export interface Driver {
   navigate(url: string, waitUntil?: 'load' | 'domcontentloaded' | 'networkidle'): Promise<void>;
@@ -179,14 +412,42 @@ export interface Driver {
   close(): Promise<void>;
 }
 
+export interface TabInfo {
+  index: number; // Position in the session's tabs, oldest first
+  url: string;
+  title: string;
+  active: boolean;
+}
+
+// A tab by position, or the first whose URL (substring or * glob) and title (substring) match
+export interface TabTarget {
+  index?: number;
+  url?: string;
+  title?: string;
+}
+
+export interface StorageSnapshot {
+  url: string;
+  origin: string;
+  cookies?: Required<StorageCookie>[];
+  localStorage?: Record<string, string>;
+  sessionStorage?: Record<string, string>;
+}
+
 // Tool Parameter Types
 export interface NavigateParams {
   url: string;
   waitUntil?: 'load' | 'domcontentloaded' | 'networkidle';
+  browser?: BrowserName;
+  device?: string;
+  performance?: boolean;
+  budgets?: PerformanceBudget[];
+  throttling?: ThrottlingInput; // Only for this call; the session's conditions are restored afterwards
 }
 
 export interface AnalyzeUIParams {
   scope?: 'viewport' | 'document';
+  saveBaseline?: string; // Keep the result as a structural baseline for diff_ui
 }
 
 export interface InferFormParams {
@@ -197,12 +458,28 @@ export interface InferFormParams {
 export interface FillAndSubmitParams {
   formSchema: z.infer<typeof FormSchema>;
   overrides?: Record<string, any>;
+  recordHar?: boolean;
+  trace?: ArtifactMode;
+  video?: ArtifactMode;
+  performance?: boolean;
+  budgets?: PerformanceBudget[];
+  throttling?: ThrottlingInput; // Only for this call; the session's conditions are restored afterwards
+  visualCheckpoint?: string;
 }
 
 export interface RunFlowParams {
   goal: string;
   url?: string;
   constraints?: Record<string, any>;
+  browser?: BrowserName;
+  device?: string;
+  recordHar?: boolean;
+  trace?: ArtifactMode;
+  video?: ArtifactMode;
+  performance?: boolean;
+  budgets?: PerformanceBudget[];
+  throttling?: ThrottlingInput; // Only for this call; the session's conditions are restored afterwards
+  visualCheckpoint?: string;
 }
 
 export interface AssertSelectorsParams {
@@ -215,15 +492,39 @@ export interface AssertSelectorsParams {
 }
 
 export interface CollectErrorsParams {
-  types?: Array<'console' | 'network' | 'validation'>;
+  types?: Array<'console' | 'network' | 'validation' | 'accessibility'>;
 }
 
 export interface ExportReportParams {
   runId: string;
-  format: 'json' | 'junit' | 'allure';
+  format: 'json' | 'junit' | 'allure' | 'html' | 'sarif' | 'ctrf';
+  outputPath?: string;
 }
 
 // Type exports
+export type BrowserName = z.infer<typeof BrowserNameSchema>;
+export type DeviceProfile = z.infer<typeof DeviceProfileSchema>;
+export type ArtifactMode = z.infer<typeof ArtifactModeSchema>;
+export type RouteMock = z.infer<typeof RouteMockSchema>;
+export type RouteMockInput = z.input<typeof RouteMockSchema>;
+export type MockedRoute = z.infer<typeof MockedRouteSchema>;
+export type DialogPolicy = z.infer<typeof DialogPolicySchema>;
+export type DialogRecord = z.infer<typeof DialogRecordSchema>;
+export type ThrottlingProfile = z.infer<typeof ThrottlingProfileSchema>;
+export type ThrottlingInput = z.infer<typeof ThrottlingInputSchema>;
+export type Geolocation = z.infer<typeof GeolocationSchema>;
+export type EmulationSettings = z.infer<typeof EmulationSettingsSchema>;
+export type ClockSettings = z.infer<typeof ClockSettingsSchema>;
+export type ClockSettingsInput = z.input<typeof ClockSettingsSchema>;
+export type StorageArea = z.infer<typeof StorageAreaSchema>;
+export type StorageCookie = z.infer<typeof StorageCookieSchema>;
+export type StorageSeed = z.infer<typeof StorageSeedSchema>;
+export type StorageCheck = z.infer<typeof StorageCheckSchema>;
+export type DownloadRecord = z.infer<typeof DownloadRecordSchema>;
+export type DownloadExpectation = z.infer<typeof DownloadExpectationSchema>;
+export type PageVitals = z.infer<typeof PageVitalsSchema>;
+export type PerformanceBudget = z.infer<typeof PerformanceBudgetSchema>;
+export type BudgetViolation = z.infer<typeof BudgetViolationSchema>;
 export type FileUploadConfig = z.infer<typeof FileUploadConfigSchema>;
 export type DropdownConfig = z.infer<typeof DropdownConfigSchema>;
 export type FormField = z.infer<typeof FormFieldSchema>;
@@ -234,6 +535,7 @@ export type TestError = z.infer<typeof ErrorSchema>;
 export type TestRun = z.infer<typeof TestRunSchema>;
 export type UIElement = z.infer<typeof UIElementSchema>;
 export type UIAnalysis = z.infer<typeof UIAnalysisResult>;
+export type UIBaseline = z.infer<typeof UIBaselineSchema>;
 
 // Additional types for enhanced features
 export interface ClickButtonParams {
@@ -1,17 +1,22 @@
 import { z } from 'zod';
+import { ArtifactModeSchema, BrowserNameSchema, MockedRouteSchema, PageVitalsSchema, BudgetViolationSchema, DialogPolicySchema, DialogRecordSchema, ThrottlingProfileSchema, EmulationSettingsSchema, ClockSettingsSchema, DownloadRecordSchema } from './index.js';
+import { VisualCheckOptionsSchema, VisualCheckResultSchema } from './visual.js';
 
 // Core Journey Types
 export const JourneyStepSchema = z.object({
   id: z.string(),
-  action: z.enum(['click', 'fill', 'select', 'navigate', 'wait', 'assert', 'upload', 'drag_drop']),
+  action: z.enum(['click', 'fill', 'select', 'navigate', 'wait', 'assert', 'upload', 'drag_drop', 'mock_route', 'clear_mocks', 'dialog', 'switch_tab', 'throttle', 'download']),
   selector: z.string().optional(),
+  framePath: z.array(z.string()).optional(), // iframe selectors leading to the element; absent for the main frame
   value: z.any().optional(),
   description: z.string(),
   timestamp: z.string(),
   url: z.string(),
   waitAfter: z.number().optional(),
   screenshot: z.string().optional(),
-  metadata: z.record(z.any()).optional()
+  visualCheck: VisualCheckOptionsSchema.optional(), // Compare against the step's baseline on every replay
+  dialog: DialogPolicySchema.optional(), // Answer to dialogs the step opens; dialog steps hold the recorded answer
+  metadata: z.record(z.any()).optional() // mock_route steps keep their RouteMock under 'mock', clear_mocks an optional 'mockId', throttle steps the profile under 'throttling' (null for none), download steps a DownloadExpectation under 'download'
 });
 
 export const StartingContextSchema = z.object({
@@ -29,7 +34,11 @@ export const StartingContextSchema = z.object({
     customChecks: z.record(z.any()).optional()
   }).optional(),
   minContentLength: z.number().optional(),
-  maxLoadTime: z.number().optional()
+  maxLoadTime: z.number().optional(),
+  authState: z.string().optional(), // Saved auth state restored before validation
+  // Pinned before replay so date- and locale-dependent journeys behave the same every run
+  ...EmulationSettingsSchema.shape,
+  clock: ClockSettingsSchema.optional()
 });
 
 export const FallbackStrategySchema = z.object({
@@ -50,6 +59,7 @@ export const JourneyMetadataSchema = z.object({
   lastUsed: z.string().optional(),
   difficulty: z.enum(['easy', 'medium', 'hard']).default('medium'),
   environment: z.array(z.enum(['desktop', 'mobile', 'tablet'])).default(['desktop']),
+  device: z.string().optional(), // Device profile to replay on; otherwise picked from environment
   browserCompatibility: z.array(z.string()).default(['chromium'])
 });
 
@@ -93,12 +103,34 @@ export const PlaybackConfigSchema = z.object({
   screenshotOnFailure: z.boolean().default(true),
   continueOnNonCriticalErrors: z.boolean().default(true),
   validateContext: z.boolean().default(true),
-  timeoutMs: z.number().default(30000)
+  timeoutMs: z.number().default(30000),
+  browser: BrowserNameSchema.optional(), // Engine to replay in; defaults to the driver's current browser
+  device: z.string().optional(), // Device profile to replay on; overrides the journey's environment
+  trace: ArtifactModeSchema.optional(), // Playwright trace of the replay (default: off)
+  video: ArtifactModeSchema.optional(), // Video of the replay (default: off)
+  collectPerformance: z.boolean().optional(), // Read Core Web Vitals after every step
+  visualChecks: z.boolean().optional(), // Compare every step with its baseline, not only steps with visualCheck
+  visualVariant: z.string().optional() // Browser and device baselines are looked up for
 });
 
 // Journey Execution Result
+export const JourneyStepResultSchema = z.object({
+  stepId: z.string(),
+  action: z.string(),
+  description: z.string(),
+  selector: z.string().optional(),
+  status: z.enum(['passed', 'failed', 'skipped']),
+  startTime: z.string(),
+  durationMs: z.number(),
+  retries: z.number().default(0),
+  error: z.string().optional(),
+  vitals: PageVitalsSchema.optional(), // The page's vitals once the step finished, when collected
+  visual: VisualCheckResultSchema.optional()
+});
+
 export const JourneyExecutionResultSchema = z.object({
   journeyId: z.string(),
+  journeyName: z.string().optional(),
   executionId: z.string(),
   startTime: z.string(),
   endTime: z.string(),
@@ -113,7 +145,21 @@ export const JourneyExecutionResultSchema = z.object({
   })),
   warnings: z.array(z.string()),
   screenshots: z.array(z.string()),
+  stepResults: z.array(JourneyStepResultSchema).optional(),
+  startUrl: z.string().optional(),
   finalUrl: z.string(),
+  browser: BrowserNameSchema.optional(),
+  device: z.string().optional(),
+  throttling: ThrottlingProfileSchema.optional(), // Conditions the replay started under; throttle steps may change them
+  mocks: z.array(MockedRouteSchema).optional(), // Responses faked by mock_route steps
+  har: z.string().optional(),
+  trace: z.string().optional(),
+  video: z.string().optional(),
+  performance: z.array(PageVitalsSchema).optional(), // Each page the replay loaded, when collected
+  budgetViolations: z.array(BudgetViolationSchema).optional(),
+  visualChecks: z.array(VisualCheckResultSchema).optional(),
+  dialogs: z.array(DialogRecordSchema).optional(), // Dialogs answered during the replay
+  downloads: z.array(DownloadRecordSchema).optional(), // Files taken by download steps
   contextValidation: z.object({
     passed: z.boolean(),
     details: z.record(z.any())
@@ -165,6 +211,31 @@ export const JourneyAnalysisSchema = z.object({
   similarJourneys: z.array(z.string())
 });
 
+// Saved Playwright storageState (cookies and localStorage) restored by name
+export const AuthStateSchema = z.object({
+  name: z.string(),
+  savedAt: z.string(),
+  url: z.string().optional(),
+  storageState: z.object({
+    cookies: z.array(z.object({
+      name: z.string(),
+      value: z.string(),
+      domain: z.string(),
+      path: z.string(),
+      expires: z.number(),
+      httpOnly: z.boolean(),
+      secure: z.boolean(),
+      sameSite: z.enum(['Strict', 'Lax', 'None'])
+    })),
+    origins: z.array(z.object({
+      origin: z.string(),
+      localStorage: z.array(z.object({
+        name: z.string(),
+        value: z.string()
+      }))
+    }))
+  })
+});
 
 export const JourneySearchFiltersSchema = z.object({
   category: z.string().optional(),
@@ -190,10 +261,12 @@ export type FallbackStrategy = z.infer<typeof FallbackStrategySchema>;
 export type JourneyMetadata = z.infer<typeof JourneyMetadataSchema>;
 export type RecordingConfig = z.infer<typeof RecordingConfigSchema>;
 export type PlaybackConfig = z.infer<typeof PlaybackConfigSchema>;
+export type JourneyStepResult = z.infer<typeof JourneyStepResultSchema>;
 export type JourneyExecutionResult = z.infer<typeof JourneyExecutionResultSchema>;
 export type JourneySearchCriteria = z.infer<typeof JourneySearchCriteriaSchema>;
 export type JourneySearchResult = z.infer<typeof JourneySearchResultSchema>;
 export type JourneyAnalysis = z.infer<typeof JourneyAnalysisSchema>;
+export type AuthState = z.infer<typeof AuthStateSchema>;
 
 // Journey Events for real-time updates
 export interface JourneyEvent {
@@ -221,6 +294,7 @@ export interface JourneyStorageConfig {
   baseDir: string; // ~/.ui-probe/journeys/
   collectionsDir: string; // collections/
   templatesDir: string; // templates/
+  authStatesDir: string; // auth/
   backupsDir: string; // backups/
   indexFile: string; // index.json
   maxBackups: number;
@@ -0,0 +1,40 @@
+import { TestRun } from './index.js';
+
+// Configuration for run history directory structure
+export interface RunStorageConfig {
+  baseDir: string; // ~/.ui-probe/runs/
+  artifactsDir: string; // <runId>/artifacts/
+  indexFile: string; // index.json
+  runFile: string; // <runId>/run.json
+  executionsDir: string; // executions/<executionId>/ for journey playback results
+  executionFile: string; // execution.json
+  maxRuns: number; // oldest runs are pruned beyond this
+}
+
+// Lightweight entry kept in the run index
+export interface RunSummary {
+  runId: string;
+  url: string;
+  result: TestRun['result'];
+  startedAt: string;
+  savedAt: string;
+  steps: number;
+  errors: number;
+  totalTimeMs: number;
+  formNames: string[];
+}
+
+export interface RunQuery {
+  url?: string; // substring match against target URL
+  result?: TestRun['result'] | Array<TestRun['result']>;
+  from?: string; // ISO date, inclusive
+  to?: string; // ISO date, inclusive
+  limit?: number;
+  offset?: number;
+}
+
+export interface RunQueryResult {
+  runs: RunSummary[];
+  totalCount: number;
+  hasMore: boolean;
+}
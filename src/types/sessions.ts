@@ -0,0 +1,30 @@
+import { BrowserName, ClockSettingsInput, DialogPolicy, EmulationSettings } from './index.js';
+
+// Configuration for concurrent browser sessions
+export interface SessionConfig {
+  idleTimeoutMs: number; // sessions unused for this long are closed
+  sweepIntervalMs: number; // how often idle sessions are checked
+  maxSessions: number; // excluding the default session
+}
+
+export interface OpenSessionOptions extends EmulationSettings {
+  label?: string;
+  browser?: BrowserName;
+  device?: string;
+  dialogPolicy?: DialogPolicy;
+  clock?: ClockSettingsInput;
+}
+
+// Session details reported by list_sessions
+export interface SessionInfo {
+  sessionId: string;
+  label?: string;
+  isDefault: boolean;
+  browser: BrowserName;
+  device: string;
+  url: string;
+  recording: boolean;
+  createdAt: string;
+  lastUsedAt: string;
+  idleMs: number;
+}
@@ -0,0 +1,84 @@
+import { z } from 'zod';
+
+// Area of the screenshot, in CSS pixels, left out of the comparison
+export const IgnoreRegionSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number()
+});
+
+export const VisualCheckOptionsSchema = z.object({
+  maxDiffRatio: z.number().min(0).max(1).optional(), // Share of pixels allowed to differ (default: 0.001)
+  pixelThreshold: z.number().min(0).max(1).optional(), // Per-pixel color tolerance, 0 is exact (default: 0.1)
+  mask: z.array(z.string()).optional(), // Selectors painted over before the screenshot, e.g. timestamps or ads
+  ignoreRegions: z.array(IgnoreRegionSchema).optional(),
+  fullPage: z.boolean().optional()
+});
+
+// Where a compared screenshot came from
+export const VisualSourceSchema = z.object({
+  runId: z.string().optional(),
+  executionId: z.string().optional(),
+  journeyId: z.string().optional(),
+  stepId: z.string().optional(),
+  url: z.string().optional()
+});
+
+export const VisualBaselineSchema = z.object({
+  name: z.string(), // Checkpoint name; journey steps use <journeyId>/<stepId>
+  variant: z.string(), // Browser and device the screenshot was taken on
+  imagePath: z.string(),
+  width: z.number(),
+  height: z.number(),
+  approvedAt: z.string(),
+  options: VisualCheckOptionsSchema.optional(), // Reused by later checks unless overridden
+  source: VisualSourceSchema.optional()
+});
+
+export const VisualDiffSchema = z.object({
+  diffId: z.string(),
+  name: z.string(),
+  variant: z.string(),
+  result: z.enum(['mismatch', 'missing_baseline']),
+  status: z.enum(['pending', 'approved']),
+  createdAt: z.string(),
+  mismatchedPixels: z.number().optional(),
+  mismatchRatio: z.number().optional(),
+  maxDiffRatio: z.number().optional(),
+  sizeChanged: z.boolean().optional(),
+  actualPath: z.string(),
+  baselinePath: z.string().optional(),
+  diffPath: z.string().optional(), // Changed pixels in red over a faded baseline
+  options: VisualCheckOptionsSchema.optional(),
+  source: VisualSourceSchema.optional()
+});
+
+export const VisualCheckResultSchema = z.object({
+  name: z.string(),
+  variant: z.string(),
+  status: z.enum(['match', 'mismatch', 'missing_baseline']),
+  mismatchRatio: z.number().optional(),
+  sizeChanged: z.boolean().optional(),
+  maxDiffRatio: z.number(),
+  diffId: z.string().optional(),
+  diffPath: z.string().optional(),
+  baselinePath: z.string().optional()
+});
+
+// Configuration for visual baseline directory structure
+export interface VisualStorageConfig {
+  baseDir: string; // ~/.ui-probe/visual/
+  baselinesDir: string; // baselines/<variant>/<name>.png with a .json alongside
+  diffsDir: string; // diffs/<diffId>/ holding actual, baseline and diff images
+  structuresDir: string; // structures/<name>.json, analyze_ui results saved for diff_ui
+  maxDiffRatio: number;
+  pixelThreshold: number;
+}
+
+export type IgnoreRegion = z.infer<typeof IgnoreRegionSchema>;
+export type VisualCheckOptions = z.infer<typeof VisualCheckOptionsSchema>;
+export type VisualSource = z.infer<typeof VisualSourceSchema>;
+export type VisualBaseline = z.infer<typeof VisualBaselineSchema>;
+export type VisualDiff = z.infer<typeof VisualDiffSchema>;
+export type VisualCheckResult = z.infer<typeof VisualCheckResultSchema>;
@@ -0,0 +1,50 @@
+import { Page } from 'playwright';
+import { AuthState } from '../types/journey.js';
+import logger from './logger.js';
+
+/**
+ * Restore saved cookies and localStorage into the page's live context. Playwright only accepts
+ * storageState when a context is created, so localStorage is written by visiting each origin;
+ * the page then returns to where it was so the app picks up the restored session
+ */
+export async function applyAuthState(page: Page, storageState: AuthState['storageState'], timeoutMs = 30000): Promise<void> {
+  const context = page.context();
+  const returnUrl = page.url();
+
+  await context.clearCookies();
+  if (storageState.cookies.length > 0) {
+    await context.addCookies(storageState.cookies);
+  }
+
+  for (const { origin, localStorage: items } of storageState.origins) {
+    if (items.length === 0) continue;
+
+    if (originOf(page.url()) !== origin) {
+      await page.goto(origin, { waitUntil: 'domcontentloaded', timeout: timeoutMs });
+    }
+
+    await page.evaluate(entries => {
+      for (const { name, value } of entries) {
+        window.localStorage.setItem(name, value);
+      }
+    }, items);
+  }
+
+  if (returnUrl !== 'about:blank') {
+    await page.goto(returnUrl, { waitUntil: 'domcontentloaded', timeout: timeoutMs });
+  }
+
+  logger.info('Auth state applied', {
+    cookies: storageState.cookies.length,
+    origins: storageState.origins.length,
+    url: page.url()
+  });
+}
+
+function originOf(url: string): string | null {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+}
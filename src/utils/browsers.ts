@@ -0,0 +1,32 @@
+import { chromium, firefox, webkit, Browser, BrowserType, Page } from 'playwright';
+import { BrowserName, BrowserNameSchema } from '../types/index.js';
+
+export const BROWSER_TYPES: Record<BrowserName, BrowserType> = {
+  chromium,
+  firefox,
+  webkit
+};
+
+export async function launchBrowser(browserName: BrowserName): Promise<Browser> {
+  // Sandbox flags are Chromium-only; Firefox and WebKit reject unknown args
+  return BROWSER_TYPES[browserName].launch({
+    headless: process.env.NODE_ENV === 'production',
+    ...(browserName === 'chromium' ? { args: ['--no-sandbox', '--disable-setuid-sandbox'] } : {})
+  });
+}
+
+export function parseBrowserName(value?: string): BrowserName | undefined {
+  const parsed = BrowserNameSchema.safeParse(value?.toLowerCase());
+  return parsed.success ? parsed.data : undefined;
+}
+
+/**
+ * Engine a page is running in, read from its browser so callers don't have to thread it through
+ */
+export function getPageBrowserName(page: Page): BrowserName | undefined {
+  try {
+    return parseBrowserName(page.context().browser()?.browserType().name());
+  } catch {
+    return undefined;
+  }
+}
@@ -1,4 +1,5 @@
-import { Page, Locator } from 'playwright';
+import { Locator } from 'playwright';
+import { FrameScope } from './frames.js';
 import logger from './logger.js';
 
 interface CheckboxMapping {
@@ -14,7 +15,7 @@ export class CheckboxResolver {
    * Handles cases where value attributes don't match label text
    */
   async resolveCheckbox(
-    page: Page,
+    page: FrameScope,
     fieldName: string,
     targetValue: string | string[]
   ): Promise<string[]> {
@@ -34,7 +35,7 @@ export class CheckboxResolver {
   }
 
   private async findCheckboxSelector(
-    page: Page,
+    page: FrameScope,
     fieldName: string,
     targetValue: string
   ): Promise<string | null> {
@@ -99,7 +100,7 @@ export class CheckboxResolver {
   }
 
   private async getCheckboxMappings(
-    page: Page,
+    page: FrameScope,
     fieldName: string
   ): Promise<CheckboxMapping[]> {
     const mappings: CheckboxMapping[] = [];
@@ -230,7 +231,7 @@ export class CheckboxResolver {
   }
 
   private async findByLabelAssociation(
-    page: Page,
+    page: FrameScope,
     fieldName: string,
     targetValue: string
   ): Promise<string | null> {
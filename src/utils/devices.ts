@@ -0,0 +1,152 @@
+import { readFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { devices, BrowserContextOptions, Page } from 'playwright';
+import { BrowserName, DeviceProfile, DeviceProfileSchema } from '../types/index.js';
+import { Journey } from '../types/journey.js';
+import { MCPUIError } from './errors.js';
+import logger from './logger.js';
+
+export type DeviceEnvironment = NonNullable<DeviceProfile['environment']>;
+
+export const DEFAULT_DEVICE_PROFILE: DeviceProfile = {
+  name: 'Desktop',
+  viewport: { width: 1280, height: 800 },
+  deviceScaleFactor: 1,
+  isMobile: false,
+  hasTouch: false,
+  environment: 'desktop'
+};
+
+// Profile used when a journey only says which kind of device it was recorded on
+const ENVIRONMENT_DEVICES: Record<DeviceEnvironment, string> = {
+  desktop: DEFAULT_DEVICE_PROFILE.name,
+  mobile: 'Pixel 7',
+  tablet: 'iPad (gen 7)'
+};
+
+export class DeviceProfiles {
+  private customProfiles: Map<string, DeviceProfile> | null = null;
+
+  constructor(private configFile = process.env.UI_PROBE_DEVICES_FILE || path.join(os.homedir(), '.ui-probe', 'devices.json')) {}
+
+  /**
+   * Resolve a profile by name (case-insensitive): custom profiles first, then Playwright descriptors
+   */
+  resolve(name: string): DeviceProfile {
+    const key = name.toLowerCase();
+
+    const custom = this.getCustomProfiles().get(key);
+    if (custom) return custom;
+
+    if (key === DEFAULT_DEVICE_PROFILE.name.toLowerCase()) return DEFAULT_DEVICE_PROFILE;
+
+    const descriptorName = Object.keys(devices).find(deviceName => deviceName.toLowerCase() === key);
+    if (descriptorName) return this.fromDescriptor(descriptorName);
+
+    throw new MCPUIError(`Unknown device profile: ${name}`, 'E_UNKNOWN_DEVICE', {
+      available: this.list().map(profile => profile.name)
+    });
+  }
+
+  list(): DeviceProfile[] {
+    return [
+      DEFAULT_DEVICE_PROFILE,
+      ...this.getCustomProfiles().values(),
+      ...Object.keys(devices).map(deviceName => this.fromDescriptor(deviceName))
+    ];
+  }
+
+  forEnvironment(environment: DeviceEnvironment): DeviceProfile {
+    return this.resolve(ENVIRONMENT_DEVICES[environment]);
+  }
+
+  /**
+   * Pick the profile a journey should replay on: an explicit device wins, then the current
+   * profile if it matches one of the journey's environments, then the first environment's default
+   */
+  selectForJourney(journey: Journey, current: DeviceProfile): DeviceProfile {
+    if (journey.metadata.device) {
+      return this.resolve(journey.metadata.device);
+    }
+
+    const environments = journey.metadata.environment;
+    if (environments.length === 0 || environments.includes(environmentOf(current))) {
+      return current;
+    }
+
+    return this.forEnvironment(environments[0]);
+  }
+
+  private fromDescriptor(deviceName: string): DeviceProfile {
+    const descriptor = devices[deviceName];
+    const profile: DeviceProfile = {
+      name: deviceName,
+      viewport: descriptor.viewport,
+      userAgent: descriptor.userAgent,
+      deviceScaleFactor: descriptor.deviceScaleFactor,
+      isMobile: descriptor.isMobile,
+      hasTouch: descriptor.hasTouch
+    };
+    return { ...profile, environment: environmentOf(profile) };
+  }
+
+  private getCustomProfiles(): Map<string, DeviceProfile> {
+    if (this.customProfiles) return this.customProfiles;
+
+    this.customProfiles = new Map();
+    try {
+      const content = JSON.parse(readFileSync(this.configFile, 'utf8'));
+      // Accept either an array of profiles or a { name: profile } map
+      const entries = Array.isArray(content)
+        ? content
+        : Object.entries(content).map(([name, profile]) => ({ name, ...(profile as object) }));
+
+      for (const entry of entries) {
+        const parsed = DeviceProfileSchema.safeParse(entry);
+        if (parsed.success) {
+          this.customProfiles.set(parsed.data.name.toLowerCase(), {
+            ...parsed.data,
+            environment: parsed.data.environment || environmentOf(parsed.data)
+          });
+        } else {
+          logger.warn('Ignoring invalid custom device profile', { entry, issues: parsed.error.issues });
+        }
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn('Failed to load custom device profiles', { configFile: this.configFile, error });
+      }
+    }
+
+    return this.customProfiles;
+  }
+}
+
+export function environmentOf(profile: DeviceProfile): DeviceEnvironment {
+  if (profile.environment) return profile.environment;
+  if (!profile.isMobile && !profile.hasTouch) return 'desktop';
+  return Math.min(profile.viewport.width, profile.viewport.height) >= 600 ? 'tablet' : 'mobile';
+}
+
+export function toContextOptions(profile: DeviceProfile, browser: BrowserName): BrowserContextOptions {
+  return {
+    viewport: profile.viewport,
+    deviceScaleFactor: profile.deviceScaleFactor,
+    hasTouch: profile.hasTouch,
+    // Firefox has no mobile emulation mode and rejects the option outright
+    ...(browser === 'firefox' ? {} : { isMobile: profile.isMobile }),
+    ...(profile.userAgent ? { userAgent: profile.userAgent } : {})
+  };
+}
+
+export function formatViewport(page: Page): string {
+  try {
+    const size = page.viewportSize();
+    return size ? `${size.width}x${size.height}` : 'unknown';
+  } catch {
+    return 'unknown';
+  }
+}
+
+export const deviceProfiles = new DeviceProfiles();
@@ -0,0 +1,189 @@
+import { BrowserContext, Dialog } from 'playwright';
+import { v4 as uuidv4 } from 'uuid';
+import { DialogPolicy, DialogPolicySchema, DialogRecord, TestError, TestStep } from '../types/index.js';
+import { ValidationError } from './errors.js';
+import logger from './logger.js';
+
+type DialogListener = (record: DialogRecord) => void;
+
+/**
+ * Answers the dialogs of every page in one browser context. Only one listener may accept or
+ * dismiss a dialog, so the driver, journey player and recorder share the handler of a context
+ * (see dialogHandlerFor) instead of each listening themselves
+ */
+export class DialogHandler {
+  private policy: DialogPolicy = defaultDialogPolicy();
+  private stepPolicy: DialogPolicy | null = null;
+  private queued: DialogPolicy[] = [];
+  private records: DialogRecord[] = [];
+  private listeners = new Set<DialogListener>();
+
+  constructor(context: BrowserContext) {
+    context.on('dialog', dialog => {
+      this.handle(dialog).catch(error => logger.warn('Failed to answer dialog', { type: dialog.type(), error }));
+    });
+  }
+
+  getPolicy(): DialogPolicy {
+    return this.policy;
+  }
+
+  setPolicy(policy: DialogPolicy): void {
+    this.policy = parseDialogPolicy(policy);
+  }
+
+  /**
+   * Override the policy until the returned function is called, e.g. for one journey step
+   */
+  override(policy: DialogPolicy): () => void {
+    this.stepPolicy = parseDialogPolicy(policy);
+    return () => {
+      this.stepPolicy = null;
+    };
+  }
+
+  /**
+   * Answer the next dialogs with these responses, in order, before falling back to the policy
+   */
+  queue(responses: DialogPolicy[]): void {
+    this.queued = responses.map(parseDialogPolicy);
+  }
+
+  clearQueue(): void {
+    this.queued = [];
+  }
+
+  /**
+   * Dialogs answered so far, optionally only those since a point in time
+   */
+  list(since?: Date): DialogRecord[] {
+    return since
+      ? this.records.filter(record => new Date(record.timestamp) >= since)
+      : [...this.records];
+  }
+
+  onDialog(listener: DialogListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async handle(dialog: Dialog): Promise<void> {
+    const policy = this.queued.shift() || this.stepPolicy || this.policy;
+    const type = dialog.type() as DialogRecord['type'];
+    const promptText = type === 'prompt' && policy.action === 'accept'
+      ? policy.promptText ?? dialog.defaultValue()
+      : undefined;
+
+    const record: DialogRecord = {
+      type,
+      message: dialog.message(),
+      ...(type === 'prompt' ? { defaultValue: dialog.defaultValue() } : {}),
+      url: dialog.page()?.url() || '',
+      response: policy.action === 'accept' ? 'accepted' : policy.action === 'dismiss' ? 'dismissed' : 'failed',
+      ...(promptText !== undefined ? { promptText } : {}),
+      timestamp: new Date().toISOString()
+    };
+    this.records.push(record);
+
+    if (policy.action === 'accept') {
+      await dialog.accept(promptText);
+    } else {
+      await dialog.dismiss();
+    }
+
+    logger.info('Dialog answered', { type, message: record.message, response: record.response });
+    this.listeners.forEach(listener => listener(record));
+  }
+}
+
+const handlers = new WeakMap<BrowserContext, DialogHandler>();
+
+/**
+ * The dialog handler of a context, created on first use
+ */
+export function dialogHandlerFor(context: BrowserContext): DialogHandler {
+  let handler = handlers.get(context);
+  if (!handler) {
+    handler = new DialogHandler(context);
+    handlers.set(context, handler);
+  }
+  return handler;
+}
+
+/**
+ * Session default from UI_PROBE_DIALOG_POLICY (accept, dismiss or fail); accepting keeps flows
+ * moving past confirmations the way a user clicking through would
+ */
+export function defaultDialogPolicy(): DialogPolicy {
+  const action = process.env.UI_PROBE_DIALOG_POLICY;
+  return action === 'dismiss' || action === 'fail' ? { action } : { action: 'accept' };
+}
+
+export function parseDialogPolicy(policy: unknown): DialogPolicy {
+  const parsed = DialogPolicySchema.safeParse(policy);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid dialog policy', parsed.error.issues);
+  }
+  return parsed.data;
+}
+
+export function describeDialog(record: DialogRecord): string {
+  if (record.response === 'failed') {
+    return `Unexpected ${record.type} "${record.message}"`;
+  }
+
+  const verb = record.response === 'accepted' ? 'Accept' : 'Dismiss';
+  const answer = record.promptText !== undefined ? ` with "${record.promptText}"` : '';
+  return `${verb} ${record.type} "${record.message}"${answer}`;
+}
+
+/**
+ * Add answered dialogs to a run's steps. Steps are stamped when they finish, so each dialog
+ * goes right after the step that was running when it opened
+ */
+export function mergeDialogSteps(flow: TestStep[], records: DialogRecord[]): TestStep[] {
+  const merged = [...flow];
+
+  for (const record of records) {
+    const step: TestStep = {
+      stepId: uuidv4(),
+      action: 'dialog',
+      inferredIntent: describeDialog(record),
+      input: {
+        type: record.type,
+        message: record.message,
+        response: record.response,
+        ...(record.promptText !== undefined ? { promptText: record.promptText } : {})
+      },
+      outcome: record.response === 'failed' ? 'fail' : 'success',
+      latencyMs: 0,
+      timestamp: record.timestamp
+    };
+
+    const trigger = merged.findIndex(existing => existing.action !== 'dialog' && existing.timestamp >= record.timestamp);
+    if (trigger === -1) {
+      merged.push(step);
+    } else {
+      // After the trigger and any dialogs it already opened
+      let position = trigger + 1;
+      while (position < merged.length && merged[position].action === 'dialog') position++;
+      merged.splice(position, 0, step);
+    }
+  }
+
+  return merged;
+}
+
+export function toDialogErrors(records: DialogRecord[]): TestError[] {
+  return records
+    .filter(record => record.response === 'failed')
+    .map(record => ({
+      type: 'dialog' as const,
+      message: `Unexpected ${record.type} dialog: "${record.message}"`,
+      code: 'E_UNEXPECTED_DIALOG',
+      evidence: { text: record.url },
+      timestamp: record.timestamp
+    }));
+}
@@ -0,0 +1,278 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { BrowserContext, Download, Page } from 'playwright';
+import { v4 as uuidv4 } from 'uuid';
+import { DownloadExpectation, DownloadExpectationSchema, DownloadRecord } from '../types/index.js';
+import { MCPUIError, ValidationError } from './errors.js';
+import { matchesUrlPattern } from './performance.js';
+import { checkStorageValue } from './storage.js';
+import logger from './logger.js';
+
+const MIME_TYPES: Record<string, string> = {
+  '.csv': 'text/csv',
+  '.tsv': 'text/tab-separated-values',
+  '.txt': 'text/plain',
+  '.html': 'text/html',
+  '.xml': 'application/xml',
+  '.json': 'application/json',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.xls': 'application/vnd.ms-excel',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.ics': 'text/calendar',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.svg': 'image/svg+xml'
+};
+
+export function downloadsDir(): string {
+  return process.env.UI_PROBE_DOWNLOADS_DIR || path.join(os.homedir(), '.ui-probe', 'downloads');
+}
+
+export function mimeTypeOf(filename: string): string {
+  return MIME_TYPES[path.extname(filename).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Saves every download of one browser context under the downloads directory, in the order they
+ * started. The driver and journey player share the capture of a context (see downloadsFor)
+ */
+export class DownloadCapture {
+  private downloads: Promise<DownloadRecord>[] = [];
+  private waiters = new Set<() => void>();
+
+  constructor(context: BrowserContext, private dir = downloadsDir()) {
+    // Downloads are page events; pages opened later (e.g. an export popup) are watched too
+    const watch = (page: Page) => page.on('download', download => this.capture(download));
+    context.pages().forEach(watch);
+    context.on('page', watch);
+  }
+
+  /**
+   * Downloads started so far, including ones still in progress
+   */
+  count(): number {
+    return this.downloads.length;
+  }
+
+  /**
+   * Every download of the context, once saved or failed
+   */
+  list(): Promise<DownloadRecord[]> {
+    return Promise.all(this.downloads);
+  }
+
+  /**
+   * The download at a position (oldest first), waiting up to timeoutMs for it to start
+   */
+  async waitFor(index: number, timeoutMs: number): Promise<DownloadRecord> {
+    if (index >= this.downloads.length) {
+      await new Promise<void>((resolve, reject) => {
+        const waiter = () => {
+          if (index < this.downloads.length) {
+            clearTimeout(timer);
+            this.waiters.delete(waiter);
+            resolve();
+          }
+        };
+        const timer = setTimeout(() => {
+          this.waiters.delete(waiter);
+          reject(new MCPUIError(`No download started within ${timeoutMs}ms`, 'E_DOWNLOAD_TIMEOUT'));
+        }, timeoutMs);
+        this.waiters.add(waiter);
+      });
+    }
+    return this.downloads[index];
+  }
+
+  private capture(download: Download): void {
+    this.downloads.push(this.save(download));
+    this.waiters.forEach(waiter => waiter());
+  }
+
+  private async save(download: Download): Promise<DownloadRecord> {
+    const filename = path.basename(download.suggestedFilename());
+    const record: DownloadRecord = {
+      downloadId: uuidv4(),
+      filename,
+      url: download.url(),
+      pageUrl: download.page().url(),
+      mimeType: mimeTypeOf(filename),
+      timestamp: new Date().toISOString()
+    };
+
+    try {
+      // Resolves once the download finished or failed
+      const failure = await download.failure();
+      if (failure) {
+        logger.warn('Download failed', { filename, failure });
+        return { ...record, failure };
+      }
+
+      // One directory per download keeps the suggested name without collisions
+      const filePath = path.join(this.dir, record.downloadId, filename);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await download.saveAs(filePath);
+      const { size } = await fs.stat(filePath);
+
+      logger.info('Download saved', { filename, path: filePath, size });
+      return { ...record, path: filePath, size };
+    } catch (error) {
+      logger.warn('Failed to save download', { filename, error });
+      return { ...record, failure: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
+
+const captures = new WeakMap<BrowserContext, DownloadCapture>();
+
+/**
+ * The download capture of a context, created on first use
+ */
+export function downloadsFor(context: BrowserContext): DownloadCapture {
+  let capture = captures.get(context);
+  if (!capture) {
+    capture = new DownloadCapture(context);
+    captures.set(context, capture);
+  }
+  return capture;
+}
+
+export function parseDownloadExpectation(expected: unknown): DownloadExpectation {
+  const parsed = DownloadExpectationSchema.safeParse(expected);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid download expectation', parsed.error.issues);
+  }
+  return parsed.data;
+}
+
+/**
+ * Check a saved download against an expectation, returning why it fails (empty when it holds)
+ */
+export async function verifyDownload(download: DownloadRecord, expected: unknown): Promise<string[]> {
+  const expectation = parseDownloadExpectation(expected);
+  if (download.failure || !download.path) {
+    return [`download failed: ${download.failure || 'no file saved'}`];
+  }
+
+  const failures: string[] = [];
+  const size = download.size ?? 0;
+
+  if (expectation.filename !== undefined && !matchesUrlPattern(download.filename, expectation.filename)) {
+    failures.push(`filename expected to match "${expectation.filename}", got "${download.filename}"`);
+  }
+  if (expectation.mimeType !== undefined && !matchesUrlPattern(download.mimeType, expectation.mimeType)) {
+    failures.push(`MIME type expected "${expectation.mimeType}", got "${download.mimeType}"`);
+  }
+  if (expectation.minBytes !== undefined && size < expectation.minBytes) {
+    failures.push(`size expected >= ${expectation.minBytes} bytes, got ${size}`);
+  }
+  if (expectation.maxBytes !== undefined && size > expectation.maxBytes) {
+    failures.push(`size expected <= ${expectation.maxBytes} bytes, got ${size}`);
+  }
+
+  if (!expectation.csv && !expectation.json && !expectation.textContains) {
+    return failures;
+  }
+
+  const text = await fs.readFile(download.path, 'utf8');
+
+  for (const part of expectation.textContains || []) {
+    if (!text.includes(part)) {
+      failures.push(`expected to contain "${part}"`);
+    }
+  }
+
+  if (expectation.csv) {
+    failures.push(...checkCsv(text, expectation.csv));
+  }
+
+  for (const check of expectation.json || []) {
+    const failure = checkStorageValue(text, check);
+    if (failure) {
+      failures.push(`JSON ${failure}`);
+    }
+  }
+
+  return failures;
+}
+
+function checkCsv(text: string, expected: NonNullable<DownloadExpectation['csv']>): string[] {
+  const records = parseCsv(text, expected.delimiter || ',');
+  const hasHeader = expected.header ?? true;
+  const header = hasHeader ? records[0] || [] : [];
+  const rows = hasHeader ? Math.max(records.length - 1, 0) : records.length;
+  const failures: string[] = [];
+
+  if (expected.rows !== undefined && rows !== expected.rows) {
+    failures.push(`CSV expected ${expected.rows} rows, got ${rows}`);
+  }
+  if (expected.minRows !== undefined && rows < expected.minRows) {
+    failures.push(`CSV expected >= ${expected.minRows} rows, got ${rows}`);
+  }
+  if (expected.maxRows !== undefined && rows > expected.maxRows) {
+    failures.push(`CSV expected <= ${expected.maxRows} rows, got ${rows}`);
+  }
+
+  const missing = (expected.columns || []).filter(column => !header.includes(column));
+  if (missing.length > 0) {
+    failures.push(`CSV missing columns: ${missing.join(', ')}`);
+  }
+
+  return failures;
+}
+
+/**
+ * Split CSV into records, honouring quoted fields with delimiters, quotes and line breaks;
+ * blank lines are skipped
+ */
+function parseCsv(text: string, delimiter = ','): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || record[0] !== '') {
+      records.push(record);
+    }
+    record = [];
+    field = '';
+  };
+
+  // A byte order mark from spreadsheet exports would end up in the first header name
+  const content = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
@@ -0,0 +1,108 @@
+import { BrowserContext, BrowserContextOptions } from 'playwright';
+import { ClockSettings, ClockSettingsInput, ClockSettingsSchema, EmulationSettings, EmulationSettingsSchema } from '../types/index.js';
+import { ValidationError } from './errors.js';
+
+/**
+ * Validate emulation settings, dropping unset keys so they can be merged over the current ones
+ */
+export function parseEmulation(input: EmulationSettings): EmulationSettings {
+  const parsed = EmulationSettingsSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid emulation settings', parsed.error.issues);
+  }
+
+  const { locale, timezoneId, geolocation } = parsed.data;
+  // Playwright only reports bad values once a context is created, so check them with Intl first
+  if (locale !== undefined) {
+    try {
+      Intl.getCanonicalLocales(locale);
+    } catch {
+      throw new ValidationError(`Invalid locale: ${locale}`, { locale });
+    }
+  }
+  if (timezoneId !== undefined) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezoneId });
+    } catch {
+      throw new ValidationError(`Invalid time zone: ${timezoneId}`, { timezoneId });
+    }
+  }
+
+  return {
+    ...(locale !== undefined ? { locale } : {}),
+    ...(timezoneId !== undefined ? { timezoneId } : {}),
+    ...(geolocation !== undefined ? { geolocation } : {})
+  };
+}
+
+export function parseClock(input: ClockSettingsInput): ClockSettings {
+  const parsed = ClockSettingsSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid clock settings', parsed.error.issues);
+  }
+  return parsed.data;
+}
+
+export function emulationOptions(emulation: EmulationSettings): BrowserContextOptions {
+  return {
+    ...(emulation.locale ? { locale: emulation.locale } : {}),
+    ...(emulation.timezoneId ? { timezoneId: emulation.timezoneId } : {}),
+    ...(emulation.geolocation ? { geolocation: emulation.geolocation, permissions: ['geolocation'] } : {})
+  };
+}
+
+/**
+ * Install the fake clock in every page of a context, including pages opened later. Playwright
+ * cannot uninstall it, so switching modes re-times the installed clock
+ */
+export async function applyClock(context: BrowserContext, clock: ClockSettings): Promise<void> {
+  const time = new Date(clock.time);
+
+  switch (clock.mode) {
+    case 'fixed':
+      await context.clock.setFixedTime(time);
+      await context.clock.resume();
+      break;
+    case 'advancing':
+      await context.clock.install({ time });
+      await context.clock.resume();
+      break;
+    case 'paused':
+      await context.clock.install({ time });
+      await context.clock.pauseAt(time);
+      break;
+  }
+}
+
+/**
+ * Where a clock set at setAt (ms since epoch) stands now: an advancing clock has moved on with
+ * real time since, fixed and paused clocks have not
+ */
+export function clockNow(clock: ClockSettings, setAt: number, now = Date.now()): ClockSettings {
+  if (clock.mode !== 'advancing') {
+    return clock;
+  }
+  return { ...clock, time: new Date(new Date(clock.time).getTime() + now - setAt).toISOString() };
+}
+
+/**
+ * Move an installed clock forward. Paused clocks fire the timers due on the way; advancing
+ * clocks jump ahead and fixed clocks are re-fixed later. Returns the settings with the new time
+ */
+export async function advanceClock(context: BrowserContext, clock: ClockSettings, ms: number): Promise<ClockSettings> {
+  const time = new Date(clock.time).getTime() + ms;
+
+  switch (clock.mode) {
+    case 'fixed':
+      await context.clock.setFixedTime(time);
+      break;
+    case 'advancing':
+      await context.clock.fastForward(ms);
+      break;
+    case 'paused':
+      await context.clock.runFor(ms);
+      break;
+  }
+
+  return { ...clock, time: new Date(time).toISOString() };
+}
@@ -0,0 +1,53 @@
+import { Frame, FrameLocator, Locator, Page } from 'playwright';
+
+/**
+ * Frames are addressed by the chain of iframe selectors leading to them from the top document,
+ * e.g. ['#checkout', 'iframe[name="card-number"]']; an empty or missing path is the page itself
+ */
+export async function framePathOf(frame: Frame): Promise<string[]> {
+  const framePath: string[] = [];
+  let current = frame;
+  let parent = current.parentFrame();
+
+  while (parent) {
+    const element = await current.frameElement();
+    framePath.unshift(await element.evaluate((el: Element) => {
+      const tag = el.tagName.toLowerCase();
+      const quote = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+      if (el.id) {
+        return `${tag}#${CSS.escape(el.id)}`;
+      }
+
+      for (const attribute of ['name', 'title', 'data-testid', 'src']) {
+        const value = el.getAttribute(attribute);
+        if (value && !value.startsWith('data:') && !value.startsWith('javascript:')) {
+          return `${tag}[${attribute}="${quote(value)}"]`;
+        }
+      }
+
+      // Anonymous frames fall back to their position in the parent document
+      const index = Array.from(el.ownerDocument.querySelectorAll(tag)).indexOf(el);
+      return `${tag} >> nth=${index}`;
+    }));
+
+    current = parent;
+    parent = current.parentFrame();
+  }
+
+  return framePath;
+}
+
+// The page or iframe a frame path leads to; both offer locator() and the getBy* queries
+export type FrameScope = Page | FrameLocator;
+
+export function frameScope(page: Page, framePath: string[] = []): FrameScope {
+  return framePath.reduce<FrameScope>(
+    (parentScope, frameSelector) => parentScope.frameLocator(frameSelector),
+    page
+  );
+}
+
+export function locateInFrame(page: Page, selector: string, framePath: string[] = []): Locator {
+  return frameScope(page, framePath).locator(selector);
+}
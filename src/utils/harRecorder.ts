@@ -0,0 +1,180 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Page, Request } from 'playwright';
+import logger from './logger.js';
+
+// Bodies above this size are left out of the HAR to keep artifacts manageable
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+const TEXT_MIME_TYPE = /^(text\/|application\/(json|javascript|ecmascript|xml|x-www-form-urlencoded|graphql)|image\/svg\+xml)|\+(json|xml)/i;
+
+interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    cookies: HarNameValue[];
+    headersSize: number;
+    bodySize: number;
+    postData?: { mimeType: string; text: string };
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarNameValue[];
+    cookies: HarNameValue[];
+    content: { size: number; mimeType: string; text?: string; encoding?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+    _failureText?: string;
+  };
+  cache: Record<string, never>;
+  timings: {
+    blocked: number;
+    dns: number;
+    connect: number;
+    ssl: number;
+    send: number;
+    wait: number;
+    receive: number;
+  };
+}
+
+export interface Har {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+/**
+ * Captures every request a page makes (not just failed ones) as HAR 1.2, with response bodies
+ * so the file can later be served back through BrowserContext.routeFromHAR
+ */
+export class HarRecorder {
+  private entries: HarEntry[] = [];
+  private pending: Set<Promise<void>> = new Set();
+  private onFinished = (request: Request) => this.track(request);
+  private onFailed = (request: Request) => this.track(request, request.failure()?.errorText || 'failed');
+
+  constructor(private page: Page) {}
+
+  start(): void {
+    this.page.on('requestfinished', this.onFinished);
+    this.page.on('requestfailed', this.onFailed);
+  }
+
+  async stop(): Promise<Har> {
+    this.page.off('requestfinished', this.onFinished);
+    this.page.off('requestfailed', this.onFailed);
+    await Promise.allSettled(this.pending);
+
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: 'mcp-ui-probe', version: '0.1.0' },
+        entries: [...this.entries].sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime))
+      }
+    };
+  }
+
+  async save(outputPath: string): Promise<{ path: string; entries: number }> {
+    const har = await this.stop();
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+    await fs.writeFile(outputPath, JSON.stringify(har, null, 2), 'utf8');
+
+    logger.info('HAR saved', { path: outputPath, entries: har.log.entries.length });
+    return { path: outputPath, entries: har.log.entries.length };
+  }
+
+  private track(request: Request, failureText?: string): void {
+    if (request.url().startsWith('data:')) return;
+
+    const entry = toHarEntry(request, failureText)
+      .then(harEntry => { this.entries.push(harEntry); })
+      .catch(error => { logger.debug('Failed to capture HAR entry', { url: request.url(), error }); })
+      .finally(() => this.pending.delete(entry));
+    this.pending.add(entry);
+  }
+}
+
+export async function toHarEntry(request: Request, failureText?: string): Promise<HarEntry> {
+  const response = failureText ? null : await request.response().catch(() => null);
+  const timing = request.timing();
+  const startedAt = timing.startTime > 0 ? timing.startTime : Date.now();
+
+  const requestHeaders = await request.allHeaders().catch(() => request.headers());
+  const responseHeaders = response ? await response.allHeaders().catch(() => response.headers()) : {};
+  const mimeType = responseHeaders['content-type'] || 'x-unknown';
+
+  // Redirects and aborted requests have no body
+  const body = response ? await response.body().catch(() => null) : null;
+  const isText = TEXT_MIME_TYPE.test(mimeType);
+  const keepBody = body !== null && body.length <= MAX_BODY_BYTES;
+
+  const postData = request.postData();
+  const url = new URL(request.url());
+
+  return {
+    startedDateTime: new Date(startedAt).toISOString(),
+    time: Math.max(0, timing.responseEnd),
+    request: {
+      method: request.method(),
+      url: request.url(),
+      httpVersion: 'HTTP/1.1',
+      headers: toNameValues(requestHeaders),
+      queryString: Array.from(url.searchParams.entries()).map(([name, value]) => ({ name, value })),
+      cookies: [],
+      headersSize: -1,
+      bodySize: postData ? Buffer.byteLength(postData) : 0,
+      ...(postData ? { postData: { mimeType: requestHeaders['content-type'] || 'application/octet-stream', text: postData } } : {})
+    },
+    response: {
+      status: response?.status() ?? 0,
+      statusText: response?.statusText() ?? '',
+      httpVersion: 'HTTP/1.1',
+      headers: toNameValues(responseHeaders),
+      cookies: [],
+      content: {
+        size: body?.length ?? 0,
+        mimeType,
+        ...(keepBody ? (isText ? { text: body!.toString('utf8') } : { text: body!.toString('base64'), encoding: 'base64' }) : {})
+      },
+      redirectURL: responseHeaders['location'] || '',
+      headersSize: -1,
+      bodySize: body?.length ?? -1,
+      ...(failureText ? { _failureText: failureText } : {})
+    },
+    cache: {},
+    timings: {
+      blocked: -1,
+      dns: span(timing.domainLookupStart, timing.domainLookupEnd),
+      connect: span(timing.connectStart, timing.connectEnd),
+      ssl: span(timing.secureConnectionStart, timing.connectEnd),
+      send: 0,
+      wait: Math.max(0, span(timing.requestStart, timing.responseStart)),
+      receive: Math.max(0, span(timing.responseStart, timing.responseEnd))
+    }
+  };
+}
+
+// Playwright reports unavailable timing points as -1
+function span(start: number, end: number): number {
+  return start >= 0 && end >= 0 ? end - start : -1;
+}
+
+function toNameValues(headers: Record<string, string>): HarNameValue[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
@@ -0,0 +1,267 @@
+import { promises as fs } from 'fs';
+import { BrowserContext, Page, Request } from 'playwright';
+import {
+  PageVitals,
+  PerformanceBudget,
+  PerformanceBudgetSchema,
+  BudgetViolation,
+  TestError
+} from '../types/index.js';
+import { MCPUIError, ValidationError } from './errors.js';
+import logger from './logger.js';
+
+// Contexts that already run the observer on every new document
+const instrumentedContexts = new WeakSet<BrowserContext>();
+
+/**
+ * Runs inside the page, before its own scripts when installed as an init script, and keeps the
+ * Core Web Vitals observed so far on window.__uiProbeVitals. Buffered observers also pick up
+ * entries from before it was installed into an already loaded page.
+ */
+export function installVitalsObserver(): void {
+  const target = window as any;
+  if (target.__uiProbeVitals) return;
+
+  const vitals: { lcp?: number; cls: number; inp?: number; fid?: number } = { cls: 0 };
+  target.__uiProbeVitals = vitals;
+
+  const observe = (type: string, callback: (entries: any[]) => void, options: Record<string, unknown> = {}) => {
+    try {
+      new PerformanceObserver(list => callback(list.getEntries()))
+        .observe({ type, buffered: true, ...options } as PerformanceObserverInit);
+    } catch {
+      // Entry type not supported by this engine (LCP, layout shifts and event timing are Chromium-only)
+    }
+  };
+
+  observe('largest-contentful-paint', entries => {
+    vitals.lcp = entries[entries.length - 1].startTime;
+  });
+
+  // CLS is the worst session window: shifts less than 1s apart, spanning at most 5s
+  let sessionValue = 0;
+  let sessionStart = 0;
+  let lastShift = 0;
+  observe('layout-shift', entries => {
+    for (const entry of entries) {
+      if (entry.hadRecentInput) continue;
+
+      if (sessionValue > 0 && (entry.startTime - lastShift > 1000 || entry.startTime - sessionStart > 5000)) {
+        sessionValue = 0;
+      }
+      if (sessionValue === 0) {
+        sessionStart = entry.startTime;
+      }
+
+      sessionValue += entry.value;
+      lastShift = entry.startTime;
+      vitals.cls = Math.max(vitals.cls, sessionValue);
+    }
+  });
+
+  // INP is approximated by the slowest interaction, which is exact below 50 interactions
+  observe('event', entries => {
+    for (const entry of entries) {
+      if (entry.interactionId) {
+        vitals.inp = Math.max(vitals.inp ?? 0, entry.duration);
+      }
+    }
+  }, { durationThreshold: 16 });
+
+  observe('first-input', entries => {
+    if (entries[0]) {
+      vitals.fid = entries[0].processingStart - entries[0].startTime;
+    }
+  });
+}
+
+/**
+ * Vitals, navigation timing and resource totals of the page's current document; null when
+ * the observer isn't installed there
+ */
+export async function readPageVitals(page: Page): Promise<PageVitals | null> {
+  try {
+    const vitals = await page.evaluate(() => {
+      const observed = (window as any).__uiProbeVitals;
+      if (!observed) return null;
+
+      const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+      const byType: Record<string, { count: number; transferBytes: number }> = {};
+      let count = 0;
+      let transferBytes = 0;
+
+      for (const entry of performance.getEntriesByType('resource') as PerformanceResourceTiming[]) {
+        const type = entry.initiatorType || 'other';
+        byType[type] = byType[type] || { count: 0, transferBytes: 0 };
+        byType[type].count++;
+        byType[type].transferBytes += entry.transferSize || 0;
+        count++;
+        transferBytes += entry.transferSize || 0;
+      }
+
+      // Timing points that haven't happened yet are reported as 0
+      const ms = (value?: number) => value && value > 0 ? Math.round(value) : undefined;
+
+      return {
+        url: location.href,
+        navigationStart: performance.timeOrigin,
+        lcpMs: ms(observed.lcp),
+        cls: Math.round(observed.cls * 10000) / 10000,
+        inpMs: ms(observed.inp),
+        fidMs: observed.fid !== undefined ? Math.round(observed.fid) : undefined,
+        ttfbMs: ms(navigation?.responseStart),
+        domContentLoadedMs: ms(navigation?.domContentLoadedEventEnd),
+        loadMs: ms(navigation?.loadEventEnd),
+        resources: { count, transferBytes, byType }
+      };
+    });
+
+    return vitals ? { ...vitals, collectedAt: new Date().toISOString() } : null;
+  } catch (error) {
+    // The document may be navigating away or closed
+    logger.debug('Failed to read page vitals', { url: page.url(), error });
+    return null;
+  }
+}
+
+/**
+ * Collects vitals of every document a page shows while running: each one is read just before
+ * the page navigates away from it, and the current one when stopped
+ */
+export class PerformanceCollector {
+  private pages: Map<number, PageVitals> = new Map();
+  private pending: Set<Promise<void>> = new Set();
+  private onRequest = (request: Request) => {
+    if (request.isNavigationRequest() && request.frame() === this.page.mainFrame()) {
+      this.track();
+    }
+  };
+
+  constructor(private page: Page) {}
+
+  async start(): Promise<void> {
+    const context = this.page.context();
+    if (!instrumentedContexts.has(context)) {
+      await context.addInitScript(installVitalsObserver);
+      instrumentedContexts.add(context);
+    }
+
+    // Init scripts only reach new documents; buffered observers still report the current one's past entries
+    await this.page.evaluate(installVitalsObserver).catch(() => undefined);
+    this.page.on('request', this.onRequest);
+  }
+
+  async stop(): Promise<PageVitals[]> {
+    this.page.off('request', this.onRequest);
+    await Promise.allSettled(this.pending);
+
+    // Give the load event a moment so load timing is available for the current document
+    await this.page.waitForLoadState('load', { timeout: 5000 }).catch(() => undefined);
+    this.record(await readPageVitals(this.page));
+
+    return Array.from(this.pages.values());
+  }
+
+  private track(): void {
+    const read = readPageVitals(this.page)
+      .then(vitals => this.record(vitals))
+      .finally(() => this.pending.delete(read));
+    this.pending.add(read);
+  }
+
+  // Later readings of the same document replace earlier ones
+  private record(vitals: PageVitals | null): void {
+    if (vitals && vitals.url !== 'about:blank') {
+      this.pages.delete(vitals.navigationStart);
+      this.pages.set(vitals.navigationStart, vitals);
+    }
+  }
+}
+
+const BUDGET_METRICS: Array<{
+  key: Exclude<keyof PerformanceBudget, 'urlPattern'>;
+  label: string;
+  unit: string;
+  value: (vitals: PageVitals) => number | undefined;
+}> = [
+  { key: 'lcpMs', label: 'LCP', unit: 'ms', value: vitals => vitals.lcpMs },
+  { key: 'cls', label: 'CLS', unit: '', value: vitals => vitals.cls },
+  { key: 'inpMs', label: 'INP', unit: 'ms', value: vitals => vitals.inpMs },
+  { key: 'fidMs', label: 'FID', unit: 'ms', value: vitals => vitals.fidMs },
+  { key: 'ttfbMs', label: 'TTFB', unit: 'ms', value: vitals => vitals.ttfbMs },
+  { key: 'domContentLoadedMs', label: 'DOMContentLoaded', unit: 'ms', value: vitals => vitals.domContentLoadedMs },
+  { key: 'loadMs', label: 'Load time', unit: 'ms', value: vitals => vitals.loadMs },
+  { key: 'resourceCount', label: 'Resource count', unit: '', value: vitals => vitals.resources.count },
+  { key: 'transferBytes', label: 'Transfer size', unit: ' bytes', value: vitals => vitals.resources.transferBytes }
+];
+
+/**
+ * Glob match where * spans any characters, including slashes
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i').test(url);
+}
+
+export function checkBudgets(pages: PageVitals[], budgets: PerformanceBudget[]): BudgetViolation[] {
+  const violations: BudgetViolation[] = [];
+
+  for (const vitals of pages) {
+    for (const budget of budgets.filter(candidate => matchesUrlPattern(vitals.url, candidate.urlPattern))) {
+      for (const metric of BUDGET_METRICS) {
+        const limit = budget[metric.key];
+        const actual = metric.value(vitals);
+
+        if (limit !== undefined && actual !== undefined && actual > limit) {
+          violations.push({ url: vitals.url, urlPattern: budget.urlPattern, metric: metric.key, actual, budget: limit });
+        }
+      }
+    }
+  }
+
+  return violations;
+}
+
+export function toPerformanceErrors(violations: BudgetViolation[], timestamp = new Date().toISOString()): TestError[] {
+  return violations.map(violation => {
+    const metric = BUDGET_METRICS.find(candidate => candidate.key === violation.metric);
+    const label = metric?.label ?? violation.metric;
+    const unit = metric?.unit ?? '';
+
+    return {
+      type: 'performance' as const,
+      message: `${label} of ${violation.actual}${unit} exceeds the ${violation.budget}${unit} budget for ${violation.url}`,
+      code: 'E_PERFORMANCE_BUDGET',
+      evidence: { text: `${violation.metric} > ${violation.budget} (${violation.urlPattern})` },
+      timestamp
+    };
+  });
+}
+
+/**
+ * Budgets from the JSON file named by UI_PROBE_PERFORMANCE_BUDGETS (an array of budgets),
+ * or none when it isn't set
+ */
+export async function loadPerformanceBudgets(filePath = process.env.UI_PROBE_PERFORMANCE_BUDGETS): Promise<PerformanceBudget[]> {
+  if (!filePath) return [];
+
+  let content: unknown;
+  try {
+    content = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (error) {
+    throw new MCPUIError(`Failed to read performance budgets from ${filePath}`, 'E_PERFORMANCE_BUDGETS', error);
+  }
+
+  const parsed = PerformanceBudgetSchema.array().safeParse(content);
+  if (!parsed.success) {
+    throw new ValidationError(`Invalid performance budgets in ${filePath}`, parsed.error.issues);
+  }
+  return parsed.data;
+}
+
+export function isPerformanceCollectionDefault(): boolean {
+  return process.env.UI_PROBE_PERFORMANCE === 'true';
+}
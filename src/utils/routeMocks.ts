@@ -0,0 +1,146 @@
+import { BrowserContext, Route } from 'playwright';
+import { v4 as uuidv4 } from 'uuid';
+import { RouteMock, RouteMockInput, RouteMockSchema, MockedRoute } from '../types/index.js';
+import { MCPUIError, ValidationError } from './errors.js';
+import logger from './logger.js';
+
+interface ActiveMock {
+  mock: RouteMock & { id: string };
+  requests: MockedRoute['requests'];
+  handler: (route: Route) => Promise<void>;
+}
+
+/**
+ * A set of faked responses routed on one browser context at a time; re-attaching carries
+ * the mocks over to a new context (e.g. after a device or browser switch)
+ */
+export class RouteMocks {
+  private mocks: Map<string, ActiveMock> = new Map();
+  private context: BrowserContext | null = null;
+
+  async attach(context: BrowserContext): Promise<void> {
+    this.context = context;
+
+    for (const entry of this.mocks.values()) {
+      await context.route(entry.mock.url, entry.handler);
+    }
+  }
+
+  async add(input: RouteMockInput): Promise<MockedRoute> {
+    const parsed = RouteMockSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new ValidationError('Invalid route mock', parsed.error.issues);
+    }
+
+    const mock = {
+      ...parsed.data,
+      id: parsed.data.id || uuidv4(),
+      method: parsed.data.method?.toUpperCase()
+    };
+
+    // Re-using an id redefines the mock
+    if (this.mocks.has(mock.id)) {
+      await this.clear(mock.id);
+    }
+
+    const entry: ActiveMock = {
+      mock,
+      requests: [],
+      handler: route => this.handle(entry, route)
+    };
+    this.mocks.set(mock.id, entry);
+
+    if (this.context) {
+      await this.context.route(mock.url, entry.handler);
+    }
+
+    logger.info('Route mock added', { mockId: mock.id, url: mock.url, method: mock.method, status: mock.status });
+    return this.describe(entry);
+  }
+
+  /**
+   * Remove one mock, or all of them when no id is given; returns what was removed
+   */
+  async clear(mockId?: string): Promise<MockedRoute[]> {
+    const entries = mockId
+      ? [this.mocks.get(mockId)].filter((entry): entry is ActiveMock => Boolean(entry))
+      : Array.from(this.mocks.values());
+
+    if (mockId && entries.length === 0) {
+      throw new MCPUIError(`Route mock not found: ${mockId}`, 'E_MOCK_NOT_FOUND');
+    }
+
+    for (const entry of entries) {
+      this.mocks.delete(entry.mock.id);
+      if (this.context) {
+        await this.context.unroute(entry.mock.url, entry.handler).catch(() => undefined);
+      }
+    }
+
+    return entries.map(entry => this.describe(entry));
+  }
+
+  /**
+   * Active mocks with the requests they answered, optionally only those since a point in time
+   */
+  list(since?: Date): MockedRoute[] {
+    return Array.from(this.mocks.values()).map(entry => this.describe(entry, since));
+  }
+
+  get size(): number {
+    return this.mocks.size;
+  }
+
+  private async handle(entry: ActiveMock, route: Route): Promise<void> {
+    const request = route.request();
+    const { mock } = entry;
+
+    if ((mock.method && request.method() !== mock.method) ||
+        (mock.times !== undefined && entry.requests.length >= mock.times)) {
+      await route.fallback();
+      return;
+    }
+
+    entry.requests.push({
+      method: request.method(),
+      url: request.url(),
+      timestamp: new Date().toISOString()
+    });
+
+    if (mock.delayMs) {
+      await new Promise(resolve => setTimeout(resolve, mock.delayMs));
+    }
+
+    try {
+      await route.fulfill(toFulfillOptions(mock));
+    } catch (error) {
+      // The page may have navigated away or closed during the delay
+      logger.debug('Failed to fulfill mocked route', { mockId: mock.id, url: request.url(), error });
+    }
+  }
+
+  private describe(entry: ActiveMock, since?: Date): MockedRoute {
+    const requests = since
+      ? entry.requests.filter(request => new Date(request.timestamp) >= since)
+      : entry.requests;
+
+    return {
+      ...entry.mock,
+      hits: requests.length,
+      requests: [...requests]
+    };
+  }
+}
+
+export function toFulfillOptions(mock: RouteMock): { status: number; headers: Record<string, string>; body: string } {
+  const isJson = mock.body !== undefined && typeof mock.body !== 'string';
+
+  return {
+    status: mock.status,
+    headers: {
+      ...(isJson ? { 'content-type': 'application/json' } : {}),
+      ...mock.headers
+    },
+    body: mock.body === undefined ? '' : isJson ? JSON.stringify(mock.body) : mock.body
+  };
+}
@@ -0,0 +1,20 @@
+import { ArtifactMode, ArtifactModeSchema } from '../types/index.js';
+
+export interface RunArtifactOptions {
+  trace?: ArtifactMode;
+  video?: ArtifactMode;
+}
+
+export interface RunArtifacts {
+  trace?: string;
+  video?: string;
+}
+
+export function parseArtifactMode(value?: string): ArtifactMode | undefined {
+  const parsed = ArtifactModeSchema.safeParse(value?.toLowerCase());
+  return parsed.success ? parsed.data : undefined;
+}
+
+export function shouldRetainArtifact(mode: ArtifactMode | undefined, failed: boolean): boolean {
+  return mode === 'on' || (mode === 'retain-on-failure' && failed);
+}
@@ -1,4 +1,5 @@
-import { Page, Locator } from 'playwright';
+import { Locator } from 'playwright';
+import { FrameScope } from './frames.js';
 import logger from './logger.js';
 import { LLMStrategy } from '../llm/llmStrategy.js';
 
@@ -17,7 +18,7 @@ export class SmartFieldResolver {
    * Resolves any form field (checkbox, radio, select) using multiple strategies
    */
   async resolveField(
-    page: Page,
+    page: FrameScope,
     fieldType: string,
     fieldName: string,
     targetValue: string | string[]
@@ -38,7 +39,7 @@ export class SmartFieldResolver {
   }
 
   private async findFieldLocator(
-    page: Page,
+    page: FrameScope,
     fieldType: string,
     fieldName: string,
     targetValue: string
@@ -84,7 +85,7 @@ export class SmartFieldResolver {
    * Use Playwright's built-in semantic locators - THIS IS THE BEST APPROACH
    */
   private async trySemanticLocators(
-    page: Page,
+    page: FrameScope,
     fieldType: string,
     targetValue: string
   ): Promise<Locator | null> {
@@ -179,7 +180,7 @@ export class SmartFieldResolver {
    * Find field by its visible text
    */
   private async findByVisibleText(
-    page: Page,
+    page: FrameScope,
     fieldType: string,
     text: string
   ): Promise<Locator | null> {
@@ -218,7 +219,7 @@ export class SmartFieldResolver {
    * Find by ARIA and data attributes
    */
   private async findByAriaAndData(
-    page: Page,
+    page: FrameScope,
     fieldType: string,
     fieldName: string,
     value: string
@@ -257,7 +258,7 @@ export class SmartFieldResolver {
    * Resolve select/dropdown options using smart matching
    */
   async resolveSelectOption(
-    page: Page,
+    page: FrameScope,
     selectName: string,
     displayText: string
   ): Promise<string | null> {
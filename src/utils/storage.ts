@@ -0,0 +1,241 @@
+import { Page } from 'playwright';
+import { StorageArea, StorageAreaSchema, StorageCheck, StorageCheckSchema, StorageSeed, StorageSeedSchema, StorageSnapshot } from '../types/index.js';
+import { MCPUIError, ValidationError } from './errors.js';
+import logger from './logger.js';
+
+type WebStorageArea = Exclude<StorageArea, 'cookies'>;
+
+const ALL_AREAS: StorageArea[] = ['cookies', 'localStorage', 'sessionStorage'];
+
+// customChecks keys naming a storage value; anything else is still treated as a selector
+const CHECK_KEY_AREAS: Record<string, StorageArea> = {
+  cookie: 'cookies',
+  localStorage: 'localStorage',
+  sessionStorage: 'sessionStorage'
+};
+
+/**
+ * Cookies sent to the current page and the localStorage/sessionStorage of its origin
+ */
+export async function readStorage(page: Page, areas: StorageArea[] = ALL_AREAS): Promise<StorageSnapshot> {
+  const snapshot: StorageSnapshot = { url: page.url(), origin: pageOrigin(page) };
+  parseAreas(areas);
+
+  if (areas.includes('cookies')) {
+    const cookies = await page.context().cookies(page.url());
+    snapshot.cookies = cookies.map(({ name, value, domain, path, expires, httpOnly, secure, sameSite }) =>
+      ({ name, value, domain, path, expires, httpOnly, secure, sameSite }));
+  }
+
+  for (const area of webStorageAreas(areas)) {
+    snapshot[area] = await page.evaluate(storageArea => {
+      const storage = window[storageArea];
+      const items: Record<string, string> = {};
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i)!;
+        items[key] = storage.getItem(key)!;
+      }
+      return items;
+    }, area);
+  }
+
+  return snapshot;
+}
+
+/**
+ * Seed storage for the current origin. Pages read most storage on load, so callers usually
+ * reload afterwards
+ */
+export async function writeStorage(page: Page, input: StorageSeed): Promise<void> {
+  const parsed = StorageSeedSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid storage values', parsed.error.issues);
+  }
+  const seed = parsed.data;
+  const origin = pageOrigin(page);
+
+  if (seed.cookies?.length) {
+    // Playwright takes either a URL or a domain and path; cookies default to the whole origin
+    await page.context().addCookies(seed.cookies.map(cookie => cookie.domain || cookie.path
+      ? { ...cookie, domain: cookie.domain || new URL(origin).hostname, path: cookie.path || '/' }
+      : { ...cookie, url: origin }));
+  }
+
+  for (const area of ['localStorage', 'sessionStorage'] as const) {
+    const items = seed[area];
+    if (!items || Object.keys(items).length === 0) continue;
+
+    const entries = Object.entries(items).map(([key, value]) =>
+      [key, typeof value === 'string' ? value : JSON.stringify(value)] as [string, string]);
+    await page.evaluate(({ storageArea, entries }) => {
+      for (const [key, value] of entries) {
+        window[storageArea].setItem(key, value);
+      }
+    }, { storageArea: area, entries });
+  }
+
+  logger.info('Storage seeded', {
+    origin,
+    cookies: seed.cookies?.length || 0,
+    localStorage: Object.keys(seed.localStorage || {}).length,
+    sessionStorage: Object.keys(seed.sessionStorage || {}).length
+  });
+}
+
+/**
+ * Remove the given keys (default: everything) from the current page's storage, returning
+ * the names removed per area
+ */
+export async function clearStorage(
+  page: Page,
+  areas: StorageArea[] = ALL_AREAS,
+  keys?: string[]
+): Promise<Partial<Record<StorageArea, string[]>>> {
+  pageOrigin(page);
+  parseAreas(areas);
+  const cleared: Partial<Record<StorageArea, string[]>> = {};
+
+  if (areas.includes('cookies')) {
+    const context = page.context();
+    const cookies = (await context.cookies(page.url())).filter(cookie => !keys || keys.includes(cookie.name));
+    for (const { name, domain, path } of cookies) {
+      await context.clearCookies({ name, domain, path });
+    }
+    cleared.cookies = cookies.map(cookie => cookie.name);
+  }
+
+  for (const area of webStorageAreas(areas)) {
+    cleared[area] = await page.evaluate(({ storageArea, keys }) => {
+      const storage = window[storageArea];
+      const removed = keys
+        ? keys.filter(key => storage.getItem(key) !== null)
+        : Array.from({ length: storage.length }, (_, i) => storage.key(i)!);
+      removed.forEach(key => storage.removeItem(key));
+      return removed;
+    }, { storageArea: area, keys: keys || null });
+  }
+
+  return cleared;
+}
+
+/**
+ * The storage value a customChecks key names, e.g. 'localStorage:cart' or 'cookie:session_id'
+ */
+export function parseStorageCheckKey(key: string): { area: StorageArea; name: string } | null {
+  const separator = key.indexOf(':');
+  const area = separator > 0 ? CHECK_KEY_AREAS[key.slice(0, separator)] : undefined;
+  return area ? { area, name: key.slice(separator + 1) } : null;
+}
+
+export async function readStorageValue(page: Page, area: StorageArea, name: string): Promise<string | undefined> {
+  if (area === 'cookies') {
+    const cookies = await page.context().cookies(page.url());
+    return cookies.find(cookie => cookie.name === name)?.value;
+  }
+
+  pageOrigin(page);
+  const value = await page.evaluate(({ storageArea, name }) => window[storageArea].getItem(name), { storageArea: area, name });
+  return value ?? undefined;
+}
+
+/**
+ * Compare a raw storage value with the expectation of a customChecks entry, returning why it
+ * failed or null when it holds
+ */
+export function checkStorageValue(raw: string | undefined, expected: unknown): string | null {
+  const check = parseStorageCheck(expected);
+  const value = check.path ? valueAtPath(parseJson(raw), check.path) : raw;
+  const subject = check.path ? `${check.path} ` : '';
+
+  if (check.exists !== undefined && (value !== undefined) !== check.exists) {
+    return `${subject}expected to ${check.exists ? 'exist' : 'be absent'}`;
+  }
+
+  const hasComparison = check.equals !== undefined || check.contains !== undefined || check.matches !== undefined ||
+    check.gte !== undefined || check.lte !== undefined;
+  if (!hasComparison) {
+    return null;
+  }
+  if (value === undefined) {
+    return `${subject}is not set`;
+  }
+
+  const actual = JSON.stringify(value);
+  if (check.equals !== undefined && !sameValue(value, check.equals)) {
+    return `${subject}expected ${JSON.stringify(check.equals)}, got ${actual}`;
+  }
+  if (check.contains !== undefined && !contains(value, check.contains)) {
+    return `${subject}expected to contain "${check.contains}", got ${actual}`;
+  }
+  if (check.matches !== undefined && !new RegExp(check.matches).test(String(value))) {
+    return `${subject}expected to match /${check.matches}/, got ${actual}`;
+  }
+  if (check.gte !== undefined && !(Number(value) >= check.gte)) {
+    return `${subject}expected >= ${check.gte}, got ${actual}`;
+  }
+  if (check.lte !== undefined && !(Number(value) <= check.lte)) {
+    return `${subject}expected <= ${check.lte}, got ${actual}`;
+  }
+  return null;
+}
+
+function parseStorageCheck(expected: unknown): StorageCheck {
+  if (expected === null || typeof expected !== 'object' || Array.isArray(expected)) {
+    return { equals: expected };
+  }
+
+  const parsed = StorageCheckSchema.safeParse(expected);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid storage check', parsed.error.issues);
+  }
+  return parsed.data;
+}
+
+// Storage holds strings, so '3' equals 3 and '{"a":1}' equals { a: 1 }
+function sameValue(value: unknown, expected: unknown): boolean {
+  const comparable = typeof value === 'string' && typeof expected !== 'string' ? parseJson(value) : value;
+  return JSON.stringify(comparable) === JSON.stringify(expected);
+}
+
+function contains(value: unknown, part: string): boolean {
+  return Array.isArray(value)
+    ? value.some(item => sameValue(item, part))
+    : String(value).includes(part);
+}
+
+function parseJson(raw: string | undefined): unknown {
+  if (raw === undefined) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+function valueAtPath(value: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((current, segment) =>
+    (current !== null && typeof current === 'object') || typeof current === 'string'
+      ? (current as any)[segment]
+      : undefined, value);
+}
+
+function parseAreas(areas: unknown): void {
+  const parsed = StorageAreaSchema.array().safeParse(areas);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid storage areas', parsed.error.issues);
+  }
+}
+
+function webStorageAreas(areas: StorageArea[]): WebStorageArea[] {
+  return areas.filter((area): area is WebStorageArea => area !== 'cookies');
+}
+
+// about:blank and data: URLs have no storage of their own
+function pageOrigin(page: Page): string {
+  const url = page.url();
+  const origin = /^https?:/.test(url) ? new URL(url).origin : null;
+  if (!origin) {
+    throw new MCPUIError(`Storage needs a page with a web origin, but the page is at ${url}; navigate first`, 'E_STORAGE_NO_ORIGIN');
+  }
+  return origin;
+}
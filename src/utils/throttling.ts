@@ -0,0 +1,152 @@
+import { BrowserContext, CDPSession, Page } from 'playwright';
+import { ThrottlingInput, ThrottlingInputSchema, ThrottlingProfile, ThrottlingProfileSchema } from '../types/index.js';
+import { MCPUIError, ValidationError } from './errors.js';
+import logger from './logger.js';
+
+// Chrome DevTools presets, rounded
+export const THROTTLING_PROFILES: Record<string, ThrottlingProfile> = {
+  'offline': { name: 'offline', offline: true },
+  'slow-3g': { name: 'slow-3g', latencyMs: 2000, downloadKbps: 400, uploadKbps: 400 },
+  'fast-3g': { name: 'fast-3g', latencyMs: 563, downloadKbps: 1475, uploadKbps: 675 }
+};
+
+/**
+ * Resolve a profile name or custom conditions; 'none' (or null) means no throttling
+ */
+export function resolveThrottling(input: ThrottlingInput | null | undefined): ThrottlingProfile | null {
+  if (input === null || input === undefined || input === 'none') {
+    return null;
+  }
+
+  const parsed = ThrottlingInputSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid throttling', parsed.error.issues);
+  }
+
+  if (typeof parsed.data === 'string') {
+    return namedProfile(parsed.data);
+  }
+
+  const { profile, ...conditions } = parsed.data;
+  const base = profile ? namedProfile(profile) : { name: 'custom' };
+  const resolved = ThrottlingProfileSchema.safeParse({ ...base, ...conditions, name: conditions.name || base.name });
+  if (!resolved.success) {
+    throw new ValidationError('Invalid throttling', resolved.error.issues);
+  }
+  return resolved.data;
+}
+
+export function describeThrottling(profile: ThrottlingProfile): string {
+  if (profile.offline) {
+    return profile.name === 'offline' ? 'offline' : `${profile.name} (offline)`;
+  }
+
+  const conditions = [
+    profile.latencyMs !== undefined ? `${profile.latencyMs}ms latency` : null,
+    profile.downloadKbps !== undefined ? `${profile.downloadKbps}kbps down` : null,
+    profile.uploadKbps !== undefined ? `${profile.uploadKbps}kbps up` : null,
+    profile.cpuSlowdown !== undefined ? `${profile.cpuSlowdown}x CPU slowdown` : null
+  ].filter(Boolean);
+  return conditions.length > 0 ? `${profile.name} (${conditions.join(', ')})` : profile.name;
+}
+
+function namedProfile(name: string): ThrottlingProfile {
+  const profile = THROTTLING_PROFILES[name];
+  if (!profile) {
+    throw new ValidationError(`Unknown throttling profile: ${name}`, { available: ['none', ...Object.keys(THROTTLING_PROFILES)] });
+  }
+  return profile;
+}
+
+/**
+ * Applies one throttling profile to every page of a browser context, including popups opened
+ * later. The driver, journey player and flow engine share the instance of a context (see
+ * throttlingFor), so a journey step changing conditions is seen by the session too
+ */
+export class ContextThrottling {
+  private profile: ThrottlingProfile | null = null;
+  private sessions = new WeakMap<Page, Promise<CDPSession>>();
+
+  constructor(private context: BrowserContext) {
+    context.on('page', page => {
+      if (this.profile) {
+        this.applyToPage(page, this.profile).catch(error => logger.warn('Failed to throttle new page', { error }));
+      }
+    });
+  }
+
+  current(): ThrottlingProfile | null {
+    return this.profile;
+  }
+
+  /**
+   * Switch conditions, returning the previous profile so callers can restore it
+   */
+  async apply(profile: ThrottlingProfile | null): Promise<ThrottlingProfile | null> {
+    const previous = this.profile;
+    const engine = this.context.browser()?.browserType().name();
+    if (profile && needsCdp(profile) && engine && engine !== 'chromium') {
+      throw new MCPUIError(
+        `Latency, bandwidth and CPU throttling need Chromium; ${engine} only supports the offline profile`,
+        'E_THROTTLING_UNSUPPORTED'
+      );
+    }
+
+    this.profile = profile;
+    await this.context.setOffline(profile?.offline ?? false);
+    for (const page of this.context.pages()) {
+      await this.applyToPage(page, profile);
+    }
+
+    logger.info('Throttling applied', { throttling: profile ? describeThrottling(profile) : 'none' });
+    return previous;
+  }
+
+  private async applyToPage(page: Page, profile: ThrottlingProfile | null): Promise<void> {
+    // Nothing to undo on pages that were never throttled, and no CDP outside Chromium
+    if (!this.sessions.has(page) && (!profile || !needsCdp(profile))) {
+      return;
+    }
+
+    const session = await this.sessionFor(page);
+    await session.send('Network.emulateNetworkConditions', {
+      offline: profile?.offline ?? false,
+      latency: profile?.latencyMs ?? 0,
+      // CDP takes bytes per second; -1 disables the limit
+      downloadThroughput: profile?.downloadKbps ? profile.downloadKbps * 125 : -1,
+      uploadThroughput: profile?.uploadKbps ? profile.uploadKbps * 125 : -1
+    });
+    await session.send('Emulation.setCPUThrottlingRate', { rate: profile?.cpuSlowdown ?? 1 });
+  }
+
+  private sessionFor(page: Page): Promise<CDPSession> {
+    let session = this.sessions.get(page);
+    if (!session) {
+      session = this.context.newCDPSession(page).then(async cdp => {
+        await cdp.send('Network.enable');
+        return cdp;
+      });
+      this.sessions.set(page, session);
+    }
+    return session;
+  }
+}
+
+function needsCdp(profile: ThrottlingProfile): boolean {
+  return profile.latencyMs !== undefined || profile.downloadKbps !== undefined ||
+    profile.uploadKbps !== undefined || profile.cpuSlowdown !== undefined;
+}
+
+const throttlers = new WeakMap<BrowserContext, ContextThrottling>();
+
+/**
+ * The throttling of a context, created on first use
+ */
+export function throttlingFor(context: BrowserContext): ContextThrottling {
+  let throttling = throttlers.get(context);
+  if (!throttling) {
+    throttling = new ContextThrottling(context);
+    throttlers.set(context, throttling);
+  }
+  return throttling;
+}
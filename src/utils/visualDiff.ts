@@ -0,0 +1,140 @@
+import { Page } from 'playwright';
+import { PNG } from 'pngjs';
+import pixelmatch from 'pixelmatch';
+import { IgnoreRegion, VisualCheckOptions, VisualCheckResult } from '../types/visual.js';
+
+export interface ImageDiffOptions {
+  pixelThreshold?: number;
+  ignoreRegions?: IgnoreRegion[];
+  scale?: number; // Device pixels per CSS pixel, for ignore regions given in CSS pixels
+}
+
+export interface ImageDiffResult {
+  width: number;
+  height: number;
+  mismatchedPixels: number;
+  comparedPixels: number; // Excludes ignored regions
+  mismatchRatio: number;
+  sizeChanged: boolean;
+  diff: Buffer; // PNG
+}
+
+/**
+ * Pixel diff of two PNG screenshots. Images of different sizes are compared over the larger
+ * area, where pixels only one of them covers always count as changed
+ */
+export function diffImages(actualPng: Buffer, baselinePng: Buffer, options: ImageDiffOptions = {}): ImageDiffResult {
+  const actual = PNG.sync.read(actualPng);
+  const baseline = PNG.sync.read(baselinePng);
+  const width = Math.max(actual.width, baseline.width);
+  const height = Math.max(actual.height, baseline.height);
+  const sizeChanged = actual.width !== baseline.width || actual.height !== baseline.height;
+
+  // Pad with colors that can never match each other
+  const actualData = padTo(actual, width, height, [255, 0, 255]);
+  const baselineData = padTo(baseline, width, height, [0, 255, 0]);
+
+  const ignoredPixels = blankRegions(actualData, baselineData, width, height, options.ignoreRegions || [], options.scale ?? 1);
+
+  const diff = new PNG({ width, height });
+  const mismatchedPixels = pixelmatch(actualData, baselineData, diff.data, width, height, {
+    threshold: options.pixelThreshold ?? 0.1
+  });
+
+  const comparedPixels = Math.max(0, width * height - ignoredPixels);
+  return {
+    width,
+    height,
+    mismatchedPixels,
+    comparedPixels,
+    mismatchRatio: comparedPixels > 0 ? mismatchedPixels / comparedPixels : 0,
+    sizeChanged,
+    diff: PNG.sync.write(diff)
+  };
+}
+
+/**
+ * Screenshot with animations frozen, the caret hidden and masked selectors painted over, so
+ * repeated captures of an unchanged page are pixel-identical
+ */
+export async function takeComparableScreenshot(page: Page, options: VisualCheckOptions = {}): Promise<{ image: Buffer; scale: number }> {
+  const image = await page.screenshot({
+    fullPage: options.fullPage ?? false,
+    animations: 'disabled',
+    caret: 'hide',
+    mask: (options.mask || []).map(selector => page.locator(selector))
+  });
+  const scale = await page.evaluate(() => window.devicePixelRatio).catch(() => 1);
+
+  return { image, scale };
+}
+
+export function describeVisualMismatch(result: VisualCheckResult): string {
+  const percent = (ratio: number) => `${(ratio * 100).toFixed(2)}%`;
+  if (result.sizeChanged) {
+    return `Visual mismatch for ${result.name}: screenshot size differs from the baseline`;
+  }
+  return `Visual mismatch for ${result.name}: ${percent(result.mismatchRatio ?? 1)} of pixels differ from the baseline ` +
+    `(allowed ${percent(result.maxDiffRatio)})`;
+}
+
+export function imageSize(png: Buffer): { width: number; height: number } {
+  const { width, height } = PNG.sync.read(png);
+  return { width, height };
+}
+
+function padTo(image: PNG, width: number, height: number, fill: [number, number, number]): Buffer {
+  if (image.width === width && image.height === height) {
+    return Buffer.from(image.data);
+  }
+
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * 4;
+      if (x < image.width && y < image.height) {
+        image.data.copy(data, target, (y * image.width + x) * 4, (y * image.width + x) * 4 + 4);
+      } else {
+        data[target] = fill[0];
+        data[target + 1] = fill[1];
+        data[target + 2] = fill[2];
+        data[target + 3] = 255;
+      }
+    }
+  }
+  return data;
+}
+
+// Make both images identical inside the regions; returns how many pixels they cover
+function blankRegions(
+  actual: Buffer,
+  baseline: Buffer,
+  width: number,
+  height: number,
+  regions: IgnoreRegion[],
+  scale: number
+): number {
+  const ignored = new Uint8Array(width * height);
+  let covered = 0;
+
+  for (const region of regions) {
+    const left = Math.max(0, Math.floor(region.x * scale));
+    const top = Math.max(0, Math.floor(region.y * scale));
+    const right = Math.min(width, Math.ceil((region.x + region.width) * scale));
+    const bottom = Math.min(height, Math.ceil((region.y + region.height) * scale));
+
+    for (let y = top; y < bottom; y++) {
+      for (let x = left; x < right; x++) {
+        const index = y * width + x;
+        if (ignored[index]) continue;
+
+        ignored[index] = 1;
+        actual.writeUInt32BE(0, index * 4);
+        baseline.writeUInt32BE(0, index * 4);
+        covered++;
+      }
+    }
+  }
+
+  return covered;
+}
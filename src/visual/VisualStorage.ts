@@ -0,0 +1,313 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  VisualStorageConfig,
+  VisualBaseline,
+  VisualBaselineSchema,
+  VisualDiff,
+  VisualDiffSchema,
+  VisualCheckOptions,
+  VisualCheckResult,
+  VisualSource
+} from '../types/visual.js';
+import { UIBaseline, UIBaselineSchema } from '../types/index.js';
+import { diffImages, imageSize } from '../utils/visualDiff.js';
+import { MCPUIError } from '../utils/errors.js';
+import logger from '../utils/logger.js';
+
+export interface VisualCheckInput {
+  name: string;
+  variant: string;
+  image: Buffer; // PNG
+  scale?: number; // Device scale factor the screenshot was taken at
+  options?: VisualCheckOptions;
+  source?: VisualSource;
+}
+
+export interface VisualDiffQuery {
+  status?: VisualDiff['status'];
+  name?: string; // prefix match, so a journey ID lists all of its steps
+  limit?: number;
+}
+
+/**
+ * Approved baseline screenshots and the diffs of checks that didn't match them. Baselines are
+ * kept per variant (browser and device), since rendering differs between them. Structural
+ * baselines (analyze_ui results for diff_ui) live alongside, keyed by name only
+ */
+export class VisualStorage {
+  private config: VisualStorageConfig;
+
+  constructor(customConfig?: Partial<VisualStorageConfig>) {
+    this.config = {
+      baseDir: process.env.UI_PROBE_VISUAL_DIR || path.join(os.homedir(), '.ui-probe', 'visual'),
+      baselinesDir: 'baselines',
+      diffsDir: 'diffs',
+      structuresDir: 'structures',
+      maxDiffRatio: parseFloat(process.env.UI_PROBE_VISUAL_MAX_DIFF_RATIO || '0.001'),
+      pixelThreshold: parseFloat(process.env.UI_PROBE_VISUAL_PIXEL_THRESHOLD || '0.1'),
+      ...customConfig
+    };
+  }
+
+  /**
+   * Compare a screenshot with the approved baseline. Mismatches and screenshots without a
+   * baseline are kept as pending diffs for review with list_visual_diffs / approve_baseline
+   */
+  async check(input: VisualCheckInput): Promise<VisualCheckResult> {
+    const baseline = await this.loadBaseline(input.name, input.variant);
+    const options = { ...baseline?.options, ...input.options };
+    const maxDiffRatio = options.maxDiffRatio ?? this.config.maxDiffRatio;
+
+    if (!baseline) {
+      const diff = await this.saveDiff(input, { result: 'missing_baseline', maxDiffRatio, options });
+      logger.info('No visual baseline yet', { name: input.name, variant: input.variant, diffId: diff.diffId });
+
+      return {
+        name: input.name,
+        variant: input.variant,
+        status: 'missing_baseline',
+        maxDiffRatio,
+        diffId: diff.diffId
+      };
+    }
+
+    const baselineImage = await fs.readFile(baseline.imagePath);
+    const comparison = diffImages(input.image, baselineImage, {
+      pixelThreshold: options.pixelThreshold ?? this.config.pixelThreshold,
+      ignoreRegions: options.ignoreRegions,
+      scale: input.scale
+    });
+
+    const matched = !comparison.sizeChanged && comparison.mismatchRatio <= maxDiffRatio;
+    if (matched) {
+      return {
+        name: input.name,
+        variant: input.variant,
+        status: 'match',
+        mismatchRatio: comparison.mismatchRatio,
+        maxDiffRatio,
+        baselinePath: baseline.imagePath
+      };
+    }
+
+    const diff = await this.saveDiff(input, {
+      result: 'mismatch',
+      maxDiffRatio,
+      options,
+      mismatchedPixels: comparison.mismatchedPixels,
+      mismatchRatio: comparison.mismatchRatio,
+      sizeChanged: comparison.sizeChanged,
+      baselineImage,
+      diffImage: comparison.diff
+    });
+
+    logger.warn('Visual mismatch', {
+      name: input.name,
+      variant: input.variant,
+      mismatchRatio: comparison.mismatchRatio,
+      maxDiffRatio,
+      diffId: diff.diffId
+    });
+
+    return {
+      name: input.name,
+      variant: input.variant,
+      status: 'mismatch',
+      mismatchRatio: comparison.mismatchRatio,
+      sizeChanged: comparison.sizeChanged,
+      maxDiffRatio,
+      diffId: diff.diffId,
+      diffPath: diff.diffPath,
+      baselinePath: baseline.imagePath
+    };
+  }
+
+  /**
+   * Make a pending diff's screenshot the baseline for its checkpoint
+   */
+  async approveDiff(diffId: string, options?: VisualCheckOptions): Promise<VisualBaseline> {
+    const diff = await this.loadDiff(diffId);
+    if (!diff) {
+      throw new MCPUIError(`Visual diff not found: ${diffId}`, 'E_VISUAL_DIFF_NOT_FOUND');
+    }
+
+    const baseline = await this.saveBaseline({
+      name: diff.name,
+      variant: diff.variant,
+      image: await fs.readFile(diff.actualPath),
+      options: { ...diff.options, ...options },
+      source: diff.source
+    });
+
+    const approved = { ...diff, status: 'approved' as const };
+    await fs.writeFile(path.join(this.getDiffDir(diffId), 'diff.json'), JSON.stringify(approved, null, 2), 'utf8');
+
+    // Other pending diffs of the same checkpoint were against the old baseline
+    for (const other of await this.listDiffs({ status: 'pending', name: diff.name })) {
+      if (other.variant === diff.variant && other.name === diff.name) {
+        await this.deleteDiff(other.diffId);
+      }
+    }
+
+    return baseline;
+  }
+
+  async saveBaseline(input: Omit<VisualCheckInput, 'scale'>): Promise<VisualBaseline> {
+    const imagePath = this.getBaselinePath(input.name, input.variant, '.png');
+    await fs.mkdir(path.dirname(imagePath), { recursive: true });
+    await fs.writeFile(imagePath, input.image);
+
+    const baseline = VisualBaselineSchema.parse({
+      name: input.name,
+      variant: input.variant,
+      imagePath,
+      ...imageSize(input.image),
+      approvedAt: new Date().toISOString(),
+      options: input.options,
+      source: input.source
+    });
+    await fs.writeFile(
+      this.getBaselinePath(input.name, input.variant, '.json'),
+      JSON.stringify(baseline, null, 2),
+      'utf8'
+    );
+
+    logger.info('Visual baseline approved', { name: input.name, variant: input.variant });
+    return baseline;
+  }
+
+  async loadBaseline(name: string, variant: string): Promise<VisualBaseline | null> {
+    try {
+      const content = await fs.readFile(this.getBaselinePath(name, variant, '.json'), 'utf8');
+      return VisualBaselineSchema.parse(JSON.parse(content));
+    } catch {
+      return null;
+    }
+  }
+
+  async loadDiff(diffId: string): Promise<VisualDiff | null> {
+    try {
+      const content = await fs.readFile(path.join(this.getDiffDir(diffId), 'diff.json'), 'utf8');
+      return VisualDiffSchema.parse(JSON.parse(content));
+    } catch {
+      return null;
+    }
+  }
+
+  async listDiffs(query: VisualDiffQuery = {}): Promise<VisualDiff[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(path.join(this.config.baseDir, this.config.diffsDir));
+    } catch {
+      return [];
+    }
+
+    const diffs: VisualDiff[] = [];
+    for (const entry of entries) {
+      const diff = await this.loadDiff(entry);
+      if (!diff) continue;
+      if (query.status && diff.status !== query.status) continue;
+      if (query.name && !diff.name.startsWith(query.name)) continue;
+      diffs.push(diff);
+    }
+
+    return diffs
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, query.limit || diffs.length);
+  }
+
+  async saveStructure(input: Omit<UIBaseline, 'savedAt'>): Promise<UIBaseline> {
+    const baseline = UIBaselineSchema.parse({ ...input, savedAt: new Date().toISOString() });
+    const filePath = this.getStructurePath(input.name);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(baseline, null, 2), 'utf8');
+
+    logger.info('UI baseline saved', { name: input.name, url: input.url });
+    return baseline;
+  }
+
+  async loadStructure(name: string): Promise<UIBaseline | null> {
+    try {
+      const content = await fs.readFile(this.getStructurePath(name), 'utf8');
+      return UIBaselineSchema.parse(JSON.parse(content));
+    } catch {
+      return null;
+    }
+  }
+
+  async deleteDiff(diffId: string): Promise<void> {
+    await fs.rm(this.getDiffDir(diffId), { recursive: true, force: true });
+  }
+
+  private async saveDiff(
+    input: VisualCheckInput,
+    details: Pick<VisualDiff, 'result' | 'maxDiffRatio' | 'options' | 'mismatchedPixels' | 'mismatchRatio' | 'sizeChanged'> & {
+      baselineImage?: Buffer;
+      diffImage?: Buffer;
+    }
+  ): Promise<VisualDiff> {
+    const diffId = uuidv4();
+    const diffDir = this.getDiffDir(diffId);
+    await fs.mkdir(diffDir, { recursive: true });
+
+    const actualPath = path.join(diffDir, 'actual.png');
+    await fs.writeFile(actualPath, input.image);
+
+    let baselinePath: string | undefined;
+    if (details.baselineImage) {
+      baselinePath = path.join(diffDir, 'baseline.png');
+      await fs.writeFile(baselinePath, details.baselineImage);
+    }
+
+    let diffPath: string | undefined;
+    if (details.diffImage) {
+      diffPath = path.join(diffDir, 'diff.png');
+      await fs.writeFile(diffPath, details.diffImage);
+    }
+
+    const { baselineImage, diffImage, ...summary } = details;
+    const diff = VisualDiffSchema.parse({
+      diffId,
+      name: input.name,
+      variant: input.variant,
+      status: 'pending',
+      createdAt: new Date().toISOString(),
+      ...summary,
+      actualPath,
+      baselinePath,
+      diffPath,
+      source: input.source
+    });
+    await fs.writeFile(path.join(diffDir, 'diff.json'), JSON.stringify(diff, null, 2), 'utf8');
+
+    return diff;
+  }
+
+  private getBaselinePath(name: string, variant: string, extension: string): string {
+    return path.join(this.config.baseDir, this.config.baselinesDir, safeSegment(variant), ...name.split('/').map(safeSegment)) + extension;
+  }
+
+  private getStructurePath(name: string): string {
+    return path.join(this.config.baseDir, this.config.structuresDir, ...name.split('/').map(safeSegment)) + '.json';
+  }
+
+  private getDiffDir(diffId: string): string {
+    return path.join(this.config.baseDir, this.config.diffsDir, safeSegment(diffId));
+  }
+}
+
+// Names may nest with '/', but no segment may climb out of the storage directory
+function safeSegment(segment: string): string {
+  const cleaned = segment.replace(/[^\w.-]/g, '_');
+  return cleaned === '' || /^\.+$/.test(cleaned) ? '_' : cleaned;
+}
+
+/**
+ * Baselines only compare cleanly against screenshots from the same engine and device
+ */
+export function visualVariant(browser: string, device: string): string {
+  return `${browser}-${device}`.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
@@ -0,0 +1,42 @@
+import { TestRun, TestStep } from '../../src/types/index.js';
+
+// Shared fixtures for stored runs: a passed signup run with one filled field. Tests override
+// what they check, so a change to the TestRun schema is made here once
+
+export const createTestStep = (overrides: Partial<TestStep> = {}): TestStep => ({
+  stepId: 'step-1',
+  action: 'fill',
+  selector: '#email',
+  inferredIntent: 'Fill email field',
+  outcome: 'success',
+  latencyMs: 120,
+  timestamp: '2024-01-15T10:00:01.000Z',
+  ...overrides
+});
+
+export const createTestRun = (overrides: Partial<TestRun> = {}): TestRun => ({
+  runId: 'run-1',
+  startedAt: '2024-01-15T10:00:00.000Z',
+  target: {
+    url: 'https://example.com/signup',
+    viewport: '1280x800',
+    userAgent: 'test-agent'
+  },
+  flow: [createTestStep()],
+  findings: {
+    forms: [{
+      name: 'signup',
+      fields: [],
+      submit: { selector: 'button[type="submit"]' }
+    }]
+  },
+  errors: [],
+  result: 'passed',
+  metrics: {
+    totalTimeMs: 1500,
+    steps: 1,
+    networkErrors: 0,
+    consoleErrors: 0
+  },
+  ...overrides
+});
@@ -63,6 +63,7 @@ describe('JourneyStorage', () => {
       baseDir: testDir,
       collectionsDir: 'collections',
       templatesDir: 'templates',
+      authStatesDir: 'auth',
       backupsDir: 'backups',
       indexFile: 'index.json',
       maxBackups: 5,
@@ -345,6 +346,55 @@ describe('JourneyStorage', () => {
     });
   });
 
+  describe('Auth States', () => {
+    const storageState = {
+      cookies: [{
+        name: 'session',
+        value: 'abc123',
+        domain: 'example.com',
+        path: '/',
+        expires: -1,
+        httpOnly: true,
+        secure: true,
+        sameSite: 'Lax' as const
+      }],
+      origins: [{
+        origin: 'https://example.com',
+        localStorage: [{ name: 'token', value: 'xyz' }]
+      }]
+    };
+
+    beforeEach(async () => {
+      await storage.initialize();
+    });
+
+    it('should save and load auth states by name', async () => {
+      await storage.saveAuthState('admin', storageState, 'https://example.com/dashboard');
+      const loaded = await storage.loadAuthState('admin');
+
+      expect(loaded).not.toBeNull();
+      expect(loaded!.url).toBe('https://example.com/dashboard');
+      expect(loaded!.storageState).toEqual(storageState);
+      expect((await storage.listAuthStates()).map(state => state.name)).toEqual(['admin']);
+    });
+
+    it('should keep saved auth states private to the current user', async () => {
+      await storage.saveAuthState('admin', storageState);
+
+      const stats = await fs.stat(path.join(testDir, 'auth', 'admin.json'));
+      expect(stats.mode & 0o777).toBe(0o600);
+    });
+
+    it('should reject names that would escape the auth directory', async () => {
+      await expect(storage.saveAuthState('../admin', storageState)).rejects.toThrow('Invalid auth state name');
+      expect(await storage.loadAuthState('../admin')).toBeNull();
+    });
+
+    it('should return null for unknown auth states', async () => {
+      expect(await storage.loadAuthState('missing')).toBeNull();
+    });
+  });
+
   describe('Statistics', () => {
     beforeEach(async () => {
       await storage.initialize();
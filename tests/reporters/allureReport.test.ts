@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { writeAllureRunResults, writeAllureJourneyResults } from '../../src/reporters/allureReport.js';
+import { TestRun } from '../../src/types/index.js';
+import { JourneyExecutionResult } from '../../src/types/journey.js';
+import { createTestRun as createBaseRun, createTestStep } from '../fixtures/testRun.js';
+
+describe('allureReport', () => {
+  let outputDir: string;
+
+  beforeEach(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'allure-results-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(outputDir, { recursive: true, force: true });
+  });
+
+  const readJsonFiles = async (suffix: string): Promise<any[]> => {
+    const files = (await fs.readdir(outputDir)).filter(file => file.endsWith(suffix));
+    return Promise.all(files.map(async file => JSON.parse(await fs.readFile(path.join(outputDir, file), 'utf8'))));
+  };
+
+  const createTestRun = (overrides: Partial<TestRun> = {}): TestRun => createBaseRun({
+    runId: 'run-allure-1',
+    flow: [
+      createTestStep({ latencyMs: 200 }),
+      createTestStep({
+        stepId: 'step-2',
+        action: 'click',
+        selector: 'button[type="submit"]',
+        inferredIntent: 'Submit form',
+        outcome: 'timeout',
+        latencyMs: 1500,
+        timestamp: '2024-01-15T10:00:03.000Z'
+      })
+    ],
+    findings: {
+      forms: [{
+        name: 'signup',
+        fields: [],
+        submit: { selector: 'button[type="submit"]', text: 'Sign up' }
+      }]
+    },
+    errors: [
+      {
+        type: 'console',
+        message: 'Uncaught TypeError: x is undefined',
+        code: 'E_CONSOLE',
+        timestamp: '2024-01-15T10:00:02.000Z'
+      }
+    ],
+    result: 'failed',
+    metrics: {
+      totalTimeMs: 3000,
+      steps: 2,
+      networkErrors: 0,
+      consoleErrors: 1
+    },
+    ...overrides
+  });
+
+  it('should write a result file with real step timestamps and labels', async () => {
+    const { files } = await writeAllureRunResults(createTestRun(), outputDir);
+    const [result] = await readJsonFiles('-result.json');
+
+    expect(files.filter(file => file.endsWith('-result.json'))).toHaveLength(1);
+    expect(result.status).toBe('failed');
+    expect(result.start).toBe(Date.parse('2024-01-15T10:00:00.000Z'));
+    expect(result.stop).toBe(result.start + 3000);
+    expect(result.steps[0]).toMatchObject({
+      name: 'Fill email field',
+      status: 'passed',
+      start: Date.parse('2024-01-15T10:00:01.000Z') - 200,
+      stop: Date.parse('2024-01-15T10:00:01.000Z')
+    });
+    expect(result.steps[1].status).toBe('broken');
+    expect(result.labels).toEqual(expect.arrayContaining([
+      { name: 'targetUrl', value: 'https://example.com/signup' },
+      { name: 'formName', value: 'signup' }
+    ]));
+  });
+
+  it('should write screenshots and console errors as attachments', async () => {
+    const screenshot = path.join(os.tmpdir(), `flow-final-${Date.now()}.png`);
+    await fs.writeFile(screenshot, 'fake-png');
+
+    await writeAllureRunResults(createTestRun({ artifacts: { screenshots: [screenshot, '/tmp/missing.png'] } }), outputDir);
+    const [result] = await readJsonFiles('-result.json');
+
+    expect(result.attachments).toHaveLength(2);
+    const [image, consoleLog] = result.attachments;
+    expect(image).toMatchObject({ name: 'Screenshot: final', type: 'image/png' });
+    expect(image.source).toMatch(/-attachment\.png$/);
+    expect(await fs.readFile(path.join(outputDir, image.source), 'utf8')).toBe('fake-png');
+    expect(consoleLog.type).toBe('text/plain');
+    expect(await fs.readFile(path.join(outputDir, consoleLog.source), 'utf8')).toContain('Uncaught TypeError');
+
+    await fs.rm(screenshot, { force: true });
+  });
+
+  it('should attach traces and videos so the trace viewer can open them', async () => {
+    const trace = path.join(os.tmpdir(), `trace-run-allure-${Date.now()}.zip`);
+    const video = path.join(os.tmpdir(), `video-run-allure-${Date.now()}.webm`);
+    await fs.writeFile(trace, 'fake-zip');
+    await fs.writeFile(video, 'fake-webm');
+
+    await writeAllureRunResults(createTestRun({ errors: [], artifacts: { trace, video } }), outputDir);
+    const [result] = await readJsonFiles('-result.json');
+
+    expect(result.attachments).toEqual([
+      expect.objectContaining({ name: 'Playwright trace', type: 'application/vnd.allure.playwright-trace' }),
+      expect.objectContaining({ name: 'Video', type: 'video/webm' })
+    ]);
+
+    await fs.rm(trace, { force: true });
+    await fs.rm(video, { force: true });
+  });
+
+  it('should write a container with a context fixture for journey executions', async () => {
+    const execution: JourneyExecutionResult = {
+      journeyId: 'journey-1',
+      journeyName: 'Checkout',
+      executionId: 'exec-1',
+      startTime: '2024-01-15T10:00:00.000Z',
+      endTime: '2024-01-15T10:00:05.000Z',
+      durationMs: 5000,
+      success: false,
+      completedSteps: 1,
+      totalSteps: 3,
+      errors: [{ stepId: 'step-2', error: 'Element not found: #pay' }],
+      warnings: [],
+      screenshots: [],
+      stepResults: [
+        { stepId: 'step-1', action: 'click', description: 'Open cart', status: 'passed', startTime: '2024-01-15T10:00:01.000Z', durationMs: 400, retries: 0 },
+        { stepId: 'step-2', action: 'click', description: 'Pay', status: 'failed', startTime: '2024-01-15T10:00:02.000Z', durationMs: 2000, retries: 2, error: 'Element not found: #pay' },
+        { stepId: 'step-3', action: 'wait', description: 'Confirm', status: 'skipped', startTime: '2024-01-15T10:00:05.000Z', durationMs: 0, retries: 0 }
+      ],
+      startUrl: 'https://shop.example.com/cart',
+      finalUrl: 'https://shop.example.com/cart',
+      contextValidation: { passed: true, details: {} }
+    };
+
+    await writeAllureJourneyResults(execution, outputDir);
+    const [result] = await readJsonFiles('-result.json');
+    const [container] = await readJsonFiles('-container.json');
+
+    expect(result.name).toBe('Checkout');
+    expect(result.steps.map((step: any) => step.status)).toEqual(['passed', 'failed', 'skipped']);
+    expect(result.steps[1].stop - result.steps[1].start).toBe(2000);
+    expect(container.children).toEqual([result.uuid]);
+    expect(container.befores[0]).toMatchObject({
+      name: 'Validate starting context',
+      status: 'passed',
+      stop: Date.parse('2024-01-15T10:00:01.000Z')
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildCtrfRunReport, buildCtrfJourneyReport } from '../../src/reporters/ctrfReport.js';
+import { JourneyExecutionResult } from '../../src/types/journey.js';
+import { createTestRun, createTestStep } from '../fixtures/testRun.js';
+
+describe('ctrfReport', () => {
+  const testRun = createTestRun({
+    runId: 'run-ctrf-1',
+    flow: [
+      createTestStep({ latencyMs: 200 }),
+      createTestStep({
+        stepId: 'step-2',
+        action: 'click',
+        selector: '#submit',
+        inferredIntent: 'Submit form',
+        outcome: 'timeout',
+        latencyMs: 1500,
+        timestamp: '2024-01-15T10:00:03.000Z'
+      })
+    ],
+    findings: {
+      forms: [{ name: 'signup', fields: [], submit: { selector: '#submit' } }]
+    },
+    errors: [],
+    result: 'failed',
+    metrics: {
+      totalTimeMs: 3000,
+      steps: 2,
+      networkErrors: 0,
+      consoleErrors: 0
+    }
+  });
+
+  it('should build one test per run step with a summary', () => {
+    const report = buildCtrfRunReport(testRun);
+
+    expect(report.reportFormat).toBe('CTRF');
+    expect(report.results.summary).toMatchObject({
+      tests: 2,
+      passed: 1,
+      failed: 1,
+      start: Date.parse('2024-01-15T10:00:00.000Z'),
+      stop: Date.parse('2024-01-15T10:00:03.000Z')
+    });
+    expect(report.results.tests[1]).toMatchObject({
+      name: 'Submit form',
+      status: 'failed',
+      duration: 1500,
+      suite: 'signup',
+      message: 'click #submit ended with timeout'
+    });
+    expect(report.results.environment).toMatchObject({ url: 'https://example.com/signup', viewport: '1280x800' });
+  });
+
+  it('should build tests from journey step results', () => {
+    const execution: JourneyExecutionResult = {
+      journeyId: 'journey-1',
+      journeyName: 'Checkout',
+      executionId: 'exec-1',
+      startTime: '2024-01-15T10:00:00.000Z',
+      endTime: '2024-01-15T10:00:05.000Z',
+      durationMs: 5000,
+      success: false,
+      completedSteps: 1,
+      totalSteps: 2,
+      errors: [{ stepId: 'step-2', error: 'Element not found: #pay' }],
+      warnings: [],
+      screenshots: [],
+      stepResults: [
+        { stepId: 'step-1', action: 'click', description: 'Pay', status: 'failed', startTime: '2024-01-15T10:00:01.000Z', durationMs: 2000, retries: 2, error: 'Element not found: #pay' },
+        { stepId: 'step-2', action: 'wait', description: 'Confirm', status: 'skipped', startTime: '2024-01-15T10:00:05.000Z', durationMs: 0, retries: 0 }
+      ],
+      finalUrl: 'https://shop.example.com/cart'
+    };
+
+    const report = buildCtrfJourneyReport(execution);
+
+    expect(report.results.summary).toMatchObject({ tests: 2, failed: 1, skipped: 1 });
+    expect(report.results.tests[0]).toMatchObject({ suite: 'Checkout', retries: 2, message: 'Element not found: #pay' });
+  });
+});
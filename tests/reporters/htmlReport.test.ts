@@ -0,0 +1,124 @@
+import { describe, it, expect } from '@jest/globals';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { renderHtmlReport, escapeHtml } from '../../src/reporters/htmlReport.js';
+import { TestRun } from '../../src/types/index.js';
+import { createTestRun as createBaseRun, createTestStep } from '../fixtures/testRun.js';
+
+describe('renderHtmlReport', () => {
+  const createTestRun = (overrides: Partial<TestRun> = {}): TestRun => createBaseRun({
+    runId: 'run-html-1',
+    flow: [
+      createTestStep(),
+      createTestStep({
+        stepId: 'step-2',
+        action: 'click',
+        selector: 'button[type="submit"]',
+        inferredIntent: 'Submit form',
+        outcome: 'fail',
+        latencyMs: 2400,
+        timestamp: '2024-01-15T10:00:02.000Z'
+      })
+    ],
+    findings: {
+      forms: [{
+        name: 'signup',
+        fields: [{ name: 'email', type: 'email', selector: '#email', required: true, label: 'Email' }],
+        submit: { selector: 'button[type="submit"]', text: 'Sign up' }
+      }]
+    },
+    errors: [
+      {
+        type: 'network',
+        message: '500 Internal Server Error',
+        code: 'E_NETWORK',
+        evidence: { request: { method: 'POST', url: 'https://example.com/api/signup', status: 500 } },
+        timestamp: '2024-01-15T10:00:03.000Z'
+      },
+      {
+        type: 'validation',
+        selector: '.error',
+        message: 'Email <b>already</b> taken',
+        code: 'E_VALIDATION_RULE',
+        evidence: { text: 'Email <b>already</b> taken' },
+        timestamp: '2024-01-15T10:00:03.000Z'
+      }
+    ],
+    result: 'failed',
+    metrics: {
+      totalTimeMs: 3000,
+      steps: 2,
+      networkErrors: 1,
+      consoleErrors: 0
+    },
+    ...overrides
+  });
+
+  it('should render summary, timeline, errors and form schema', async () => {
+    const html = await renderHtmlReport(createTestRun());
+
+    expect(html).toContain('<!DOCTYPE html>');
+    expect(html).toContain('run-html-1');
+    expect(html).toContain('Fill email field');
+    expect(html).toContain('2.40s');
+    expect(html).toContain('POST https://example.com/api/signup &rarr; 500');
+    expect(html).toContain('Sign up');
+  });
+
+  it('should escape untrusted page content', async () => {
+    const html = await renderHtmlReport(createTestRun());
+
+    expect(html).not.toContain('<b>already</b>');
+    expect(html).toContain('Email &lt;b&gt;already&lt;/b&gt; taken');
+  });
+
+  it('should inline screenshots as base64 data URIs', async () => {
+    const screenshot = path.join(os.tmpdir(), `flow-final-${Date.now()}.png`);
+    await fs.writeFile(screenshot, 'fake-png');
+
+    const html = await renderHtmlReport(createTestRun({ artifacts: { screenshots: [screenshot] } }));
+
+    expect(html).toContain(`data:image/png;base64,${Buffer.from('fake-png').toString('base64')}`);
+    expect(html).toContain('final');
+
+    await fs.rm(screenshot, { force: true });
+  });
+
+  it('should still render when a screenshot file is missing', async () => {
+    const html = await renderHtmlReport(createTestRun({ artifacts: { screenshots: ['/tmp/does-not-exist.png'] } }));
+
+    expect(html).toContain('Screenshot unavailable');
+  });
+
+  it('should list mocked responses when the run used route mocks', async () => {
+    const html = await renderHtmlReport(createTestRun({
+      artifacts: {
+        mocks: [{
+          id: 'mock-1',
+          url: '**/api/signup',
+          method: 'POST',
+          status: 500,
+          hits: 1,
+          requests: [{ method: 'POST', url: 'https://example.com/api/signup', timestamp: '2024-01-15T10:00:02.500Z' }]
+        }]
+      }
+    }));
+
+    expect(html).toContain('Mocked Responses');
+    expect(html).toContain('**/api/signup');
+    expect(html).toContain('POST https://example.com/api/signup</code>');
+  });
+
+  it('should omit the mocked responses section when nothing was mocked', async () => {
+    const html = await renderHtmlReport(createTestRun());
+
+    expect(html).not.toContain('Mocked Responses');
+  });
+});
+
+describe('escapeHtml', () => {
+  it('should escape HTML special characters', () => {
+    expect(escapeHtml('<a href="x">\'&\'</a>')).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+  });
+});
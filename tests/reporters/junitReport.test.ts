@@ -0,0 +1,121 @@
+import { describe, it, expect } from '@jest/globals';
+import { renderJUnitRun, renderJUnitJourney, escapeXml } from '../../src/reporters/junitReport.js';
+import { TestRun } from '../../src/types/index.js';
+import { JourneyExecutionResult } from '../../src/types/journey.js';
+import { createTestRun as createBaseRun, createTestStep } from '../fixtures/testRun.js';
+
+describe('renderJUnitRun', () => {
+  const createTestRun = (overrides: Partial<TestRun> = {}): TestRun => createBaseRun({
+    runId: 'run-junit-1',
+    flow: [
+      createTestStep(),
+      createTestStep({
+        stepId: 'step-2',
+        action: 'click',
+        selector: '#submit',
+        inferredIntent: 'Submit form',
+        outcome: 'fail',
+        latencyMs: 2400,
+        timestamp: '2024-01-15T10:00:03.000Z'
+      })
+    ],
+    findings: {
+      forms: [{
+        name: 'signup',
+        fields: [],
+        submit: { selector: '#submit' }
+      }]
+    },
+    errors: [
+      {
+        type: 'validation',
+        selector: '#submit',
+        message: 'Email "x" is <invalid> & rejected',
+        code: 'E_VALIDATION_RULE',
+        timestamp: '2024-01-15T10:00:03.000Z'
+      },
+      {
+        type: 'console',
+        message: 'Uncaught TypeError: x is undefined',
+        code: 'E_CONSOLE',
+        timestamp: '2024-01-15T10:00:02.000Z'
+      }
+    ],
+    result: 'failed',
+    metrics: {
+      totalTimeMs: 3000,
+      steps: 2,
+      networkErrors: 0,
+      consoleErrors: 1
+    },
+    ...overrides
+  });
+
+  it('should emit one testcase per step with the form name as classname', () => {
+    const xml = renderJUnitRun(createTestRun());
+
+    expect(xml).toContain('<testcase name="Fill email field" classname="signup" time="0.120"/>');
+    expect(xml).toContain('<testcase name="Submit form" classname="signup" time="2.400">');
+    expect(xml).toContain('<property name="runId" value="run-junit-1"/>');
+    expect(xml).toContain('<property name="viewport" value="1280x800"/>');
+  });
+
+  it('should escape messages and report unattached errors separately', () => {
+    const xml = renderJUnitRun(createTestRun());
+
+    expect(xml).toContain('message="Email &quot;x&quot; is &lt;invalid&gt; &amp; rejected"');
+    expect(xml).toContain('<testcase name="Run result" classname="signup" time="0.000">');
+    expect(xml).toContain('failures="2"');
+    expect(xml).toContain('<system-out>Uncaught TypeError: x is undefined</system-out>');
+  });
+
+  it('should not add a run result testcase for passing runs', () => {
+    const xml = renderJUnitRun(createTestRun({
+      flow: [createTestRun().flow[0]],
+      errors: [],
+      result: 'passed'
+    }));
+
+    expect(xml).not.toContain('Run result');
+    expect(xml).toContain('failures="0"');
+  });
+});
+
+describe('renderJUnitJourney', () => {
+  it('should map journey step results to passed, failed and skipped testcases', () => {
+    const execution: JourneyExecutionResult = {
+      journeyId: 'journey-1',
+      journeyName: 'Checkout',
+      executionId: 'exec-1',
+      startTime: '2024-01-15T10:00:00.000Z',
+      endTime: '2024-01-15T10:00:05.000Z',
+      durationMs: 5000,
+      success: false,
+      completedSteps: 1,
+      totalSteps: 3,
+      errors: [{ stepId: 'step-2', error: 'Element not found: #pay' }],
+      warnings: ['Slow page load'],
+      screenshots: [],
+      stepResults: [
+        { stepId: 'step-1', action: 'click', description: 'Open cart', status: 'passed', startTime: '2024-01-15T10:00:01.000Z', durationMs: 400, retries: 0 },
+        { stepId: 'step-2', action: 'click', selector: '#pay', description: 'Pay', status: 'failed', startTime: '2024-01-15T10:00:02.000Z', durationMs: 2000, retries: 2, error: 'Element not found: #pay' },
+        { stepId: 'step-3', action: 'wait', description: 'Confirm', status: 'skipped', startTime: '2024-01-15T10:00:05.000Z', durationMs: 0, retries: 0 }
+      ],
+      finalUrl: 'https://shop.example.com/cart'
+    };
+
+    const xml = renderJUnitJourney(execution);
+
+    expect(xml).toContain('<testcase name="Open cart" classname="Checkout" time="0.400"/>');
+    expect(xml).toContain('<failure message="Element not found: #pay" type="StepFailure">click #pay failed after 2 retries</failure>');
+    expect(xml).toContain('<skipped message="Step not reached"/>');
+    expect(xml).toContain('tests="3" failures="1" errors="0" skipped="1"');
+    expect(xml).toContain('<property name="executionId" value="exec-1"/>');
+  });
+});
+
+describe('escapeXml', () => {
+  it('should escape special characters and drop invalid control characters', () => {
+    expect(escapeXml('<a b="c">\'&\'</a>\u0001')).toBe('&lt;a b=&quot;c&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;');
+  });
+});
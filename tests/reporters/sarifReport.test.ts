@@ -0,0 +1,64 @@
+import { describe, it, expect } from '@jest/globals';
+import { renderSarifReport } from '../../src/reporters/sarifReport.js';
+import { createTestRun } from '../fixtures/testRun.js';
+
+describe('renderSarifReport', () => {
+  const testRun = createTestRun({
+    runId: 'run-sarif-1',
+    flow: [],
+    findings: { forms: [] },
+    errors: [
+      {
+        type: 'network',
+        message: '500 Internal Server Error',
+        code: 'E_NETWORK',
+        evidence: { request: { method: 'POST', url: 'https://example.com/api/signup', status: 500 } },
+        timestamp: '2024-01-15T10:00:03.000Z'
+      },
+      {
+        type: 'accessibility',
+        selector: '#email',
+        message: 'Form field has no accessible label',
+        code: 'E_A11Y_LABEL',
+        evidence: { rule: 'label', impact: 'minor', wcag: ['1.3.1'], text: '<input id="email">' },
+        timestamp: '2024-01-15T10:00:03.000Z'
+      },
+      {
+        type: 'network',
+        message: '404 Not Found',
+        code: 'E_NETWORK',
+        evidence: { request: { method: 'GET', url: 'https://example.com/logo.png', status: 404 } },
+        timestamp: '2024-01-15T10:00:04.000Z'
+      }
+    ],
+    result: 'failed',
+    metrics: {
+      totalTimeMs: 3000,
+      steps: 0,
+      networkErrors: 2,
+      consoleErrors: 0
+    }
+  });
+
+  it('should produce a SARIF 2.1.0 log with one rule per error type', () => {
+    const sarif = JSON.parse(renderSarifReport(testRun));
+    const [run] = sarif.runs;
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(run.tool.driver.rules.map((rule: any) => rule.id)).toEqual(['ui-probe/network', 'ui-probe/accessibility']);
+    expect(run.results).toHaveLength(3);
+    expect(run.results[2].ruleIndex).toBe(0);
+    expect(run.invocations[0].executionSuccessful).toBe(false);
+  });
+
+  it('should build locations from request URLs, page URLs and selectors', () => {
+    const [run] = JSON.parse(renderSarifReport(testRun)).runs;
+    const [network, a11y] = run.results;
+
+    expect(network.locations[0].physicalLocation.artifactLocation.uri).toBe('https://example.com/api/signup');
+    expect(a11y.locations[0].physicalLocation.artifactLocation.uri).toBe('https://example.com/signup');
+    expect(a11y.locations[0].logicalLocations).toEqual([{ fullyQualifiedName: '#email', kind: 'element' }]);
+    expect(a11y.level).toBe('note');
+    expect(a11y.properties).toMatchObject({ code: 'E_A11Y_LABEL', rule: 'label', wcag: ['1.3.1'] });
+  });
+});
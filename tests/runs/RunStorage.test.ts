@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { RunStorage } from '../../src/runs/RunStorage.js';
+import { createTestRun } from '../fixtures/testRun.js';
+
+describe('RunStorage', () => {
+  let storage: RunStorage;
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), 'ui-probe-runs-test-' + Date.now());
+    storage = new RunStorage({ baseDir: testDir });
+    await storage.initialize();
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('saving and loading', () => {
+    it('should persist a run to disk and load it from a fresh instance', async () => {
+      await storage.saveRun(createTestRun());
+
+      const reloaded = new RunStorage({ baseDir: testDir });
+      await reloaded.initialize();
+      const run = await reloaded.loadRun('run-1');
+
+      expect(run).not.toBeNull();
+      expect(run!.target.url).toBe('https://example.com/signup');
+      expect(run!.flow).toHaveLength(1);
+    });
+
+    it('should copy screenshot artifacts into the run directory', async () => {
+      const screenshot = path.join(os.tmpdir(), `ui-probe-shot-${Date.now()}.png`);
+      await fs.writeFile(screenshot, 'fake-png');
+
+      const saved = await storage.saveRun(createTestRun({
+        artifacts: { screenshots: [screenshot] }
+      }));
+
+      const persisted = saved.artifacts!.screenshots![0];
+      expect(persisted.startsWith(storage.getArtifactsDir('run-1'))).toBe(true);
+      expect(await fs.readFile(persisted, 'utf8')).toBe('fake-png');
+
+      await fs.rm(screenshot, { force: true });
+    });
+
+    it('should keep a run that fails to persist loadable from the cache', async () => {
+      // A file where the run directory should go makes the write fail
+      await fs.writeFile(path.join(testDir, 'run-1'), '');
+
+      await expect(storage.saveRun(createTestRun())).rejects.toThrow('Failed to save test run');
+      expect((await storage.loadRun('run-1'))?.target.url).toBe('https://example.com/signup');
+    });
+
+    it('should return null for unknown runs', async () => {
+      expect(await storage.loadRun('missing')).toBeNull();
+    });
+  });
+
+  describe('listing', () => {
+    beforeEach(async () => {
+      await storage.saveRun(createTestRun());
+      await storage.saveRun(createTestRun({
+        runId: 'run-2',
+        startedAt: '2024-02-01T10:00:00.000Z',
+        target: { url: 'https://example.com/login', viewport: '1280x800', userAgent: 'test-agent' },
+        result: 'failed'
+      }));
+    });
+
+    it('should list newest runs first', async () => {
+      const result = await storage.listRuns();
+
+      expect(result.totalCount).toBe(2);
+      expect(result.runs.map(run => run.runId)).toEqual(['run-2', 'run-1']);
+    });
+
+    it('should filter by url, result and date range', async () => {
+      expect((await storage.listRuns({ url: 'login' })).runs.map(r => r.runId)).toEqual(['run-2']);
+      expect((await storage.listRuns({ result: 'passed' })).runs.map(r => r.runId)).toEqual(['run-1']);
+      expect((await storage.listRuns({ from: '2024-01-20T00:00:00Z' })).runs.map(r => r.runId)).toEqual(['run-2']);
+      expect((await storage.listRuns({ to: '2024-01-20T00:00:00Z' })).runs.map(r => r.runId)).toEqual(['run-1']);
+    });
+
+    it('should paginate results', async () => {
+      const result = await storage.listRuns({ limit: 1 });
+
+      expect(result.runs).toHaveLength(1);
+      expect(result.hasMore).toBe(true);
+    });
+  });
+
+  describe('deleting', () => {
+    it('should delete runs by id and by filter', async () => {
+      await storage.saveRun(createTestRun());
+      await storage.saveRun(createTestRun({ runId: 'run-2', result: 'failed' }));
+      await storage.saveRun(createTestRun({ runId: 'run-3' }));
+
+      expect(await storage.deleteRuns({ runIds: ['run-3'] })).toEqual(['run-3']);
+      expect(await storage.deleteRuns({ result: 'failed' })).toEqual(['run-2']);
+
+      const remaining = await storage.listRuns();
+      expect(remaining.runs.map(run => run.runId)).toEqual(['run-1']);
+      expect(await storage.loadRun('run-2')).toBeNull();
+    });
+  });
+
+  describe('retention', () => {
+    it('should prune the oldest runs beyond maxRuns', async () => {
+      const limited = new RunStorage({ baseDir: testDir, maxRuns: 1 });
+      await limited.initialize();
+
+      await limited.saveRun(createTestRun());
+      await limited.saveRun(createTestRun({ runId: 'run-2', startedAt: '2024-03-01T00:00:00.000Z' }));
+
+      const result = await limited.listRuns();
+      expect(result.runs.map(run => run.runId)).toEqual(['run-2']);
+    });
+  });
+
+  describe('journey executions', () => {
+    it('should persist executions outside the run index', async () => {
+      await storage.saveExecution({
+        journeyId: 'journey-1',
+        executionId: 'exec-1',
+        startTime: '2024-01-15T10:00:00.000Z',
+        endTime: '2024-01-15T10:00:02.000Z',
+        durationMs: 2000,
+        success: true,
+        completedSteps: 1,
+        totalSteps: 1,
+        errors: [],
+        warnings: [],
+        screenshots: [],
+        finalUrl: 'https://example.com/done'
+      });
+
+      const reloaded = new RunStorage({ baseDir: testDir });
+      const execution = await reloaded.loadExecution('exec-1');
+
+      expect(execution?.journeyId).toBe('journey-1');
+      expect((await reloaded.listRuns()).totalCount).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { SessionManager, DEFAULT_SESSION_ID } from '../../src/sessions/SessionManager.js';
+import { PlaywrightDriver } from '../../src/drivers/playwright.js';
+import { JourneyRecorder } from '../../src/journey/JourneyRecorder.js';
+import { JourneyPlayer } from '../../src/journey/JourneyPlayer.js';
+
+describe('SessionManager', () => {
+  let manager: SessionManager;
+  let recorders: Array<{ recordingStatus: { isRecording: boolean; stepCount: number }; stopRecording: jest.Mock<any> }>;
+
+  beforeEach(() => {
+    // No real browser: contexts are only created through getPage()
+    jest.spyOn(PlaywrightDriver.prototype, 'getPage').mockResolvedValue({} as any);
+    jest.spyOn(PlaywrightDriver.prototype, 'close').mockResolvedValue(undefined);
+
+    recorders = [];
+    manager = new SessionManager({
+      createRecorder: () => {
+        const recorder = {
+          recordingStatus: { isRecording: false, stepCount: 0 },
+          stopRecording: jest.fn<any>().mockResolvedValue({})
+        };
+        recorders.push(recorder);
+        return recorder as unknown as JourneyRecorder;
+      },
+      createPlayer: () => ({ playbackStatus: { isPlaying: false } }) as unknown as JourneyPlayer
+    }, { idleTimeoutMs: 1000, sweepIntervalMs: 60000, maxSessions: 2 });
+  });
+
+  afterEach(async () => {
+    await manager.closeAll();
+    jest.restoreAllMocks();
+  });
+
+  it('should start with a default session', () => {
+    const sessions = manager.list();
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].sessionId).toBe(DEFAULT_SESSION_ID);
+    expect(sessions[0].isDefault).toBe(true);
+    expect(sessions[0].url).toBe('about:blank');
+    expect(manager.current().id).toBe(DEFAULT_SESSION_ID);
+  });
+
+  it('should give each session its own driver and recorder', async () => {
+    const first = await manager.open({ label: 'buyer' });
+    const second = await manager.open({ label: 'seller' });
+
+    expect(first.id).not.toBe(second.id);
+    expect(first.driver).not.toBe(second.driver);
+    expect(first.recorder).not.toBe(second.recorder);
+    expect(first.driver).not.toBe(manager.get().driver);
+    expect(manager.list().map(session => session.label)).toEqual([undefined, 'buyer', 'seller']);
+  });
+
+  it('should bind the current session for the duration of a call', async () => {
+    const session = await manager.open();
+
+    const seen = await manager.run(session.id, async () => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      return manager.current().id;
+    });
+
+    expect(seen).toBe(session.id);
+    expect(manager.current().id).toBe(DEFAULT_SESSION_ID);
+  });
+
+  it('should reject unknown sessions', async () => {
+    await expect(manager.run('missing', async () => undefined))
+      .rejects.toMatchObject({ code: 'E_SESSION_NOT_FOUND' });
+  });
+
+  it('should enforce the session limit', async () => {
+    await manager.open();
+    await manager.open();
+
+    await expect(manager.open()).rejects.toMatchObject({ code: 'E_SESSION_LIMIT' });
+  });
+
+  it('should not close the default session', async () => {
+    await expect(manager.close(DEFAULT_SESSION_ID)).rejects.toMatchObject({ code: 'E_SESSION_DEFAULT' });
+  });
+
+  it('should save an in-progress recording when closing a session', async () => {
+    const session = await manager.open();
+    const recorder = recorders[recorders.length - 1];
+    recorder.recordingStatus.isRecording = true;
+
+    await manager.close(session.id);
+
+    expect(recorder.stopRecording).toHaveBeenCalled();
+    expect(session.driver.close).toHaveBeenCalled();
+    expect(() => manager.get(session.id)).toThrow('Session not found');
+  });
+
+  it('should close sessions idle for longer than the timeout', async () => {
+    const idle = await manager.open();
+    const busy = await manager.open();
+    const now = Date.now() + 5000;
+
+    let closed: string[] = [];
+    await manager.run(busy.id, async () => {
+      closed = await manager.closeIdleSessions(now);
+    });
+
+    expect(closed).toEqual([idle.id]);
+    expect(manager.list().map(session => session.sessionId)).toEqual([DEFAULT_SESSION_ID, busy.id]);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  auditAccessibility,
+  toAccessibilityErrors,
+  summarizeViolations,
+  AccessibilityViolation
+} from '../../src/tools/audit_accessibility.js';
+
+describe('auditAccessibility', () => {
+  const createMockPage = (rawViolations: any[]) => ({
+    url: jest.fn(() => 'https://example.com/signup'),
+    evaluate: jest.fn(async () => rawViolations)
+  });
+
+  it('should enrich raw violations with impact and WCAG references', async () => {
+    const page = createMockPage([
+      { rule: 'image-alt', selector: 'img:nth-of-type(2)', html: '<img src="logo.png">', message: 'Image has no alternative text' },
+      { rule: 'label', selector: 'input[name="email"]', html: '<input name="email">', message: 'Form input has no associated label' }
+    ]);
+
+    const result = await auditAccessibility(page as any);
+
+    expect(result.url).toBe('https://example.com/signup');
+    expect(result.violations).toHaveLength(2);
+    expect(result.violations[0]).toMatchObject({
+      rule: 'image-alt',
+      impact: 'critical',
+      wcag: ['WCAG 2.1 1.1.1']
+    });
+    expect(result.summary.total).toBe(2);
+    expect(result.summary.byRule).toEqual({ 'image-alt': 1, label: 1 });
+  });
+
+  it('should pass only the requested rules to the page', async () => {
+    const page = createMockPage([]);
+
+    await auditAccessibility(page as any, { rules: ['heading-order'], maxNodesPerRule: 5 });
+
+    const [, args] = (page.evaluate as any).mock.calls[0];
+    expect(args).toEqual({ rules: ['heading-order'], maxNodes: 5 });
+  });
+});
+
+describe('summarizeViolations', () => {
+  it('should count violations by impact', () => {
+    const violations: AccessibilityViolation[] = [
+      { rule: 'duplicate-id', impact: 'minor', message: 'dup', selector: '#a', wcag: [] },
+      { rule: 'link-name', impact: 'serious', message: 'empty', selector: 'a', wcag: [] },
+      { rule: 'link-name', impact: 'serious', message: 'empty', selector: 'a', wcag: [] }
+    ];
+
+    const summary = summarizeViolations(violations);
+
+    expect(summary.byImpact).toEqual({ critical: 0, serious: 2, moderate: 0, minor: 1 });
+    expect(summary.byRule['link-name']).toBe(2);
+  });
+});
+
+describe('toAccessibilityErrors', () => {
+  it('should convert violations into accessibility TestErrors', () => {
+    const errors = toAccessibilityErrors({
+      url: 'https://example.com',
+      violations: [{
+        rule: 'button-name',
+        impact: 'critical',
+        message: 'Button has no discernible text',
+        selector: 'button.icon',
+        html: '<button class="icon"></button>',
+        wcag: ['WCAG 2.1 4.1.2']
+      }],
+      summary: { total: 1, byRule: { 'button-name': 1 }, byImpact: { critical: 1, serious: 0, moderate: 0, minor: 0 } },
+      timestamp: '2024-01-15T10:30:00Z'
+    });
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].type).toBe('accessibility');
+    expect(errors[0].code).toBe('E_A11Y_BUTTON_NAME');
+    expect(errors[0].selector).toBe('button.icon');
+    expect(errors[0].message).toContain('WCAG 2.1 4.1.2');
+    expect(errors[0].evidence?.wcag).toEqual(['WCAG 2.1 4.1.2']);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from '@jest/globals';
+import { Page } from 'playwright';
+import { parseBrowserName, getPageBrowserName } from '../../src/utils/browsers.js';
+
+describe('browsers', () => {
+  it('should parse supported engine names case-insensitively', () => {
+    expect(parseBrowserName('WebKit')).toBe('webkit');
+    expect(parseBrowserName('firefox')).toBe('firefox');
+    expect(parseBrowserName('safari')).toBeUndefined();
+    expect(parseBrowserName(undefined)).toBeUndefined();
+  });
+
+  it('should read the engine from the page browser', () => {
+    const page = {
+      context: () => ({ browser: () => ({ browserType: () => ({ name: () => 'firefox' }) }) })
+    } as unknown as Page;
+
+    expect(getPageBrowserName(page)).toBe('firefox');
+  });
+
+  it('should return undefined when the page has no browser', () => {
+    expect(getPageBrowserName({} as unknown as Page)).toBeUndefined();
+    expect(getPageBrowserName({ context: () => ({ browser: () => null }) } as unknown as Page)).toBeUndefined();
+  });
+});
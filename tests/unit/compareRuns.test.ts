@@ -0,0 +1,119 @@
+import { describe, it, expect } from '@jest/globals';
+import { compareRuns } from '../../src/tools/compare_runs.js';
+import { TestRun } from '../../src/types/index.js';
+import { createTestRun as createBaseRun, createTestStep } from '../fixtures/testRun.js';
+
+describe('compareRuns', () => {
+  const createTestRun = (overrides: Partial<TestRun> = {}): TestRun => createBaseRun({
+    runId: 'run-before',
+    flow: [
+      createTestStep({ stepId: 'a1', latencyMs: 100 }),
+      createTestStep({
+        stepId: 'a2',
+        action: 'click',
+        selector: '#submit',
+        inferredIntent: 'Submit form',
+        latencyMs: 1000,
+        timestamp: '2024-01-15T10:00:02.000Z'
+      })
+    ],
+    findings: {
+      forms: [{
+        name: 'signup',
+        fields: [
+          { name: 'email', type: 'email', selector: '#email', required: true },
+          { name: 'nickname', type: 'text', selector: '#nickname', required: false }
+        ],
+        submit: { selector: '#submit' }
+      }]
+    },
+    errors: [
+      {
+        type: 'console',
+        message: 'Deprecated API used',
+        code: 'E_CONSOLE',
+        timestamp: '2024-01-15T10:00:01.000Z'
+      }
+    ],
+    result: 'passed',
+    metrics: {
+      totalTimeMs: 2000,
+      steps: 2,
+      networkErrors: 0,
+      consoleErrors: 1
+    },
+    ...overrides
+  });
+
+  it('should report no regressions for identical runs', () => {
+    const comparison = compareRuns(createTestRun(), createTestRun({ runId: 'run-after' }));
+
+    expect(comparison.hasRegressions).toBe(false);
+    expect(comparison.fields).toEqual([]);
+    expect(comparison.stepOutcomes).toEqual([]);
+    expect(comparison.errors).toEqual({ new: [], resolved: [] });
+    expect(comparison.markdown).toContain('No regressions detected.');
+  });
+
+  it('should detect field, outcome, latency, error and result changes', () => {
+    const baseline = createTestRun();
+    const candidate = createTestRun({
+      runId: 'run-after',
+      flow: [
+        { ...baseline.flow[0], stepId: 'b1' },
+        { ...baseline.flow[1], stepId: 'b2', outcome: 'fail', latencyMs: 2500 }
+      ],
+      findings: {
+        forms: [{
+          name: 'signup',
+          fields: [
+            { name: 'email', type: 'email', selector: '#email', required: false },
+            { name: 'phone', type: 'tel', selector: '#phone', required: true }
+          ],
+          submit: { selector: '#submit' }
+        }]
+      },
+      errors: [{
+        type: 'network',
+        message: '500 Internal Server Error',
+        code: 'E_NETWORK',
+        evidence: { request: { method: 'POST', url: 'https://example.com/api/signup?x=1', status: 500 } },
+        timestamp: '2024-01-15T10:00:02.000Z'
+      }],
+      result: 'failed',
+      metrics: { totalTimeMs: 3500, steps: 2, networkErrors: 1, consoleErrors: 0 }
+    });
+
+    const comparison = compareRuns(baseline, candidate);
+
+    expect(comparison.result).toEqual({ baseline: 'passed', candidate: 'failed', changed: true });
+    expect(comparison.fields).toEqual([
+      { form: 'signup', field: 'email', kind: 'changed', changes: { required: { baseline: true, candidate: false } } },
+      { form: 'signup', field: 'phone', kind: 'added' },
+      { form: 'signup', field: 'nickname', kind: 'removed' }
+    ]);
+    expect(comparison.stepOutcomes).toEqual([
+      { step: 'Submit form', selector: '#submit', baseline: 'success', candidate: 'fail' }
+    ]);
+    expect(comparison.latencyRegressions).toEqual([
+      { step: 'Submit form', selector: '#submit', baselineMs: 1000, candidateMs: 2500, deltaMs: 1500, deltaPercent: 150 }
+    ]);
+    expect(comparison.errors.new).toEqual([
+      { type: 'network', code: 'E_NETWORK', message: '500 Internal Server Error', url: 'https://example.com/api/signup?x=1' }
+    ]);
+    expect(comparison.errors.resolved.map(error => error.message)).toEqual(['Deprecated API used']);
+    expect(comparison.hasRegressions).toBe(true);
+    expect(comparison.markdown).toContain('| Submit form | #submit | success | fail |');
+  });
+
+  it('should respect latency thresholds', () => {
+    const baseline = createTestRun();
+    const candidate = createTestRun({
+      runId: 'run-after',
+      flow: [baseline.flow[0], { ...baseline.flow[1], latencyMs: 1400 }]
+    });
+
+    expect(compareRuns(baseline, candidate).latencyRegressions).toEqual([]);
+    expect(compareRuns(baseline, candidate, { latencyThresholdMs: 200 }).latencyRegressions).toHaveLength(1);
+  });
+});
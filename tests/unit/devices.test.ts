@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { PlaywrightDriver } from '../../src/drivers/playwright.js';
+import { DeviceProfiles, DEFAULT_DEVICE_PROFILE, environmentOf, toContextOptions } from '../../src/utils/devices.js';
+import { Journey } from '../../src/types/journey.js';
+
+describe('DeviceProfiles', () => {
+  let testDir: string;
+  let profiles: DeviceProfiles;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devices-test-'));
+    await fs.writeFile(path.join(testDir, 'devices.json'), JSON.stringify({
+      'Kiosk Portrait': { viewport: { width: 1080, height: 1920 }, hasTouch: true },
+      'Broken': { viewport: 'large' }
+    }));
+    profiles = new DeviceProfiles(path.join(testDir, 'devices.json'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const createJourney = (metadata: Partial<Journey['metadata']>): Journey => ({
+    id: 'journey-1',
+    name: 'Checkout',
+    description: 'Checkout flow',
+    tags: [],
+    createdAt: '2024-01-15T10:00:00.000Z',
+    updatedAt: '2024-01-15T10:00:00.000Z',
+    startingContext: { urlPattern: 'https://shop.example.com/*', requiredElements: [] },
+    steps: [],
+    metadata: {
+      author: 'Test',
+      version: '1.0.0',
+      successRate: 0,
+      avgDurationMs: 0,
+      usageCount: 0,
+      difficulty: 'medium',
+      environment: ['desktop'],
+      browserCompatibility: ['chromium'],
+      ...metadata
+    }
+  });
+
+  it('should resolve Playwright descriptors case-insensitively', () => {
+    const iphone = profiles.resolve('iphone 13');
+
+    expect(iphone.name).toBe('iPhone 13');
+    expect(iphone).toMatchObject({ isMobile: true, hasTouch: true, environment: 'mobile' });
+    expect(iphone.deviceScaleFactor).toBeGreaterThan(1);
+    expect(profiles.resolve('iPad (gen 7)').environment).toBe('tablet');
+  });
+
+  it('should load valid custom profiles and skip invalid ones', () => {
+    const kiosk = profiles.resolve('Kiosk Portrait');
+
+    expect(kiosk).toMatchObject({ viewport: { width: 1080, height: 1920 }, hasTouch: true, deviceScaleFactor: 1, environment: 'tablet' });
+    expect(() => profiles.resolve('Broken')).toThrow('Unknown device profile: Broken');
+  });
+
+  it('should pick a replay profile from journey device and environment', () => {
+    expect(profiles.selectForJourney(createJourney({ environment: ['desktop'] }), DEFAULT_DEVICE_PROFILE)).toBe(DEFAULT_DEVICE_PROFILE);
+    expect(profiles.selectForJourney(createJourney({ environment: ['mobile'] }), DEFAULT_DEVICE_PROFILE).environment).toBe('mobile');
+    expect(profiles.selectForJourney(createJourney({ device: 'iPhone 13' }), DEFAULT_DEVICE_PROFILE).name).toBe('iPhone 13');
+  });
+
+  it('should drop isMobile for Firefox contexts', () => {
+    const pixel = profiles.resolve('Pixel 7');
+
+    expect(toContextOptions(pixel, 'chromium').isMobile).toBe(true);
+    expect(toContextOptions(pixel, 'firefox')).not.toHaveProperty('isMobile');
+    expect(environmentOf(DEFAULT_DEVICE_PROFILE)).toBe('desktop');
+  });
+});
+
+describe('PlaywrightDriver devices', () => {
+  // Contexts remember their options and hand out a signed-in storage state
+  const signedIn = { cookies: [{ name: 'sid', value: 'abc', domain: 'shop.test', path: '/' }], origins: [] };
+  const createContext = (options: any) => Object.assign(new EventEmitter(), {
+    options,
+    pages: () => [],
+    newPage: async () => ({ url: () => 'https://shop.test/account', goto: jest.fn<any>(), on: () => undefined, close: async () => undefined }),
+    storageState: async () => signedIn,
+    close: async () => undefined
+  });
+
+  it('should carry cookies, storage and the open page over to the new device', async () => {
+    const contexts: any[] = [];
+    const browser = {
+      newContext: async (options: any) => {
+        const context = createContext(options);
+        contexts.push(context);
+        return context;
+      }
+    };
+    const driver = new PlaywrightDriver(async () => browser as any);
+    await driver.getPage();
+
+    await driver.useDevice(new DeviceProfiles().resolve('iPhone 13'));
+
+    expect(contexts).toHaveLength(2);
+    expect(contexts[1].options).toMatchObject({ storageState: signedIn, isMobile: true });
+    expect((await driver.getPage()).goto).toHaveBeenCalledWith('https://shop.test/account', expect.anything());
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { dialogHandlerFor, mergeDialogSteps, toDialogErrors, DialogHandler } from '../../src/utils/dialogs.js';
+import { DialogRecord, TestStep } from '../../src/types/index.js';
+
+// Minimal stand-in for Playwright's Dialog
+const createDialog = (type: string, message: string, defaultValue = '') => ({
+  type: () => type,
+  message: () => message,
+  defaultValue: () => defaultValue,
+  page: () => ({ url: () => 'https://shop.test/orders' }),
+  accept: jest.fn<any>().mockResolvedValue(undefined),
+  dismiss: jest.fn<any>().mockResolvedValue(undefined)
+});
+
+const createRecord = (overrides: Partial<DialogRecord> = {}): DialogRecord => ({
+  type: 'confirm',
+  message: 'Delete order?',
+  url: 'https://shop.test/orders',
+  response: 'accepted',
+  timestamp: '2024-01-15T10:00:01.500Z',
+  ...overrides
+});
+
+const createStep = (stepId: string, timestamp: string): TestStep => ({
+  stepId,
+  action: 'click',
+  selector: `#${stepId}`,
+  inferredIntent: `Click ${stepId}`,
+  outcome: 'success',
+  latencyMs: 100,
+  timestamp
+});
+
+describe('DialogHandler', () => {
+  let context: EventEmitter;
+  let handler: DialogHandler;
+
+  // Dialogs are answered asynchronously from the event
+  const open = async (dialog: ReturnType<typeof createDialog>) => {
+    context.emit('dialog', dialog);
+    await new Promise(resolve => setImmediate(resolve));
+  };
+
+  beforeEach(() => {
+    context = new EventEmitter();
+    handler = dialogHandlerFor(context as any);
+  });
+
+  it('should share one handler per context', () => {
+    expect(dialogHandlerFor(context as any)).toBe(handler);
+  });
+
+  it('should answer dialogs with the policy and record them', async () => {
+    handler.setPolicy({ action: 'accept', promptText: 'Rush delivery' });
+    const prompt = createDialog('prompt', 'Delivery note?', 'none');
+
+    await open(prompt);
+
+    expect(prompt.accept).toHaveBeenCalledWith('Rush delivery');
+    expect(handler.list()).toEqual([expect.objectContaining({
+      type: 'prompt',
+      message: 'Delivery note?',
+      defaultValue: 'none',
+      response: 'accepted',
+      promptText: 'Rush delivery'
+    })]);
+  });
+
+  it('should dismiss dialogs the policy fails', async () => {
+    handler.setPolicy({ action: 'fail' });
+    const confirm = createDialog('confirm', 'Delete order?');
+
+    await open(confirm);
+
+    expect(confirm.dismiss).toHaveBeenCalled();
+    expect(handler.list()[0].response).toBe('failed');
+  });
+
+  it('should use queued answers, then step overrides, before the policy', async () => {
+    handler.setPolicy({ action: 'accept' });
+    handler.queue([{ action: 'dismiss' }]);
+    const restore = handler.override({ action: 'fail' });
+
+    await open(createDialog('confirm', 'First'));
+    await open(createDialog('confirm', 'Second'));
+    restore();
+    await open(createDialog('alert', 'Third'));
+
+    expect(handler.list().map(record => record.response)).toEqual(['dismissed', 'failed', 'accepted']);
+  });
+
+  it('should notify listeners until they unsubscribe', async () => {
+    const listener = jest.fn();
+    const unsubscribe = handler.onDialog(listener);
+
+    await open(createDialog('alert', 'Saved'));
+    unsubscribe();
+    await open(createDialog('alert', 'Saved again'));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject invalid policies', () => {
+    expect(() => handler.setPolicy({ action: 'ignore' } as any)).toThrow('Invalid dialog policy');
+  });
+});
+
+describe('mergeDialogSteps', () => {
+  it('should place each dialog after the step that opened it', () => {
+    const flow = [
+      createStep('fill', '2024-01-15T10:00:01.000Z'),
+      createStep('delete', '2024-01-15T10:00:02.000Z'),
+      createStep('done', '2024-01-15T10:00:03.000Z')
+    ];
+
+    const merged = mergeDialogSteps(flow, [
+      createRecord(),
+      createRecord({ type: 'alert', message: 'Order deleted', timestamp: '2024-01-15T10:00:01.800Z' })
+    ]);
+
+    expect(merged.map(step => step.inferredIntent)).toEqual([
+      'Click fill',
+      'Click delete',
+      'Accept confirm "Delete order?"',
+      'Accept alert "Order deleted"',
+      'Click done'
+    ]);
+    expect(merged[2]).toMatchObject({ action: 'dialog', outcome: 'success', input: { type: 'confirm', response: 'accepted' } });
+  });
+
+  it('should append dialogs opened after the last step', () => {
+    const merged = mergeDialogSteps([createStep('submit', '2024-01-15T10:00:01.000Z')], [createRecord()]);
+
+    expect(merged[1].action).toBe('dialog');
+  });
+});
+
+describe('toDialogErrors', () => {
+  it('should report only dialogs the policy failed', () => {
+    const errors = toDialogErrors([createRecord(), createRecord({ response: 'failed', message: 'Leave page?', type: 'beforeunload' })]);
+
+    expect(errors).toEqual([{
+      type: 'dialog',
+      message: 'Unexpected beforeunload dialog: "Leave page?"',
+      code: 'E_UNEXPECTED_DIALOG',
+      evidence: { text: 'https://shop.test/orders' },
+      timestamp: '2024-01-15T10:00:01.500Z'
+    }]);
+  });
+});
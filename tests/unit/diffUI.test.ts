@@ -0,0 +1,115 @@
+import { describe, it, expect } from '@jest/globals';
+import { diffUI } from '../../src/tools/diff_ui.js';
+import { UIAnalysis, UIBaseline } from '../../src/types/index.js';
+
+describe('diffUI', () => {
+  const createAnalysis = (overrides: Partial<UIAnalysis> = {}): UIAnalysis => ({
+    forms: [{
+      name: 'checkout',
+      selector: '#checkout',
+      fields: [
+        { name: 'email', type: 'email', selector: '#email', required: true, label: 'Email' },
+        { name: 'coupon', type: 'text', selector: '#coupon', required: false, label: 'Coupon' }
+      ],
+      submit: { selector: '#pay', text: 'Pay now' }
+    }],
+    buttons: [
+      { type: 'button', selector: '#pay', text: 'Pay now', name: 'Pay now', attributes: { disabled: 'false' } },
+      { type: 'button', selector: '#cancel', text: 'Cancel', name: 'Cancel', attributes: { disabled: 'false' } }
+    ],
+    inputs: [],
+    roles: [],
+    landmarks: [
+      { type: 'main', selector: 'main', role: 'main', name: '' },
+      { type: 'nav', selector: 'nav', role: 'nav', name: 'Breadcrumbs' }
+    ],
+    ...overrides
+  });
+
+  const createBaseline = (analysis: UIAnalysis = createAnalysis()): UIBaseline => ({
+    name: 'checkout',
+    url: 'https://shop.test/checkout',
+    variant: 'chromium-desktop',
+    savedAt: '2024-01-15T10:00:00.000Z',
+    analysis
+  });
+
+  it('should report no drift for an unchanged page', () => {
+    const diff = diffUI(createBaseline(), createAnalysis());
+
+    expect(diff.highestSeverity).toBeNull();
+    expect(diff.passed).toBe(true);
+    expect(diff.markdown).toContain('No structural changes.');
+  });
+
+  it('should classify a new required field and a stricter field as high severity', () => {
+    const current = createAnalysis();
+    current.forms[0].fields = [
+      { name: 'email', type: 'email', selector: '#email', required: true, label: 'Email address' },
+      { name: 'coupon', type: 'text', selector: '#coupon', required: true, label: 'Coupon' },
+      { name: 'phone', type: 'tel', selector: '#phone', required: true }
+    ];
+
+    const diff = diffUI(createBaseline(), current);
+
+    expect(diff.fields).toEqual([
+      {
+        kind: 'changed',
+        severity: 'low',
+        name: 'checkout.email',
+        selector: '#email',
+        changes: { label: { baseline: 'Email', current: 'Email address' } }
+      },
+      {
+        kind: 'changed',
+        severity: 'high',
+        name: 'checkout.coupon',
+        selector: '#coupon',
+        changes: { required: { baseline: false, current: true } }
+      },
+      { kind: 'added', severity: 'high', name: 'checkout.phone', selector: '#phone' }
+    ]);
+    expect(diff.summary).toEqual({ high: 2, medium: 0, low: 1 });
+    expect(diff.passed).toBe(false);
+  });
+
+  it('should match buttons by label and report the ones that disappeared', () => {
+    const current = createAnalysis({
+      buttons: [{ type: 'button', selector: '.btn-primary', text: 'Pay now', name: 'Pay now', attributes: { disabled: 'false' } }]
+    });
+
+    const diff = diffUI(createBaseline(), current);
+
+    expect(diff.buttons).toEqual([
+      {
+        kind: 'changed',
+        severity: 'medium',
+        name: 'Pay now',
+        selector: '.btn-primary',
+        changes: { selector: { baseline: '#pay', current: '.btn-primary' } }
+      },
+      { kind: 'removed', severity: 'high', name: 'Cancel', selector: '#cancel' }
+    ]);
+  });
+
+  it('should report removed forms and landmarks', () => {
+    const current = createAnalysis({
+      forms: [],
+      landmarks: [{ type: 'main', selector: 'main', role: 'main', name: '' }]
+    });
+
+    const diff = diffUI(createBaseline(), current);
+
+    expect(diff.forms).toEqual([{ kind: 'removed', severity: 'high', name: 'checkout', selector: '#checkout' }]);
+    expect(diff.fields).toEqual([]);
+    expect(diff.landmarks).toEqual([{ kind: 'removed', severity: 'medium', name: 'nav "Breadcrumbs"', selector: 'nav' }]);
+    expect(diff.highestSeverity).toBe('high');
+  });
+
+  it('should fail from the configured severity upwards', () => {
+    const current = createAnalysis({ landmarks: [{ type: 'main', selector: 'main', role: 'main', name: '' }] });
+
+    expect(diffUI(createBaseline(), current).passed).toBe(true);
+    expect(diffUI(createBaseline(), current, { failOn: 'medium' }).passed).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DownloadCapture, mimeTypeOf, verifyDownload } from '../../src/utils/downloads.js';
+import { DownloadRecord } from '../../src/types/index.js';
+
+// A finished download whose content is written wherever saveAs points
+const createDownload = (filename: string, content: string, failure: string | null = null) => ({
+  suggestedFilename: () => filename,
+  url: () => `https://shop.test/export/${filename}`,
+  page: () => ({ url: () => 'https://shop.test/orders' }),
+  failure: async () => failure,
+  saveAs: async (filePath: string) => fs.writeFile(filePath, content)
+});
+
+describe('verifyDownload', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'downloads-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const saved = async (filename: string, content: string): Promise<DownloadRecord> => {
+    const filePath = path.join(dir, filename);
+    await fs.writeFile(filePath, content);
+    return {
+      downloadId: 'd1',
+      filename,
+      url: `https://shop.test/export/${filename}`,
+      pageUrl: 'https://shop.test/orders',
+      mimeType: mimeTypeOf(filename),
+      path: filePath,
+      size: Buffer.byteLength(content),
+      timestamp: new Date().toISOString()
+    };
+  };
+
+  it('should check filename, MIME type and size', async () => {
+    const download = await saved('orders-2025-01.csv', 'id,total\n1,20\n');
+
+    expect(await verifyDownload(download, { filename: 'orders-*.csv', mimeType: 'text/*', minBytes: 1 })).toEqual([]);
+    expect(await verifyDownload(download, { mimeType: 'application/pdf', maxBytes: 4 })).toEqual([
+      'MIME type expected "application/pdf", got "text/csv"',
+      'size expected <= 4 bytes, got 14'
+    ]);
+  });
+
+  it('should count CSV rows with quoted line breaks and check columns', async () => {
+    const download = await saved('orders.csv', '\uFEFFid,note,total\r\n1,"Gift, wrapped\nby hand",20\r\n2,"Say ""hi""",35\r\n\r\n');
+
+    expect(await verifyDownload(download, { csv: { rows: 2, columns: ['id', 'total'] } })).toEqual([]);
+    expect(await verifyDownload(download, { csv: { minRows: 3, columns: ['status'] } })).toEqual([
+      'CSV expected >= 3 rows, got 2',
+      'CSV missing columns: status'
+    ]);
+  });
+
+  it('should check JSON paths and text', async () => {
+    const download = await saved('report.json', JSON.stringify({ orders: [{ id: 1 }, { id: 2 }], currency: 'EUR' }));
+
+    expect(await verifyDownload(download, { json: [{ path: 'orders.length', equals: 2 }], textContains: ['EUR'] })).toEqual([]);
+    expect(await verifyDownload(download, { json: [{ path: 'orders.length', gte: 5 }] })).toEqual(['JSON orders.length expected >= 5, got 2']);
+  });
+
+  it('should reject unknown expectations', async () => {
+    const download = await saved('orders.csv', 'id\n');
+
+    await expect(verifyDownload(download, { rowCount: 1 })).rejects.toThrow('Invalid download expectation');
+  });
+});
+
+describe('DownloadCapture', () => {
+  let dir: string;
+  let page: EventEmitter;
+  let context: EventEmitter & { pages: () => EventEmitter[] };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'downloads-test-'));
+    page = new EventEmitter();
+    context = Object.assign(new EventEmitter(), { pages: () => [page] });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should save downloads of every page in the order they started', async () => {
+    const capture = new DownloadCapture(context as any, dir);
+    const popup = new EventEmitter();
+    context.emit('page', popup);
+
+    page.emit('download', createDownload('orders.csv', 'id\n1\n'));
+    popup.emit('download', createDownload('invoice.pdf', '', 'canceled'));
+
+    const [orders, invoice] = await capture.list();
+    expect(orders).toMatchObject({ filename: 'orders.csv', mimeType: 'text/csv', size: 5, pageUrl: 'https://shop.test/orders' });
+    expect(await fs.readFile(orders.path!, 'utf8')).toBe('id\n1\n');
+    expect(invoice).toMatchObject({ filename: 'invoice.pdf', failure: 'canceled' });
+    expect(invoice.path).toBeUndefined();
+  });
+
+  it('should wait for a download to start', async () => {
+    const capture = new DownloadCapture(context as any, dir);
+    setTimeout(() => page.emit('download', createDownload('orders.csv', 'id\n')), 50);
+
+    expect((await capture.waitFor(0, 1000)).filename).toBe('orders.csv');
+    await expect(capture.waitFor(1, 50)).rejects.toMatchObject({ code: 'E_DOWNLOAD_TIMEOUT' });
+  });
+});
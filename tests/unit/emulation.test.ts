@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { PlaywrightDriver } from '../../src/drivers/playwright.js';
+import { parseClock, parseEmulation } from '../../src/utils/emulation.js';
+
+class FakePage extends EventEmitter {
+  url() { return 'about:blank'; }
+  async close() {}
+}
+
+// Contexts record the options they were created with and the clock calls made on them
+class FakeContext extends EventEmitter {
+  private openPages: FakePage[] = [];
+  clock = {
+    install: jest.fn<any>().mockResolvedValue(undefined),
+    setFixedTime: jest.fn<any>().mockResolvedValue(undefined),
+    pauseAt: jest.fn<any>().mockResolvedValue(undefined),
+    resume: jest.fn<any>().mockResolvedValue(undefined),
+    runFor: jest.fn<any>().mockResolvedValue(undefined),
+    fastForward: jest.fn<any>().mockResolvedValue(undefined)
+  };
+  grantPermissions = jest.fn<any>().mockResolvedValue(undefined);
+  setGeolocation = jest.fn<any>().mockResolvedValue(undefined);
+
+  constructor(public options: any) {
+    super();
+  }
+
+  pages() { return [...this.openPages]; }
+  async newPage() {
+    const page = new FakePage();
+    this.openPages.push(page);
+    return page;
+  }
+  async storageState() { return { cookies: [], origins: [] }; }
+  async close() {}
+}
+
+describe('parseEmulation', () => {
+  it('should keep only the settings given', () => {
+    expect(parseEmulation({ locale: 'de-DE', timezoneId: undefined })).toEqual({ locale: 'de-DE' });
+  });
+
+  it('should reject unknown locales, time zones and positions', () => {
+    expect(() => parseEmulation({ locale: 'not a locale' })).toThrow('Invalid locale: not a locale');
+    expect(() => parseEmulation({ timezoneId: 'Mars/Olympus' })).toThrow('Invalid time zone: Mars/Olympus');
+    expect(() => parseEmulation({ geolocation: { latitude: 120, longitude: 0 } })).toThrow('Invalid emulation settings');
+  });
+});
+
+describe('parseClock', () => {
+  it('should default to a fixed clock and reject invalid dates', () => {
+    expect(parseClock({ time: '2025-12-24T09:00:00Z' })).toEqual({ time: '2025-12-24T09:00:00Z', mode: 'fixed' });
+    expect(() => parseClock({ time: 'next tuesday' })).toThrow('Invalid clock settings');
+  });
+});
+
+describe('PlaywrightDriver emulation', () => {
+  let contexts: FakeContext[];
+  let driver: PlaywrightDriver;
+
+  beforeEach(async () => {
+    contexts = [];
+    const browser = {
+      newContext: async (options: any) => {
+        const context = new FakeContext(options);
+        contexts.push(context);
+        return context;
+      }
+    };
+    driver = new PlaywrightDriver(async () => browser as any);
+  });
+
+  it('should create contexts with the locale, time zone and position', async () => {
+    await driver.useEmulation({ locale: 'de-DE', timezoneId: 'Europe/Berlin', geolocation: { latitude: 52.52, longitude: 13.4 } });
+    await driver.getPage();
+
+    expect(contexts[0].options).toMatchObject({
+      locale: 'de-DE',
+      timezoneId: 'Europe/Berlin',
+      geolocation: { latitude: 52.52, longitude: 13.4 },
+      permissions: ['geolocation']
+    });
+  });
+
+  it('should reopen the context for a new locale but move the position in place', async () => {
+    await driver.getPage();
+
+    await driver.useEmulation({ geolocation: { latitude: 48.14, longitude: 11.58 } });
+    expect(contexts).toHaveLength(1);
+    expect(contexts[0].setGeolocation).toHaveBeenCalledWith({ latitude: 48.14, longitude: 11.58 });
+
+    expect(await driver.useEmulation({ locale: 'fr-FR' })).toEqual({ locale: 'fr-FR', geolocation: { latitude: 48.14, longitude: 11.58 } });
+    expect(contexts).toHaveLength(2);
+    expect(contexts[1].options.locale).toBe('fr-FR');
+  });
+
+  it('should install the clock in replacement contexts too', async () => {
+    await driver.getPage();
+    await driver.setClock({ time: '2025-12-24T09:00:00Z', mode: 'paused' });
+
+    expect(contexts[0].clock.install).toHaveBeenCalledWith({ time: new Date('2025-12-24T09:00:00Z') });
+    expect(contexts[0].clock.pauseAt).toHaveBeenCalledWith(new Date('2025-12-24T09:00:00Z'));
+
+    expect(await driver.advanceClock(60000)).toEqual({ time: '2025-12-24T09:01:00.000Z', mode: 'paused' });
+    expect(contexts[0].clock.runFor).toHaveBeenCalledWith(60000);
+
+    await driver.useEmulation({ timezoneId: 'Asia/Tokyo' });
+    expect(contexts[1].clock.install).toHaveBeenCalledWith({ time: new Date('2025-12-24T09:01:00.000Z') });
+  });
+
+  it('should carry the real time an advancing clock has run into advances and new contexts', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    await driver.getPage();
+    await driver.setClock({ time: '2025-12-24T09:00:00Z', mode: 'advancing' });
+
+    now.mockReturnValue(1_030_000);
+    expect(await driver.advanceClock(60000)).toEqual({ time: '2025-12-24T09:01:30.000Z', mode: 'advancing' });
+    expect(contexts[0].clock.fastForward).toHaveBeenCalledWith(60000);
+
+    now.mockReturnValue(1_040_000);
+    await driver.useEmulation({ timezoneId: 'Asia/Tokyo' });
+    expect(contexts[1].clock.install).toHaveBeenCalledWith({ time: new Date('2025-12-24T09:01:40.000Z') });
+    now.mockRestore();
+  });
+
+  it('should restore saved settings without the clock installed since', async () => {
+    await driver.useEmulation({ locale: 'de-DE' });
+    await driver.getPage();
+    const saved = driver.saveEmulation();
+
+    await driver.useEmulation({ locale: 'ja-JP', timezoneId: 'Asia/Tokyo' });
+    await driver.setClock({ time: '2025-12-24T09:00:00Z' });
+    await driver.restoreEmulation(saved);
+
+    expect(driver.getEmulation()).toEqual({ locale: 'de-DE' });
+    expect(driver.getClock()).toBeNull();
+    expect(contexts[2].options).toMatchObject({ locale: 'de-DE' });
+    expect(contexts[2].options).not.toHaveProperty('timezoneId');
+    expect(contexts[2].clock.setFixedTime).not.toHaveBeenCalled();
+  });
+
+  it('should need a clock before advancing it', async () => {
+    await expect(driver.advanceClock(1000)).rejects.toMatchObject({ code: 'E_CLOCK_NOT_SET' });
+  });
+});
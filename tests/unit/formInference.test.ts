@@ -134,5 +134,53 @@ describe('FormInferenceEngine', () => {
       expect(result.formSchema.name).toBe('signup');
       expect(result.formSchema.fields).toHaveLength(2);
     });
+
+    it('should infer field types of form-associated custom elements from their tag name', async () => {
+      const mockUIAnalysis: UIAnalysis = {
+        forms: [
+          {
+            name: 'profile',
+            selector: 'ds-card >> form',
+            fields: [
+              {
+                name: 'contact',
+                type: 'text',
+                selector: 'ds-card >> ds-email-field',
+                required: true,
+                customElement: 'ds-email-field'
+              },
+              {
+                name: 'newsletter',
+                type: 'text',
+                selector: 'ds-card >> ds-switch',
+                required: false,
+                customElement: 'ds-switch'
+              },
+              {
+                name: 'phone',
+                type: 'text',
+                selector: 'ds-card >> ds-text-field',
+                required: false,
+                customElement: 'ds-text-field'
+              }
+            ],
+            submit: {
+              selector: 'ds-card >> button[type="submit"]',
+              text: 'Save'
+            }
+          }
+        ],
+        buttons: [],
+        inputs: [],
+        roles: [],
+        landmarks: []
+      };
+
+      const result = await engine.inferForm(mockUIAnalysis);
+      const types = Object.fromEntries(result.formSchema.fields.map(f => [f.name, f.type]));
+
+      expect(types).toEqual({ contact: 'email', newsletter: 'checkbox', phone: 'phone' });
+      expect(result.formSchema.fields[0].rules).toContain('format:email');
+    });
   });
 });
\ No newline at end of file
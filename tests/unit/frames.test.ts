@@ -0,0 +1,135 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { framePathOf, locateInFrame } from '../../src/utils/frames.js';
+import { FlowEngine } from '../../src/flows/flowEngine.js';
+import { JourneyPlayer } from '../../src/journey/JourneyPlayer.js';
+
+// Minimal stand-in for a Playwright Frame whose <iframe> element resolves to a fixed selector
+const createFrame = (parent: any, selector?: string) => ({
+  parentFrame: () => parent,
+  frameElement: async () => ({ evaluate: async () => selector })
+});
+
+describe('framePathOf', () => {
+  it('should list iframe selectors from the top document down', async () => {
+    const main = createFrame(null);
+    const checkout = createFrame(main, 'iframe#checkout');
+    const card = createFrame(checkout, 'iframe[name="card-number"]');
+
+    expect(await framePathOf(card as any)).toEqual(['iframe#checkout', 'iframe[name="card-number"]']);
+  });
+
+  it('should return an empty path for the main frame', async () => {
+    expect(await framePathOf(createFrame(null) as any)).toEqual([]);
+  });
+});
+
+describe('locateInFrame', () => {
+  const createScope = (name: string): any => ({
+    name,
+    frameLocator: jest.fn((selector: string) => createScope(`${name} > ${selector}`)),
+    locator: jest.fn((selector: string) => `${name} :: ${selector}`)
+  });
+
+  it('should enter each frame in the path before locating', () => {
+    const page = createScope('page');
+
+    expect(locateInFrame(page, '#cvc', ['iframe#checkout', 'iframe[name="card"]'])).toBe(
+      'page > iframe#checkout > iframe[name="card"] :: #cvc'
+    );
+  });
+
+  it('should locate on the page itself without a frame path', () => {
+    const page = createScope('page');
+
+    expect(locateInFrame(page, '#email')).toBe('page :: #email');
+    expect(page.frameLocator).not.toHaveBeenCalled();
+  });
+});
+
+describe('FlowEngine checkbox groups in frames', () => {
+  // A document whose checkboxes are only found by accessible name; every other query matches nothing
+  const createDocument = (labels: string[], frames: Record<string, any> = {}): any => {
+    const checked = new Set<string>();
+    const empty: any = { count: async () => 0, first: () => empty, and: () => empty };
+    const checkbox = (label: string): any => ({
+      count: async () => 1,
+      first: () => checkbox(label),
+      isChecked: async () => checked.has(label),
+      check: async () => { checked.add(label); }
+    });
+
+    return {
+      checked,
+      getByRole: (role: string, { name }: { name: string }) => (role === 'checkbox' && labels.includes(name) ? checkbox(name) : empty),
+      getByLabel: () => empty,
+      locator: () => empty,
+      frameLocator: (selector: string) => frames[selector]
+    };
+  };
+
+  it('should check the options inside the field\'s iframe', async () => {
+    const preferences = createDocument(['News', 'Offers']);
+    // The top document has a same-named option that must not be touched
+    const page = createDocument(['News'], { 'iframe#preferences': preferences });
+    const engine: any = new FlowEngine();
+    const field = { name: 'interests', type: 'checkbox', selector: 'input[name="interests"]', required: false };
+
+    await engine.fillField(page, field, { interests: ['News', 'Offers'] }, ['iframe#preferences']);
+
+    expect([...preferences.checked]).toEqual(['News', 'Offers']);
+    expect(page.checked.size).toBe(0);
+    expect(engine.steps[0].outcome).toBe('success');
+  });
+});
+
+describe('JourneyPlayer select steps in frames', () => {
+  const empty: any = { count: async () => 0, first: () => empty, isVisible: async () => false };
+  // A document holding the given locators by selector; anything else matches nothing
+  const createDocument = (elements: Record<string, any>, frames: Record<string, any> = {}): any => ({
+    locator: (selector: string) => elements[selector] || empty,
+    frameLocator: (selector: string) => frames[selector],
+    waitForTimeout: async () => undefined,
+    keyboard: { type: jest.fn(), press: jest.fn() }
+  });
+  const createDropdown = (): any => {
+    const dropdown: any = {
+      first: () => dropdown,
+      waitFor: async () => undefined,
+      evaluate: async () => 'div',
+      click: jest.fn(async () => undefined),
+      selectOption: jest.fn(async () => [])
+    };
+    return dropdown;
+  };
+
+  const player: any = new JourneyPlayer({ timeoutMs: 1000 } as any, {} as any, {} as any);
+  const step = { id: 'step-1', action: 'select', selector: '#country', value: 'France', metadata: { name: 'country' }, framePath: ['iframe#checkout'], timestamp: '' };
+
+  it('should resolve the option of a dropdown inside the step\'s iframe', async () => {
+    const dropdown = createDropdown();
+    const select = {
+      count: async () => 1,
+      locator: () => ({ all: async () => [{ textContent: async () => 'France', getAttribute: async () => 'fr' }] })
+    };
+    const page = createDocument({}, {
+      'iframe#checkout': createDocument({ '#country': dropdown, 'select[name="country"]': select })
+    });
+
+    await player.handleSelectStep(page, step);
+
+    expect(dropdown.selectOption).toHaveBeenCalledWith('fr');
+  });
+
+  it('should click the option of a custom dropdown inside the step\'s iframe', async () => {
+    const dropdown = createDropdown();
+    const option = { first: () => option, isVisible: async () => true, click: jest.fn(async () => undefined) };
+    const page = createDocument({}, {
+      'iframe#checkout': createDocument({ '#country': dropdown, '[role="option"]:has-text("France")': option })
+    });
+
+    await player.handleSelectStep(page, step);
+
+    expect(option.click).toHaveBeenCalled();
+    expect(page.keyboard.type).not.toHaveBeenCalled();
+  });
+});
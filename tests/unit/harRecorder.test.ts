@@ -0,0 +1,117 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { HarRecorder, toHarEntry } from '../../src/utils/harRecorder.js';
+
+const timing = {
+  startTime: Date.parse('2024-01-15T10:00:00.000Z'),
+  domainLookupStart: 1,
+  domainLookupEnd: 3,
+  connectStart: 3,
+  secureConnectionStart: -1,
+  connectEnd: 8,
+  requestStart: 8,
+  responseStart: 40,
+  responseEnd: 55
+};
+
+// Minimal stand-in for Playwright's Request/Response pair
+const createRequest = (options: {
+  method?: string;
+  url: string;
+  postData?: string;
+  status?: number;
+  contentType?: string;
+  body?: Buffer;
+  failure?: string;
+}) => {
+  const responseHeaders = { 'content-type': options.contentType || 'application/json' };
+  const response = {
+    status: () => options.status ?? 200,
+    statusText: () => 'OK',
+    headers: () => responseHeaders,
+    allHeaders: async () => responseHeaders,
+    body: async () => options.body ?? Buffer.from('{"ok":true}')
+  };
+
+  return {
+    method: () => options.method || 'GET',
+    url: () => options.url,
+    postData: () => options.postData ?? null,
+    headers: () => ({ accept: '*/*' }),
+    allHeaders: async () => ({ accept: '*/*', ...(options.postData ? { 'content-type': 'application/json' } : {}) }),
+    timing: () => timing,
+    response: async () => response,
+    failure: () => options.failure ? { errorText: options.failure } : null
+  };
+};
+
+describe('toHarEntry', () => {
+  it('should capture request, response body and timings', async () => {
+    const entry = await toHarEntry(createRequest({
+      method: 'POST',
+      url: 'https://shop.test/api/orders?draft=1',
+      postData: '{"sku":"A1"}',
+      status: 201
+    }) as any);
+
+    expect(entry.startedDateTime).toBe('2024-01-15T10:00:00.000Z');
+    expect(entry.request).toMatchObject({
+      method: 'POST',
+      queryString: [{ name: 'draft', value: '1' }],
+      postData: { mimeType: 'application/json', text: '{"sku":"A1"}' }
+    });
+    expect(entry.response.status).toBe(201);
+    expect(entry.response.content).toEqual({ size: 11, mimeType: 'application/json', text: '{"ok":true}' });
+    expect(entry.timings).toMatchObject({ dns: 2, connect: 5, ssl: -1, wait: 32, receive: 15 });
+    expect(entry.time).toBe(55);
+  });
+
+  it('should base64-encode binary bodies', async () => {
+    const entry = await toHarEntry(createRequest({
+      url: 'https://shop.test/logo.png',
+      contentType: 'image/png',
+      body: Buffer.from([0x89, 0x50, 0x4e, 0x47])
+    }) as any);
+
+    expect(entry.response.content).toMatchObject({ encoding: 'base64', text: 'iVBORw==' });
+  });
+
+  it('should record failed requests without a response', async () => {
+    const entry = await toHarEntry(createRequest({ url: 'https://shop.test/api/slow' }) as any, 'net::ERR_ABORTED');
+
+    expect(entry.response.status).toBe(0);
+    expect(entry.response._failureText).toBe('net::ERR_ABORTED');
+  });
+});
+
+describe('HarRecorder', () => {
+  const outputPath = path.join(os.tmpdir(), `har-recorder-test-${process.pid}.har`);
+
+  afterEach(async () => {
+    await fs.rm(outputPath, { force: true });
+  });
+
+  it('should collect finished and failed requests until stopped', async () => {
+    const page = new EventEmitter();
+    const recorder = new HarRecorder(page as any);
+
+    recorder.start();
+    page.emit('requestfinished', createRequest({ url: 'https://shop.test/' }));
+    page.emit('requestfailed', createRequest({ url: 'https://shop.test/api/track', failure: 'blocked' }));
+    page.emit('requestfinished', createRequest({ url: 'data:image/png;base64,AAAA' }));
+
+    const saved = await recorder.save(outputPath);
+    page.emit('requestfinished', createRequest({ url: 'https://shop.test/after-stop' }));
+
+    const har = JSON.parse(await fs.readFile(outputPath, 'utf8'));
+    expect(saved.entries).toBe(2);
+    expect(har.log.version).toBe('1.2');
+    expect(har.log.entries.map((entry: any) => entry.request.url)).toEqual(
+      expect.arrayContaining(['https://shop.test/', 'https://shop.test/api/track'])
+    );
+    expect(page.listenerCount('requestfinished')).toBe(0);
+  });
+});
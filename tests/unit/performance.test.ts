@@ -0,0 +1,100 @@
+import { describe, it, expect } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  checkBudgets,
+  matchesUrlPattern,
+  toPerformanceErrors,
+  loadPerformanceBudgets
+} from '../../src/utils/performance.js';
+import { PageVitals } from '../../src/types/index.js';
+
+const createVitals = (url: string, overrides: Partial<PageVitals> = {}): PageVitals => ({
+  url,
+  navigationStart: 1700000000000,
+  collectedAt: '2024-01-01T00:00:00.000Z',
+  lcpMs: 1800,
+  cls: 0.02,
+  ttfbMs: 120,
+  loadMs: 900,
+  resources: { count: 30, transferBytes: 400000, byType: {} },
+  ...overrides
+});
+
+describe('matchesUrlPattern', () => {
+  it('should treat * as a wildcard and everything else literally', () => {
+    expect(matchesUrlPattern('https://shop.test/products/42?ref=home', 'https://shop.test/products/*')).toBe(true);
+    expect(matchesUrlPattern('https://shop.test/cart', '*/cart')).toBe(true);
+    expect(matchesUrlPattern('https://shopXtest/cart', 'https://shop.test/*')).toBe(false);
+    expect(matchesUrlPattern('https://shop.test/cart/items', 'https://shop.test/cart')).toBe(false);
+  });
+});
+
+describe('checkBudgets', () => {
+  it('should report each metric over budget on matching pages', () => {
+    const pages = [
+      createVitals('https://shop.test/checkout', { lcpMs: 3200, cls: 0.3 }),
+      createVitals('https://shop.test/about', { lcpMs: 5000 })
+    ];
+
+    const violations = checkBudgets(pages, [
+      { urlPattern: '*/checkout', lcpMs: 2500, cls: 0.1, ttfbMs: 800 }
+    ]);
+
+    expect(violations).toEqual([
+      { url: 'https://shop.test/checkout', urlPattern: '*/checkout', metric: 'lcpMs', actual: 3200, budget: 2500 },
+      { url: 'https://shop.test/checkout', urlPattern: '*/checkout', metric: 'cls', actual: 0.3, budget: 0.1 }
+    ]);
+  });
+
+  it('should skip metrics the page did not report', () => {
+    const pages = [createVitals('https://shop.test/', { inpMs: undefined })];
+
+    expect(checkBudgets(pages, [{ urlPattern: '*', inpMs: 200 }])).toEqual([]);
+  });
+
+  it('should check resource totals', () => {
+    const pages = [createVitals('https://shop.test/')];
+
+    expect(checkBudgets(pages, [{ urlPattern: '*', resourceCount: 20, transferBytes: 500000 }])).toEqual([
+      { url: 'https://shop.test/', urlPattern: '*', metric: 'resourceCount', actual: 30, budget: 20 }
+    ]);
+  });
+});
+
+describe('toPerformanceErrors', () => {
+  it('should describe violations as performance errors', () => {
+    const [error] = toPerformanceErrors([
+      { url: 'https://shop.test/checkout', urlPattern: '*/checkout', metric: 'lcpMs', actual: 3200, budget: 2500 }
+    ], '2024-01-01T00:00:00.000Z');
+
+    expect(error).toMatchObject({
+      type: 'performance',
+      code: 'E_PERFORMANCE_BUDGET',
+      message: 'LCP of 3200ms exceeds the 2500ms budget for https://shop.test/checkout',
+      timestamp: '2024-01-01T00:00:00.000Z'
+    });
+  });
+});
+
+describe('loadPerformanceBudgets', () => {
+  it('should return no budgets without a file', async () => {
+    expect(await loadPerformanceBudgets(undefined)).toEqual([]);
+  });
+
+  it('should load and validate a budgets file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'budgets-'));
+    const valid = path.join(dir, 'valid.json');
+    const invalid = path.join(dir, 'invalid.json');
+    await fs.writeFile(valid, JSON.stringify([{ urlPattern: '*', lcpMs: 2500 }]));
+    await fs.writeFile(invalid, JSON.stringify([{ lcpMs: 'fast' }]));
+
+    try {
+      expect(await loadPerformanceBudgets(valid)).toEqual([{ urlPattern: '*', lcpMs: 2500 }]);
+      await expect(loadPerformanceBudgets(invalid)).rejects.toMatchObject({ code: 'E_VALIDATION' });
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
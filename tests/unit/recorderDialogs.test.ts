@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { JourneyRecorder } from '../../src/journey/JourneyRecorder.js';
+import { RecordingConfigSchema } from '../../src/types/journey.js';
+
+// Pages only need what the recorder instruments; bindings can't be exposed twice, as in Playwright
+class FakePage extends EventEmitter {
+  private bindings = new Set<string>();
+  private frame = {};
+
+  constructor(private owner: FakeContext, private address: string) {
+    super();
+  }
+
+  url() { return this.address; }
+  context() { return this.owner; }
+  async title() { return ''; }
+  isClosed() { return false; }
+  mainFrame() { return this.frame; }
+  async waitForLoadState() {}
+  async addInitScript() {}
+  async evaluate() {}
+
+  async exposeBinding(name: string) {
+    if (this.bindings.has(name)) throw new Error(`Function "${name}" has been already registered`);
+    this.bindings.add(name);
+  }
+}
+
+class FakeContext extends EventEmitter {
+  private openPages: FakePage[] = [];
+
+  pages() { return [...this.openPages]; }
+
+  open(url: string): FakePage {
+    const page = new FakePage(this, url);
+    this.openPages.push(page);
+    this.emit('page', page);
+    return page;
+  }
+
+  // What Playwright emits for an alert() in any page of the context
+  alert(page: FakePage, message: string) {
+    this.emit('dialog', {
+      type: () => 'alert',
+      message: () => message,
+      defaultValue: () => '',
+      page: () => page,
+      accept: async () => undefined,
+      dismiss: async () => undefined
+    });
+  }
+}
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 20));
+
+describe('JourneyRecorder dialogs', () => {
+  let context: FakeContext;
+  let page: FakePage;
+  let recorder: JourneyRecorder;
+
+  beforeEach(() => {
+    context = new FakeContext();
+    page = context.open('https://shop.test/cart');
+    const config = RecordingConfigSchema.parse({ captureScreenshots: false, autoGenerateName: false, autoGenerateDescription: false });
+    const storage = { saveJourney: jest.fn<any>().mockResolvedValue(undefined) };
+    recorder = new JourneyRecorder(config, storage as any, {} as any);
+  });
+
+  const record = async (during: () => Promise<void>) => {
+    await recorder.startRecording(page as any, { urlPattern: page.url(), requiredElements: [] });
+    await during();
+    const journey = await recorder.stopRecording();
+    return journey.steps.filter(step => step.action === 'dialog');
+  };
+
+  it('should record a dialog once after following a popup', async () => {
+    const dialogs = await record(async () => {
+      context.open('https://accounts.test/authorize');
+      await settle();
+      context.alert(page, 'Signed in');
+      await settle();
+    });
+
+    expect(dialogs).toHaveLength(1);
+    expect(dialogs[0].metadata).toEqual({ type: 'alert', message: 'Signed in' });
+  });
+
+  it('should record dialogs again when recording twice on the same page', async () => {
+    await record(async () => {
+      context.alert(page, 'First');
+      await settle();
+    });
+
+    const dialogs = await record(async () => {
+      context.alert(page, 'Second');
+      await settle();
+    });
+
+    expect(dialogs.map(step => step.metadata?.message)).toEqual(['Second']);
+  });
+});
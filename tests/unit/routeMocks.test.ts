@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { RouteMocks, toFulfillOptions } from '../../src/utils/routeMocks.js';
+
+// Minimal stand-ins for Playwright's BrowserContext and Route
+const createContext = () => {
+  const handlers = new Map<string, (route: any) => Promise<void>>();
+  return {
+    handlers,
+    route: jest.fn(async (url: string, handler: (route: any) => Promise<void>) => {
+      handlers.set(url, handler);
+    }),
+    unroute: jest.fn(async (url: string) => {
+      handlers.delete(url);
+    })
+  };
+};
+
+const createRoute = (method: string, url: string) => ({
+  request: () => ({ method: () => method, url: () => url }),
+  fulfill: jest.fn<any>().mockResolvedValue(undefined),
+  fallback: jest.fn<any>().mockResolvedValue(undefined)
+});
+
+describe('RouteMocks', () => {
+  let mocks: RouteMocks;
+  let context: ReturnType<typeof createContext>;
+
+  beforeEach(async () => {
+    mocks = new RouteMocks();
+    context = createContext();
+    await mocks.attach(context as any);
+  });
+
+  it('should fulfill matching requests with the mocked response', async () => {
+    await mocks.add({ url: '**/api/orders', method: 'post', status: 500, body: { error: 'boom' } });
+    const route = createRoute('POST', 'https://shop.test/api/orders');
+
+    await context.handlers.get('**/api/orders')!(route);
+
+    expect(route.fulfill).toHaveBeenCalledWith({
+      status: 500,
+      headers: { 'content-type': 'application/json' },
+      body: '{"error":"boom"}'
+    });
+    expect(mocks.list()[0]).toMatchObject({ method: 'POST', hits: 1 });
+  });
+
+  it('should fall through for other methods and once the match count is used up', async () => {
+    await mocks.add({ url: '**/api/orders', method: 'POST', times: 1 });
+    const handler = context.handlers.get('**/api/orders')!;
+
+    const get = createRoute('GET', 'https://shop.test/api/orders');
+    await handler(get);
+    const first = createRoute('POST', 'https://shop.test/api/orders');
+    await handler(first);
+    const second = createRoute('POST', 'https://shop.test/api/orders');
+    await handler(second);
+
+    expect(get.fallback).toHaveBeenCalled();
+    expect(first.fulfill).toHaveBeenCalled();
+    expect(second.fallback).toHaveBeenCalled();
+    expect(mocks.list()[0].hits).toBe(1);
+  });
+
+  it('should re-route active mocks on a new context', async () => {
+    await mocks.add({ id: 'slow-search', url: '**/search*', delayMs: 2000 });
+    const next = createContext();
+
+    await mocks.attach(next as any);
+
+    expect(next.route).toHaveBeenCalledWith('**/search*', expect.any(Function));
+  });
+
+  it('should unroute cleared mocks and report them', async () => {
+    await mocks.add({ id: 'a', url: '**/a' });
+    await mocks.add({ id: 'b', url: '**/b' });
+
+    const cleared = await mocks.clear('a');
+
+    expect(cleared.map(mock => mock.id)).toEqual(['a']);
+    expect(context.unroute).toHaveBeenCalledWith('**/a', expect.any(Function));
+    expect(mocks.list().map(mock => mock.id)).toEqual(['b']);
+    await expect(mocks.clear('a')).rejects.toMatchObject({ code: 'E_MOCK_NOT_FOUND' });
+  });
+
+  it('should reject invalid mocks', async () => {
+    await expect(mocks.add({ status: 500 } as any)).rejects.toMatchObject({ code: 'E_VALIDATION' });
+  });
+
+  it('should only count requests since a given time', async () => {
+    await mocks.add({ url: '**/api/orders' });
+    await context.handlers.get('**/api/orders')!(createRoute('GET', 'https://shop.test/api/orders'));
+
+    expect(mocks.list(new Date(Date.now() + 1000))[0].hits).toBe(0);
+  });
+});
+
+describe('toFulfillOptions', () => {
+  it('should send string bodies as-is and keep custom headers', () => {
+    expect(toFulfillOptions({ url: '**', status: 422, body: 'invalid', headers: { 'x-test': '1' } })).toEqual({
+      status: 422,
+      headers: { 'x-test': '1' },
+      body: 'invalid'
+    });
+  });
+});
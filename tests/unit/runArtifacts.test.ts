@@ -0,0 +1,19 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseArtifactMode, shouldRetainArtifact } from '../../src/utils/runArtifacts.js';
+
+describe('runArtifacts', () => {
+  it('should parse artifact modes case-insensitively', () => {
+    expect(parseArtifactMode('Retain-On-Failure')).toBe('retain-on-failure');
+    expect(parseArtifactMode('on')).toBe('on');
+    expect(parseArtifactMode('sometimes')).toBeUndefined();
+    expect(parseArtifactMode(undefined)).toBeUndefined();
+  });
+
+  it('should keep artifacts according to mode and outcome', () => {
+    expect(shouldRetainArtifact('on', false)).toBe(true);
+    expect(shouldRetainArtifact('retain-on-failure', true)).toBe(true);
+    expect(shouldRetainArtifact('retain-on-failure', false)).toBe(false);
+    expect(shouldRetainArtifact('off', true)).toBe(false);
+    expect(shouldRetainArtifact(undefined, true)).toBe(false);
+  });
+});
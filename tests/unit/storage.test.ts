@@ -0,0 +1,76 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { Page } from 'playwright';
+import { checkStorageValue, parseStorageCheckKey, writeStorage, readStorage } from '../../src/utils/storage.js';
+
+// Pages only need a URL and a context for cookie calls
+const createPage = (url: string) => {
+  const context = {
+    addCookies: jest.fn<any>().mockResolvedValue(undefined),
+    cookies: jest.fn<any>().mockResolvedValue([])
+  };
+  return { page: { url: () => url, context: () => context } as unknown as Page, context };
+};
+
+describe('parseStorageCheckKey', () => {
+  it('should recognize storage keys and leave selectors alone', () => {
+    expect(parseStorageCheckKey('localStorage:cart')).toEqual({ area: 'localStorage', name: 'cart' });
+    expect(parseStorageCheckKey('cookie:session_id')).toEqual({ area: 'cookies', name: 'session_id' });
+    expect(parseStorageCheckKey('sessionStorage:checkout:step')).toEqual({ area: 'sessionStorage', name: 'checkout:step' });
+    expect(parseStorageCheckKey('.cart-badge')).toBeNull();
+    expect(parseStorageCheckKey('a:hover')).toBeNull();
+  });
+});
+
+describe('checkStorageValue', () => {
+  it('should treat plain values as equality against the parsed value', () => {
+    expect(checkStorageValue('3', 3)).toBeNull();
+    expect(checkStorageValue('true', true)).toBeNull();
+    expect(checkStorageValue('shipping', 'shipping')).toBeNull();
+    expect(checkStorageValue('payment', 'shipping')).toBe('expected "shipping", got "payment"');
+    expect(checkStorageValue(undefined, 'shipping')).toBe('is not set');
+  });
+
+  it('should read JSON values by path', () => {
+    const cart = JSON.stringify({ items: [{ sku: 'A1' }, { sku: 'B2' }], currency: 'EUR' });
+
+    expect(checkStorageValue(cart, { path: 'items.length', equals: 2 })).toBeNull();
+    expect(checkStorageValue(cart, { path: 'items.0.sku', matches: '^A' })).toBeNull();
+    expect(checkStorageValue(cart, { path: 'items.length', gte: 3 })).toBe('items.length expected >= 3, got 2');
+    expect(checkStorageValue(cart, { path: 'coupon', exists: false })).toBeNull();
+  });
+
+  it('should check presence and substrings', () => {
+    expect(checkStorageValue('abc123', { exists: true, contains: 'abc' })).toBeNull();
+    expect(checkStorageValue(undefined, { exists: true })).toBe('expected to exist');
+    expect(checkStorageValue('["beta","dark-mode"]', { contains: 'beta' })).toBeNull();
+  });
+
+  it('should reject unknown operators', () => {
+    expect(() => checkStorageValue('1', { greaterThan: 0 })).toThrow('Invalid storage check');
+  });
+});
+
+describe('storage access', () => {
+  it('should set cookies for the whole origin unless a domain or path is given', async () => {
+    const { page, context } = createPage('https://shop.test/cart/items');
+
+    await writeStorage(page, {
+      cookies: [
+        { name: 'session', value: 'abc' },
+        { name: 'locale', value: 'de', path: '/de' }
+      ]
+    });
+
+    expect(context.addCookies).toHaveBeenCalledWith([
+      { name: 'session', value: 'abc', url: 'https://shop.test' },
+      { name: 'locale', value: 'de', domain: 'shop.test', path: '/de' }
+    ]);
+  });
+
+  it('should need a page with a web origin', async () => {
+    const { page } = createPage('about:blank');
+
+    await expect(readStorage(page)).rejects.toMatchObject({ code: 'E_STORAGE_NO_ORIGIN' });
+    await expect(writeStorage(page, { cookies: [{ name: 'session' } as any] })).rejects.toMatchObject({ code: 'E_VALIDATION' });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { PlaywrightDriver } from '../../src/drivers/playwright.js';
+
+// Minimal stand-ins for a Playwright context and its pages; pages() keeps opening order
+class FakePage extends EventEmitter {
+  private closed = false;
+
+  constructor(private context: FakeContext, private address: string, private heading: string) {
+    super();
+  }
+
+  url() { return this.address; }
+  async title() { return this.heading; }
+  isClosed() { return this.closed; }
+  async waitForLoadState() {}
+  async bringToFront() {}
+
+  async close() {
+    this.closed = true;
+    this.context.remove(this);
+    this.emit('close', this);
+  }
+}
+
+class FakeContext extends EventEmitter {
+  private openPages: FakePage[] = [];
+
+  pages() { return [...this.openPages]; }
+
+  async newPage() {
+    return this.open('about:blank', '');
+  }
+
+  // What the browser does when the site opens a popup
+  open(url: string, title: string): FakePage {
+    const page = new FakePage(this, url, title);
+    this.openPages.push(page);
+    this.emit('page', page);
+    return page;
+  }
+
+  remove(page: FakePage) {
+    this.openPages = this.openPages.filter(other => other !== page);
+  }
+}
+
+describe('PlaywrightDriver tabs', () => {
+  let context: FakeContext;
+  let driver: PlaywrightDriver;
+
+  beforeEach(async () => {
+    context = new FakeContext();
+    driver = new PlaywrightDriver(async () => ({ newContext: async () => context }) as any);
+    await driver.getPage();
+  });
+
+  it('should list every page of the context', async () => {
+    context.open('https://accounts.test/authorize', 'Sign in');
+
+    expect(await driver.listTabs()).toEqual([
+      { index: 0, url: 'about:blank', title: '', active: true },
+      { index: 1, url: 'https://accounts.test/authorize', title: 'Sign in', active: false }
+    ]);
+  });
+
+  it('should follow tabs opened since a click', async () => {
+    const known = driver.getOpenPages();
+    const popup = context.open('https://accounts.test/authorize', 'Sign in');
+
+    const opened = await driver.followNewTab(known);
+
+    expect(opened).toEqual({ index: 1, url: 'https://accounts.test/authorize', title: 'Sign in', active: true });
+    expect(await driver.getPage()).toBe(popup);
+    expect(await driver.followNewTab(driver.getOpenPages())).toBeNull();
+  });
+
+  it('should switch by URL pattern or title and wait for the tab to open', async () => {
+    setTimeout(() => context.open('https://docs.test/guide/setup', 'Setup guide'), 50);
+
+    const byUrl = await driver.switchTab({ url: 'https://docs.test/*/setup' }, 1000);
+    expect(byUrl.index).toBe(1);
+    expect(await driver.switchTab({ title: 'Setup' })).toMatchObject({ index: 1, active: true });
+
+    await expect(driver.switchTab({ title: 'Checkout' }, 0)).rejects.toMatchObject({ code: 'E_TAB_NOT_FOUND' });
+  });
+
+  it('should return to the newest remaining tab when the active one closes', async () => {
+    const opener = await driver.getPage();
+    context.open('https://shop.test/terms', 'Terms');
+    const popup = context.open('https://accounts.test/authorize', 'Sign in');
+    await driver.switchTab({ index: 2 });
+
+    await popup.close();
+
+    expect((await driver.getPage()).url()).toBe('https://shop.test/terms');
+    await driver.closeTab();
+    expect(await driver.getPage()).toBe(opener);
+    await expect(driver.closeTab()).rejects.toMatchObject({ code: 'E_TAB_LAST' });
+  });
+});
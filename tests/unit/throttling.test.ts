@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { resolveThrottling, describeThrottling, throttlingFor } from '../../src/utils/throttling.js';
+
+// Context with one page whose CDP session records what it was sent
+const createContext = (engine = 'chromium') => {
+  const sent: Array<[string, any]> = [];
+  const page = {};
+  const context = Object.assign(new EventEmitter(), {
+    pages: () => [page],
+    browser: () => ({ browserType: () => ({ name: () => engine }) }),
+    setOffline: jest.fn<any>().mockResolvedValue(undefined),
+    newCDPSession: jest.fn<any>().mockImplementation(async () => ({
+      send: async (method: string, params?: any) => {
+        sent.push([method, params]);
+      }
+    }))
+  });
+  return { context, sent };
+};
+
+describe('resolveThrottling', () => {
+  it('should resolve built-in profiles and none', () => {
+    expect(resolveThrottling('slow-3g')).toEqual({ name: 'slow-3g', latencyMs: 2000, downloadKbps: 400, uploadKbps: 400 });
+    expect(resolveThrottling('none')).toBeNull();
+    expect(resolveThrottling(undefined)).toBeNull();
+  });
+
+  it('should extend a profile with custom conditions', () => {
+    expect(resolveThrottling({ profile: 'fast-3g', cpuSlowdown: 4 })).toMatchObject({ name: 'fast-3g', latencyMs: 563, cpuSlowdown: 4 });
+    expect(resolveThrottling({ latencyMs: 300 })).toEqual({ name: 'custom', latencyMs: 300 });
+  });
+
+  it('should reject unknown profiles and invalid conditions', () => {
+    expect(() => resolveThrottling('edge')).toThrow('Unknown throttling profile: edge');
+    expect(() => resolveThrottling({ cpuSlowdown: 0.5 })).toThrow('Invalid throttling');
+  });
+
+  it('should describe the conditions', () => {
+    expect(describeThrottling(resolveThrottling('offline')!)).toBe('offline');
+    expect(describeThrottling(resolveThrottling({ profile: 'slow-3g', cpuSlowdown: 4 })!))
+      .toBe('slow-3g (2000ms latency, 400kbps down, 400kbps up, 4x CPU slowdown)');
+  });
+});
+
+describe('ContextThrottling', () => {
+  let setup: ReturnType<typeof createContext>;
+
+  beforeEach(() => {
+    setup = createContext();
+  });
+
+  it('should emulate network and CPU conditions over CDP', async () => {
+    const throttling = throttlingFor(setup.context as any);
+
+    const previous = await throttling.apply(resolveThrottling({ profile: 'slow-3g', cpuSlowdown: 4 }));
+
+    expect(previous).toBeNull();
+    expect(setup.context.setOffline).toHaveBeenCalledWith(false);
+    expect(setup.sent).toEqual([
+      ['Network.enable', undefined],
+      ['Network.emulateNetworkConditions', { offline: false, latency: 2000, downloadThroughput: 50000, uploadThroughput: 50000 }],
+      ['Emulation.setCPUThrottlingRate', { rate: 4 }]
+    ]);
+  });
+
+  it('should lift throttling on pages it throttled and return the previous profile', async () => {
+    const throttling = throttlingFor(setup.context as any);
+    await throttling.apply(resolveThrottling('fast-3g'));
+    setup.sent.length = 0;
+
+    const previous = await throttling.apply(null);
+
+    expect(previous?.name).toBe('fast-3g');
+    expect(throttling.current()).toBeNull();
+    expect(setup.sent).toContainEqual(['Network.emulateNetworkConditions', { offline: false, latency: 0, downloadThroughput: -1, uploadThroughput: -1 }]);
+    expect(setup.context.newCDPSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('should go offline without CDP in every engine', async () => {
+    const { context } = createContext('firefox');
+    const throttling = throttlingFor(context as any);
+
+    await throttling.apply(resolveThrottling('offline'));
+
+    expect(context.setOffline).toHaveBeenCalledWith(true);
+    expect(context.newCDPSession).not.toHaveBeenCalled();
+    await expect(throttling.apply(resolveThrottling('slow-3g'))).rejects.toMatchObject({ code: 'E_THROTTLING_UNSUPPORTED' });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { PNG } from 'pngjs';
+import { VisualStorage, visualVariant } from '../../src/visual/VisualStorage.js';
+import { diffImages } from '../../src/utils/visualDiff.js';
+
+// Solid white image with an optional black rectangle
+const createImage = (
+  width: number,
+  height: number,
+  box?: { x: number; y: number; width: number; height: number }
+): Buffer => {
+  const png = new PNG({ width, height });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inBox = box && x >= box.x && x < box.x + box.width && y >= box.y && y < box.y + box.height;
+      const offset = (y * width + x) * 4;
+      png.data[offset] = png.data[offset + 1] = png.data[offset + 2] = inBox ? 0 : 255;
+      png.data[offset + 3] = 255;
+    }
+  }
+  return PNG.sync.write(png);
+};
+
+describe('diffImages', () => {
+  it('should count changed pixels', () => {
+    const result = diffImages(createImage(10, 10, { x: 0, y: 0, width: 2, height: 5 }), createImage(10, 10));
+
+    expect(result.mismatchedPixels).toBe(10);
+    expect(result.mismatchRatio).toBeCloseTo(0.1);
+    expect(result.sizeChanged).toBe(false);
+  });
+
+  it('should leave ignored regions out of the comparison', () => {
+    const result = diffImages(createImage(10, 10, { x: 0, y: 0, width: 2, height: 5 }), createImage(10, 10), {
+      ignoreRegions: [{ x: 0, y: 0, width: 1, height: 5 }],
+      scale: 2
+    });
+
+    expect(result.mismatchedPixels).toBe(0);
+    expect(result.comparedPixels).toBe(80);
+  });
+
+  it('should treat area only one image covers as changed', () => {
+    const result = diffImages(createImage(10, 12), createImage(10, 10));
+
+    expect(result.sizeChanged).toBe(true);
+    expect(result.width).toBe(10);
+    expect(result.height).toBe(12);
+    expect(result.mismatchedPixels).toBe(20);
+  });
+});
+
+describe('VisualStorage', () => {
+  let storage: VisualStorage;
+  let testDir: string;
+  const variant = visualVariant('chromium', 'Desktop');
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'visual-test-'));
+    storage = new VisualStorage({ baseDir: testDir, maxDiffRatio: 0.01 });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should keep screenshots without a baseline as pending diffs', async () => {
+    const result = await storage.check({ name: 'checkout/summary', variant, image: createImage(10, 10) });
+
+    expect(result.status).toBe('missing_baseline');
+    const [diff] = await storage.listDiffs({ status: 'pending' });
+    expect(diff).toMatchObject({ diffId: result.diffId, name: 'checkout/summary', result: 'missing_baseline' });
+  });
+
+  it('should match once a diff is approved as the baseline', async () => {
+    const first = await storage.check({ name: 'home', variant, image: createImage(10, 10) });
+    const baseline = await storage.approveDiff(first.diffId!);
+
+    expect(baseline).toMatchObject({ name: 'home', variant, width: 10, height: 10 });
+    expect((await storage.check({ name: 'home', variant, image: createImage(10, 10) })).status).toBe('match');
+    expect(await storage.listDiffs({ status: 'pending' })).toEqual([]);
+  });
+
+  it('should store a diff image when the change exceeds the threshold', async () => {
+    await storage.saveBaseline({ name: 'home', variant, image: createImage(10, 10) });
+
+    const result = await storage.check({ name: 'home', variant, image: createImage(10, 10, { x: 0, y: 0, width: 5, height: 5 }) });
+
+    expect(result.status).toBe('mismatch');
+    expect(result.mismatchRatio).toBeCloseTo(0.25);
+    await expect(fs.access(result.diffPath!)).resolves.toBeUndefined();
+  });
+
+  it('should reuse the options approved with the baseline', async () => {
+    await storage.saveBaseline({
+      name: 'dashboard',
+      variant,
+      image: createImage(10, 10),
+      options: { ignoreRegions: [{ x: 0, y: 0, width: 5, height: 5 }] }
+    });
+
+    const result = await storage.check({ name: 'dashboard', variant, image: createImage(10, 10, { x: 0, y: 0, width: 5, height: 5 }) });
+
+    expect(result.status).toBe('match');
+  });
+
+  it('should keep checkpoint names inside the storage directory', async () => {
+    const baseline = await storage.saveBaseline({ name: '../../escape', variant, image: createImage(2, 2) });
+
+    expect(baseline.imagePath.startsWith(testDir)).toBe(true);
+  });
+
+  it('should save and load structural baselines by name', async () => {
+    const analysis = { forms: [], buttons: [], inputs: [], roles: [], landmarks: [] };
+    await storage.saveStructure({ name: 'checkout', url: 'https://shop.test/checkout', variant, analysis });
+
+    expect(await storage.loadStructure('checkout')).toMatchObject({ name: 'checkout', variant, analysis });
+    expect(await storage.loadStructure('missing')).toBeNull();
+  });
+});